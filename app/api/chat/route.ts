@@ -1,13 +1,20 @@
 import { NextRequest } from 'next/server';
-import { writeDocumentTool, displaySOPTool, overwriteSOPTool, createSOPTool, deleteSOPTool, DEFAULT_MODEL, getSopManagementTools } from '@/lib/openai';
-import { saveMessage, getMessages, getChat, getActiveSOPRun, getSOP, saveToolCallMessage, saveToolResultMessage, updateSOPRunStep, getLastMessage, updateChatTitle } from '@/lib/db';
-import { createSystemPrompt, isInitialSOPStart } from '@/lib/services/prompt';
+import { getToolDefinitions, resolveModelSettings } from '@/lib/openai';
+import { saveMessage, getMessages, getChat, getActiveSOPRun, getSOPForRun, saveToolCallMessage, saveToolResultMessage, getLastMessage, updateChatTitle, saveStepFormSubmission, getStepResults, getRunVariables, setRunVariable, getStepApprovals, getSOPDocuments, getCurrentSOPRun, getChatSOPRuns, setManualTransition, recordStepTransition, setTransitionProposal } from '@/lib/db';
+import { createSystemPrompt, isInitialSOPStart, type PromptContext } from '@/lib/services/prompt';
 import { handleChatStream } from '@/lib/services/chat-stream';
-import { determineNextStep } from '@/lib/services/stepManager';
-import { getThread, getLatestLeafId } from '@/lib/utils/message-tree';
+import { determineNextStep, needsConfirmation, type StepDecision } from '@/lib/services/stepManager';
+import { getThread, getLatestLeafId, getRunThread } from '@/lib/utils/message-tree';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
-import type { ToolExecutionContext } from '@/lib/services/tools';
+import { getAvailableTools, type ToolExecutionContext } from '@/lib/services/tools';
 import { generateChatTitleFromHistory } from '@/lib/services/chatName';
+import { applyStepTransition, getRunAncestry, getStepHold, type ActiveRun } from '@/lib/services/runs';
+import { extractRunVariables, getMissingVariables } from '@/lib/services/variableExtractor';
+import { fillDocumentSlots, type UploadedAttachment } from '@/lib/services/documentSlots';
+import { fitDocumentsToBudget, resolveReferencedDocuments, type ReferencedDocument } from '@/lib/services/referencedDocuments';
+import { validateStepInputs } from '@/lib/utils/step-inputs';
+import { getCurrentApproval } from '@/lib/utils/approvals';
+import type { RunVariable, SOP, SOPRun, StepResult, StepTransitionProposal } from '@/lib/types/sop';
 
 /**
  * Validates the incoming request
@@ -19,6 +26,40 @@ function validateRequest(chatId: unknown, message: unknown): { valid: boolean; e
   return { valid: true };
 }
 
+/**
+ * Validates a step form submission against the active run and saves it as a step result
+ */
+function saveStepInputs(
+  stepInputs: { stepId?: string; values?: Record<string, unknown> },
+  sop: SOP | undefined,
+  sopRun: SOPRun | undefined
+): { valid: boolean; error?: string; fieldErrors?: Record<string, string> } {
+  if (!sop || !sopRun) {
+    return { valid: false, error: 'No active SOP run for this chat' };
+  }
+
+  if (!stepInputs.stepId || stepInputs.stepId !== sopRun.currentStepId) {
+    return { valid: false, error: 'Form inputs can only be submitted for the current step' };
+  }
+
+  const step = sop.steps.find((s) => s.id === stepInputs.stepId);
+  if (!step?.inputFields || step.inputFields.length === 0) {
+    return { valid: false, error: `Step "${stepInputs.stepId}" does not accept form inputs` };
+  }
+
+  const validation = validateStepInputs(step.inputFields, stepInputs.values || {});
+  if (!validation.valid) {
+    return { valid: false, error: 'Form validation failed', fieldErrors: validation.errors };
+  }
+
+  saveStepFormSubmission(sopRun.id, step.id, validation.values);
+  // Form values double as run variables so templates can use them by field ID
+  for (const [fieldId, value] of Object.entries(validation.values)) {
+    setRunVariable(sopRun.id, fieldId, value, 'form', step.id);
+  }
+  return { valid: true };
+}
+
 /**
  * Converts file attachments to OpenAI message content format
  */
@@ -130,12 +171,13 @@ function prepareConversationMessages(
   model: string,
   history: any[],
   sop?: any,
-  currentStepId?: string
+  currentStepId?: string,
+  promptContext?: PromptContext
 ): ChatCompletionMessageParam[] {
   const conversationMessages: ChatCompletionMessageParam[] = history.map(convertMessage);
 
   // Prepend system prompt
-  const systemPrompt = createSystemPrompt(model, sop, currentStepId);
+  const systemPrompt = createSystemPrompt(model, sop, currentStepId, promptContext);
   conversationMessages.unshift({
     role: 'system',
     content: systemPrompt,
@@ -151,40 +193,124 @@ function loadActiveSOP(numChatId: number) {
   const sopRun = getActiveSOPRun(numChatId);
   let sop = undefined;
   if (sopRun) {
-    sop = getSOP(sopRun.sopId);
+    sop = getSOPForRun(sopRun);
   }
   return { sopRun, sop };
 }
 
+/**
+ * Fills in the SOP's declared variables that the conversation has now stated
+ * Returns the run's variables, including any newly extracted ones
+ */
+async function updateRunVariables(
+  sop: SOP | undefined,
+  sopRun: SOPRun | undefined,
+  history: any[],
+  isSOPStart: boolean
+): Promise<RunVariable[]> {
+  if (!sop || !sopRun) {
+    return [];
+  }
+
+  const variables = getRunVariables(sopRun.id);
+  const missing = getMissingVariables(sop, variables);
+  if (isSOPStart || missing.length === 0) {
+    return variables;
+  }
+
+  const extracted = await extractRunVariables(history, missing);
+  if (Object.keys(extracted).length === 0) {
+    return variables;
+  }
+
+  for (const [name, value] of Object.entries(extracted)) {
+    setRunVariable(sopRun.id, name, value, 'extraction', sopRun.currentStepId);
+  }
+  return getRunVariables(sopRun.id);
+}
+
+/**
+ * Stores the message's uploads and pasted text in the run's document slots
+ */
+async function updateRunDocuments(
+  sop: SOP | undefined,
+  sopRun: SOPRun | undefined,
+  message: string,
+  files: UploadedAttachment[] | undefined,
+  isSOPStart: boolean
+): Promise<void> {
+  if (!sop || !sopRun || isSOPStart) {
+    return;
+  }
+
+  await fillDocumentSlots(sop, sopRun, message, files || []);
+}
+
+/**
+ * Resolves the current step's referencedDocuments and fits them to the prompt budget
+ */
+function getStepReferencedDocuments(sop: SOP | undefined, stepId: string | undefined, sopRun: SOPRun | undefined): ReferencedDocument[] {
+  const step = sop?.steps.find((s) => s.id === stepId);
+  if (!sop || !step || !sopRun) {
+    return [];
+  }
+  return fitDocumentsToBudget(resolveReferencedDocuments(sop, step, sopRun.id));
+}
+
 /**
  * Handles SOP step determination and updates
+ * A transition can start a sub-SOP or finish one, so the run that handles this
+ * turn is returned along with the decision and the tool context is pointed at it.
+ * A low-confidence model decision is held as a proposal for the user to confirm instead
  */
 async function determineAndUpdateStep(
-  sop: any,
+  sop: SOP | undefined,
   currentStepId: string | undefined,
-  sopRun: any,
+  sopRun: SOPRun | undefined,
   history: any[],
   isSOPStart: boolean,
-  toolContext: ToolExecutionContext
+  toolContext: ToolExecutionContext,
+  stepResults: StepResult[],
+  runVariables: RunVariable[],
+  messageId?: number
 ) {
   let updatedStepId = currentStepId;
-  let stepDecision: { stepId: string } | null = null;
+  let stepDecision: StepDecision | null = null;
+  let proposal: StepTransitionProposal | undefined;
+  let active: ActiveRun | undefined = sop && sopRun ? { run: sopRun, sop } : undefined;
+
+  // A proposal the user didn't answer is replaced by this turn's decision
+  if (sopRun?.transitionProposal && !isSOPStart) {
+    setTransitionProposal(sopRun.id, null);
+  }
   
   if (sop && currentStepId && !isSOPStart) {
-    const currentStep = sop.steps.find((s: any) => s.id === currentStepId);
+    const currentStep = sop.steps.find((s) => s.id === currentStepId);
     if (currentStep) {
       try {
-        stepDecision = await determineNextStep(history, currentStep, sop);
+        stepDecision = await determineNextStep(history, currentStep, sop, stepResults, runVariables, sopRun ? getStepHold(sop, sopRun) : undefined);
         
-        // Update the step if it changed
-        if (stepDecision.stepId !== currentStepId && sopRun) {
-          updateSOPRunStep(sopRun.id, stepDecision.stepId);
-          updatedStepId = stepDecision.stepId;
+        if (sopRun && needsConfirmation(stepDecision, currentStepId)) {
+          proposal = {
+            fromStepId: currentStepId,
+            toStepId: stepDecision.stepId,
+            rationale: stepDecision.rationale,
+            confidence: stepDecision.confidence,
+            messageId,
+          };
+          setTransitionProposal(sopRun.id, proposal);
+        } else if (stepDecision.stepId !== currentStepId && sopRun) {
+          // Update the step if it changed
+          recordStepTransition(sopRun.id, currentStepId, stepDecision.stepId, stepDecision.source === 'rule' ? 'rule' : 'llm', {
+            rationale: stepDecision.rationale,
+            confidence: stepDecision.confidence,
+            messageId,
+          });
+          active = applyStepTransition(sopRun, sop, stepDecision.stepId);
+          updatedStepId = active.run.currentStepId;
+          toolContext.sop = active.sop;
+          toolContext.sopRunId = active.run.id;
           toolContext.currentStepId = updatedStepId;
-          
-          if (process.env.NODE_ENV === 'development') {
-            console.log(`Step transition: ${sopRun.currentStepId} → ${stepDecision.stepId}`);
-          }
         }
       } catch (error) {
         console.error('Error determining next step:', error);
@@ -192,16 +318,15 @@ async function determineAndUpdateStep(
     }
   }
   
-  return { stepDecision, updatedStepId };
+  return { stepDecision, proposal, updatedStepId, active };
 }
 
 /**
- * Gets the list of available tools
+ * Gets the tool definitions the model may call in the current step
  * Uses dynamic tool generation to inject actual SOP IDs from the database
  */
-function getAvailableTools() {
-  const sopTools = getSopManagementTools();
-  return [writeDocumentTool, ...sopTools];
+function getToolsForStep(sop?: SOP, stepId?: string) {
+  return getToolDefinitions(getAvailableTools(sop, stepId), sop?.steps.find((s) => s.id === stepId));
 }
 
 /**
@@ -211,8 +336,7 @@ function getAvailableTools() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { chatId, message, files, parentMessageId } = body;
-    const model = DEFAULT_MODEL;
+    const { chatId, message, files, parentMessageId, stepInputs } = body;
 
     // Validate request
     const validation = validateRequest(chatId, message);
@@ -241,33 +365,40 @@ export async function POST(request: NextRequest) {
     // Check if this is an initial SOP start command
     const isSOPStart = isInitialSOPStart(message);
     
-    // Determine parent message ID
-    let effectiveParentMessageId: number | null;
-    
-    if (isSOPStart) {
-      // For SOP starts, always use null as parent (start a new conversation thread)
-      effectiveParentMessageId = null;
-    } else {
-      // For regular messages, determine parent based on provided ID or latest leaf
-      effectiveParentMessageId = parentMessageId ?? undefined;
-      if (effectiveParentMessageId === undefined) {
-        if (allMessages.length > 0) {
-          // If no parent specified, append to the latest leaf
-          effectiveParentMessageId = getLatestLeafId(allMessages) ?? null;
-        } else {
-          effectiveParentMessageId = null;
-        }
+    // Determine parent message ID based on provided ID or latest leaf
+    // A SOP started inside an ongoing chat continues the same conversation thread
+    let effectiveParentMessageId: number | null = parentMessageId ?? undefined;
+    if (effectiveParentMessageId === undefined) {
+      if (allMessages.length > 0) {
+        // If no parent specified, append to the latest leaf
+        effectiveParentMessageId = getLatestLeafId(allMessages) ?? null;
+      } else {
+        effectiveParentMessageId = null;
       }
     }
 
     // Load active SOP if one exists
     const { sopRun, sop } = loadActiveSOP(numChatId);
+
+    // Messages are tagged with the chat's current top-level run, so each run only sees its own conversation
+    const rootRunId = sopRun ? getRunAncestry(sopRun)[0]?.run.id ?? sopRun.id : getCurrentSOPRun(numChatId)?.id;
+
+    // Persist structured form inputs before the message so the step manager and prompt can see them
+    if (stepInputs && !isSOPStart) {
+      const inputResult = saveStepInputs(stepInputs, sop, sopRun);
+      if (!inputResult.valid) {
+        return new Response(JSON.stringify({ error: inputResult.error, fieldErrors: inputResult.fieldErrors }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
     
     let userMessageId: number | undefined;
 
     // Save user message only if it's not a system command
     if (!isSOPStart) {
-      const savedMsg = saveMessage(numChatId, 'user', message, files, effectiveParentMessageId ?? undefined);
+      const savedMsg = saveMessage(numChatId, 'user', message, files, effectiveParentMessageId ?? undefined, undefined, rootRunId);
       userMessageId = savedMsg.id;
       // Update effective parent to be this new user message for subsequent AI responses
       effectiveParentMessageId = userMessageId;
@@ -281,6 +412,8 @@ export async function POST(request: NextRequest) {
 
     const updatedAllMessages = getMessages(numChatId);
     const thread = userMessageId ? getThread(userMessageId, updatedAllMessages) : updatedAllMessages; // fallback if no user msg (SOP start)
+    // Step decisions and the prompt only consider the active run's messages
+    const runThread = sopRun ? getRunThread(thread, rootRunId, getChatSOPRuns(numChatId)[0]?.id) : thread;
 
     // If this is the very first real user message, trigger AI-based chat naming.
     // We only do this once per chat, and we never rename on subsequent edits.
@@ -307,6 +440,16 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // A step change made with the step controls since the last turn is told to the model once.
+    // Completing a run from the controls leaves no active run, so check the latest one too;
+    // a paused run keeps its change until it is resumed
+    const latestRun = sopRun ? undefined : getCurrentSOPRun(numChatId);
+    const manualRun = sopRun ?? (latestRun?.status === 'completed' ? latestRun : undefined);
+    const manualTransition = manualRun?.manualTransition;
+    if (manualRun && manualTransition && !isSOPStart) {
+      setManualTransition(manualRun.id, null);
+    }
+
     // Prepare tool execution context
     const toolContext: ToolExecutionContext = {
       chatId: numChatId,
@@ -316,17 +459,41 @@ export async function POST(request: NextRequest) {
     };
 
     // Determine and update current step if needed
-    const { stepDecision, updatedStepId } = await determineAndUpdateStep(
+    const stepResults = sopRun ? getStepResults(sopRun.id) : [];
+    const runVariables = await updateRunVariables(sop, sopRun, runThread, isSOPStart);
+    await updateRunDocuments(sop, sopRun, message, files, isSOPStart);
+    const { stepDecision, proposal, updatedStepId, active } = await determineAndUpdateStep(
       sop,
       sopRun?.currentStepId,
       sopRun,
-      thread,
+      runThread,
       isSOPStart,
-      toolContext
+      toolContext,
+      stepResults,
+      runVariables,
+      userMessageId
     );
 
+    // Entering or leaving a sub-SOP hands the turn to a different run
+    const activeSOP = active?.sop ?? sop;
+    const activeRun = active?.run ?? sopRun;
+    const runChanged = !!active && active.run.id !== sopRun?.id;
+
+    // Model settings follow the step that will handle this turn
+    const modelSettings = resolveModelSettings(activeSOP, updatedStepId);
+
     // Recreate conversation messages with potentially updated step
-    const updatedConversationMessages = prepareConversationMessages(model, thread, sop, updatedStepId);
+    const promptContext: PromptContext = {
+      stepResults: runChanged ? getStepResults(active.run.id) : stepResults,
+      variables: runChanged ? getRunVariables(active.run.id) : runVariables,
+      parentRuns: active ? getRunAncestry(active.run).slice(0, -1) : [],
+      approval: activeRun ? getCurrentApproval(activeRun, getStepApprovals(activeRun.id)) : undefined,
+      documents: activeRun ? getSOPDocuments(activeRun.id) : [],
+      referencedDocuments: getStepReferencedDocuments(activeSOP, updatedStepId, activeRun),
+      manualTransition: isSOPStart ? undefined : manualTransition,
+      transitionProposal: proposal,
+    };
+    const updatedConversationMessages = prepareConversationMessages(modelSettings.model, runThread, activeSOP, updatedStepId, promptContext);
 
     // Create a ReadableStream for Server-Sent Events
     const encoder = new TextEncoder();
@@ -336,21 +503,44 @@ export async function POST(request: NextRequest) {
           let fullResponse = '';
           let lastSavedMessageId = effectiveParentMessageId;
 
+          // Ask the user to confirm a step change the model wasn't sure about
+          if (proposal && sopRun) {
+            const proposalData = JSON.stringify({
+              type: 'step_transition_proposal',
+              runId: sopRun.id,
+              ...proposal,
+            });
+            controller.enqueue(encoder.encode(`data: ${proposalData}\n\n`));
+          }
+
           // Send step decision if one was made
-          if (stepDecision && stepDecision.stepId !== sopRun?.currentStepId) {
+          if (stepDecision && !proposal && stepDecision.stepId !== sopRun?.currentStepId) {
             const stepDecisionData = JSON.stringify({
               type: 'step_transition',
               previousStep: sopRun?.currentStepId,
               nextStep: stepDecision.stepId,
+              source: stepDecision.source,
+              runId: active?.run.id,
+              activeStep: updatedStepId,
             });
             controller.enqueue(encoder.encode(`data: ${stepDecisionData}\n\n`));
           }
 
+          // The run reached DONE on this turn and has been completed with a summary
+          if (active?.run.status === 'completed') {
+            const completedData = JSON.stringify({
+              type: 'run_completed',
+              runId: active.run.id,
+              summaryDocumentId: active.run.summaryDocumentId,
+            });
+            controller.enqueue(encoder.encode(`data: ${completedData}\n\n`));
+          }
+
           // Stream the chat completion with tool support
           for await (const streamData of handleChatStream(
-            model,
+            modelSettings,
             updatedConversationMessages,
-            getAvailableTools(),
+            getToolsForStep(activeSOP, updatedStepId),
             toolContext
           )) {
             // Accumulate full response for saving
@@ -364,9 +554,9 @@ export async function POST(request: NextRequest) {
                 for (const msg of streamData.messagesToSave) {
                     let savedToolMsg;
                     if (msg.role === 'assistant' && 'tool_calls' in msg && msg.tool_calls) {
-                        savedToolMsg = saveToolCallMessage(numChatId, msg.tool_calls, lastSavedMessageId || undefined);
+                        savedToolMsg = saveToolCallMessage(numChatId, msg.tool_calls, lastSavedMessageId || undefined, modelSettings.model, rootRunId);
                     } else if (msg.role === 'tool' && 'tool_call_id' in msg && msg.tool_call_id) {
-                        savedToolMsg = saveToolResultMessage(numChatId, msg.tool_call_id, msg.content, streamData.name, streamData.metadata, lastSavedMessageId || undefined);
+                        savedToolMsg = saveToolResultMessage(numChatId, msg.tool_call_id, msg.content, streamData.name, streamData.metadata, lastSavedMessageId || undefined, rootRunId);
                     }
                     
                     if (savedToolMsg) {
@@ -382,7 +572,7 @@ export async function POST(request: NextRequest) {
           
           // Save final assistant response
           if (fullResponse) {
-             saveMessage(numChatId, 'assistant', fullResponse, undefined, lastSavedMessageId || undefined);
+             saveMessage(numChatId, 'assistant', fullResponse, undefined, lastSavedMessageId || undefined, modelSettings.model, rootRunId);
           }
 
           controller.close();
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveSOPRun, getChatOwnerUsername, getSOPForRun, getStepApprovals, saveStepApproval } from '@/lib/db';
+
+interface ApprovalRequest {
+  stepId?: string;
+  decision?: 'approve' | 'reject';
+  reason?: string;
+  approver?: string;
+}
+
+/**
+ * GET /api/chats/[chatId]/run/approvals - Get the approval decisions of the active SOP run for a chat
+ * Returns an array of step approvals, empty if no run is in progress
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const sopRun = getActiveSOPRun(chatId);
+    if (!sopRun) {
+      return NextResponse.json([]);
+    }
+
+    return NextResponse.json(getStepApprovals(sopRun.id));
+  } catch (error) {
+    console.error('Error fetching step approvals:', error);
+    return NextResponse.json([], { status: 500 });
+  }
+}
+
+/**
+ * POST /api/chats/[chatId]/run/approvals - Approve or reject the active run's current step
+ * Request body: { stepId, decision: 'approve' | 'reject', reason?, approver? }
+ * A reason is required to reject; the approver defaults to the chat's owner
+ * Returns the recorded approval
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const body = (await request.json()) as ApprovalRequest;
+    if (body.decision !== 'approve' && body.decision !== 'reject') {
+      return NextResponse.json({ error: 'decision must be "approve" or "reject"' }, { status: 400 });
+    }
+
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (body.decision === 'reject' && !reason) {
+      return NextResponse.json({ error: 'A reason is required to reject a step' }, { status: 400 });
+    }
+
+    const sopRun = getActiveSOPRun(chatId);
+    const sop = sopRun ? getSOPForRun(sopRun) : undefined;
+    if (!sopRun || !sop) {
+      return NextResponse.json({ error: 'No SOP run in progress' }, { status: 404 });
+    }
+
+    // Decisions only apply to the step the run is waiting on
+    if (body.stepId !== sopRun.currentStepId) {
+      return NextResponse.json({ error: `Step "${body.stepId}" is not the current step` }, { status: 409 });
+    }
+
+    const step = sop.steps.find((s) => s.id === sopRun.currentStepId);
+    if (!step?.requiresApproval) {
+      return NextResponse.json({ error: `Step "${body.stepId}" does not require approval` }, { status: 400 });
+    }
+
+    const approver = (typeof body.approver === 'string' && body.approver.trim()) || getChatOwnerUsername(chatId) || 'unknown';
+    const approval = saveStepApproval(
+      sopRun.id,
+      step.id,
+      sopRun.stepHistory.length - 1,
+      body.decision === 'approve' ? 'approved' : 'rejected',
+      approver,
+      reason || undefined
+    );
+
+    return NextResponse.json(approval, { status: 201 });
+  } catch (error) {
+    console.error('Error recording step approval:', error);
+    return NextResponse.json({ error: 'Failed to record step approval' }, { status: 500 });
+  }
+}
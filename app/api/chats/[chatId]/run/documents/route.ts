@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveSOPRun, getCurrentSOPRun, getSOPDocuments, getSOPForRun, saveSOPDocument } from '@/lib/db';
+
+interface SaveDocumentRequest {
+  documentId?: string;
+  content?: string;
+}
+
+/**
+ * GET /api/chats/[chatId]/run/documents - Get the user documents of the active (or latest) SOP run for a chat
+ * Returns the latest document for each filled userDocuments slot, empty if no run exists
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const sopRun = getActiveSOPRun(chatId) ?? getCurrentSOPRun(chatId);
+    if (!sopRun) {
+      return NextResponse.json([]);
+    }
+
+    return NextResponse.json(getSOPDocuments(sopRun.id));
+  } catch (error) {
+    console.error('Error fetching run documents:', error);
+    return NextResponse.json([], { status: 500 });
+  }
+}
+
+/**
+ * POST /api/chats/[chatId]/run/documents - Fill a userDocuments slot of the active run with pasted text
+ * Request body: { documentId, content }; replaces any document already in the slot
+ * Returns the saved document
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const body = (await request.json()) as SaveDocumentRequest;
+    const content = typeof body.content === 'string' ? body.content.trim() : '';
+    if (!body.documentId || !content) {
+      return NextResponse.json({ error: 'documentId and content are required' }, { status: 400 });
+    }
+
+    const sopRun = getActiveSOPRun(chatId);
+    const sop = sopRun ? getSOPForRun(sopRun) : undefined;
+    if (!sopRun || !sop) {
+      return NextResponse.json({ error: 'No SOP run in progress' }, { status: 404 });
+    }
+
+    if (!(sop.userDocuments || []).some((slot) => slot.id === body.documentId)) {
+      return NextResponse.json({ error: `SOP "${sop.id}" has no document "${body.documentId}"` }, { status: 400 });
+    }
+
+    const document = saveSOPDocument(sopRun.id, body.documentId, content, 'text');
+    return NextResponse.json(document, { status: 201 });
+  } catch (error) {
+    console.error('Error saving run document:', error);
+    return NextResponse.json({ error: 'Failed to save document' }, { status: 500 });
+  }
+}
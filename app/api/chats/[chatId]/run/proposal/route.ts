@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveSOPRun, getSOPForRun } from '@/lib/db';
+import { answerTransitionProposal } from '@/lib/services/runs';
+
+interface ProposalAnswerRequest {
+  answer?: 'move' | 'stay';
+}
+
+/**
+ * POST /api/chats/[chatId]/run/proposal - Confirm or decline the step change the model proposed
+ * Request body: { answer: 'move' | 'stay' }
+ * Moving applies the proposed change to the active run; staying drops it.
+ * Returns the run that is active afterwards with its SOP
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const body = (await request.json()) as ProposalAnswerRequest;
+    if (body.answer !== 'move' && body.answer !== 'stay') {
+      return NextResponse.json({ error: 'answer must be "move" or "stay"' }, { status: 400 });
+    }
+
+    const sopRun = getActiveSOPRun(chatId);
+    const sop = sopRun ? getSOPForRun(sopRun) : undefined;
+    if (!sopRun || !sop) {
+      return NextResponse.json({ error: 'No active SOP run for this chat' }, { status: 404 });
+    }
+
+    const result = answerTransitionProposal(sopRun, sop, body.answer);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.code === 'conflict' ? 409 : 400 });
+    }
+
+    return NextResponse.json(result.active);
+  } catch (error) {
+    console.error('Error answering step proposal:', error);
+    return NextResponse.json({ error: 'Failed to answer step proposal' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveSOPRun, getSOPForRun } from '@/lib/db';
+import { resolveReferencedDocuments } from '@/lib/services/referencedDocuments';
+
+/**
+ * GET /api/chats/[chatId]/run/referenced-documents - Get the documents the active run's current step references
+ * Returns [{ ref, key, name, source }]; key selects the document in the document viewer.
+ * Empty if no run is active or the step references nothing that exists yet
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const sopRun = getActiveSOPRun(chatId);
+    const sop = sopRun ? getSOPForRun(sopRun) : undefined;
+    const step = sop?.steps.find((s) => s.id === sopRun?.currentStepId);
+    if (!sopRun || !sop || !step) {
+      return NextResponse.json([]);
+    }
+
+    const documents = resolveReferencedDocuments(sop, step, sopRun.id);
+    return NextResponse.json(documents.map(({ ref, key, name, source }) => ({ ref, key, name, source })));
+  } catch (error) {
+    console.error('Error fetching referenced documents:', error);
+    return NextResponse.json([], { status: 500 });
+  }
+}
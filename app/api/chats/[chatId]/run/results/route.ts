@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveSOPRun, getCurrentSOPRun, getStepResults } from '@/lib/db';
+
+/**
+ * GET /api/chats/[chatId]/run/results - Get the step results of the active (or latest) SOP run for a chat
+ * Returns an array of step results (form inputs and outputs), empty if no run exists
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const sopRun = getActiveSOPRun(chatId) ?? getCurrentSOPRun(chatId);
+    if (!sopRun) {
+      return NextResponse.json([]);
+    }
+
+    return NextResponse.json(getStepResults(sopRun.id));
+  } catch (error) {
+    console.error('Error fetching step results:', error);
+    return NextResponse.json([], { status: 500 });
+  }
+}
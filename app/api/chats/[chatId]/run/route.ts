@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getLatestSOPRun } from '@/lib/db';
+import { getActiveSOPRun, getCurrentSOPRun, getSOPForRun } from '@/lib/db';
+import { moveRunManually } from '@/lib/services/runs';
 
 /**
- * GET /api/chats/[chatId]/run - Get the latest SOP run for a chat
+ * GET /api/chats/[chatId]/run - Get the current SOP run for a chat (the selected one, otherwise the latest)
  * Returns the SOP run data if it exists, or null if no run is associated
  */
 export async function GET(
@@ -16,8 +17,8 @@ export async function GET(
       return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
     }
 
-    // Get the most recent SOP run for this chat
-    const sopRun = getLatestSOPRun(chatId);
+    // Get the SOP run the chat is on
+    const sopRun = getCurrentSOPRun(chatId);
     
     if (!sopRun) {
       // No SOP run exists for this chat
@@ -31,3 +32,48 @@ export async function GET(
   }
 }
 
+
+interface StepControlRequest {
+  action?: 'jump' | 'back' | 'complete';
+  stepId?: string;
+}
+
+/**
+ * PATCH /api/chats/[chatId]/run - Move the active run with the step controls
+ * Request body: { action: 'jump', stepId } | { action: 'back' } | { action: 'complete' }
+ * Applies to the innermost active run when a sub-SOP is running. The model is told about
+ * the change on the next turn. Returns the run that is active afterwards with its SOP
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const body = (await request.json()) as StepControlRequest;
+    if (!body.action || !['jump', 'back', 'complete'].includes(body.action)) {
+      return NextResponse.json({ error: 'action must be jump, back or complete' }, { status: 400 });
+    }
+
+    const sopRun = getActiveSOPRun(chatId);
+    const sop = sopRun ? getSOPForRun(sopRun) : undefined;
+    if (!sopRun || !sop) {
+      return NextResponse.json({ error: 'No active SOP run for this chat' }, { status: 404 });
+    }
+
+    const result = moveRunManually(sopRun, sop, body.action, body.stepId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.code === 'conflict' ? 409 : 400 });
+    }
+
+    return NextResponse.json(result.active);
+  } catch (error) {
+    console.error('Error moving SOP run:', error);
+    return NextResponse.json({ error: 'Failed to move SOP run' }, { status: 500 });
+  }
+}
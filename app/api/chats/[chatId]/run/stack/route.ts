@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentSOPRun, getSOPForRun, getSOPRunStack } from '@/lib/db';
+
+/**
+ * GET /api/chats/[chatId]/run/stack - Get the latest SOP run for a chat and its running sub-SOPs
+ * Returns an array of { run, sop } from the top-level run down to the innermost active child,
+ * empty if no run exists
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const sopRun = getCurrentSOPRun(chatId);
+    if (!sopRun) {
+      return NextResponse.json([]);
+    }
+
+    const stack = getSOPRunStack(sopRun).map((run) => ({ run, sop: getSOPForRun(run) ?? null }));
+    return NextResponse.json(stack);
+  } catch (error) {
+    console.error('Error fetching run stack:', error);
+    return NextResponse.json([], { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChatSOPRuns, getCurrentSOPRun, getMessages, getSOPForRun, getSOPRunStack, saveMessage } from '@/lib/db';
+import { changeRunStatus } from '@/lib/services/runs';
+import { generateRunRecap } from '@/lib/services/runRecap';
+import { getLatestLeafId, getRunThread, getThread } from '@/lib/utils/message-tree';
+
+interface RunStatusRequest {
+  action?: 'pause' | 'resume' | 'cancel';
+  reason?: string;
+}
+
+/**
+ * POST /api/chats/[chatId]/run/status - Pause, resume or cancel the chat's latest SOP run
+ * Request body: { action: 'pause' | 'resume' | 'cancel', reason }
+ * A reason is required for every action. Resuming adds a "welcome back" recap
+ * to the chat as an assistant message. Returns { run, recapMessageId? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const body = (await request.json()) as RunStatusRequest;
+    if (!body.action || !['pause', 'resume', 'cancel'].includes(body.action)) {
+      return NextResponse.json({ error: 'action must be pause, resume or cancel' }, { status: 400 });
+    }
+
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (!reason) {
+      return NextResponse.json({ error: `A reason is required to ${body.action} a run` }, { status: 400 });
+    }
+
+    const sopRun = getCurrentSOPRun(chatId);
+    if (!sopRun) {
+      return NextResponse.json({ error: 'No SOP run for this chat' }, { status: 404 });
+    }
+
+    const result = changeRunStatus(sopRun, body.action, reason);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    if (body.action !== 'resume') {
+      return NextResponse.json({ run: result.run });
+    }
+
+    // Recap the innermost run, which is where the conversation continues, with the reason it was paused
+    const stack = getSOPRunStack(result.run);
+    const innermost = { ...stack[stack.length - 1], statusReason: sopRun.statusReason };
+    const sop = getSOPForRun(innermost);
+    if (!sop) {
+      return NextResponse.json({ run: result.run });
+    }
+    const messages = getMessages(chatId);
+    const leafId = getLatestLeafId(messages);
+    const history = getRunThread(leafId ? getThread(leafId, messages) : [], sopRun.id, getChatSOPRuns(chatId)[0]?.id);
+    const recap = await generateRunRecap(innermost, sop, history);
+    const recapMessage = saveMessage(chatId, 'assistant', recap.text, undefined, leafId ?? undefined, recap.model, sopRun.id);
+
+    return NextResponse.json({ run: result.run, recapMessageId: recapMessage.id });
+  } catch (error) {
+    console.error('Error changing SOP run status:', error);
+    return NextResponse.json({ error: 'Failed to change SOP run status' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChatStepTransitions } from '@/lib/db';
+
+/**
+ * GET /api/chats/[chatId]/run/transitions - Get the step transition log of the chat's runs
+ * Includes sub-SOP runs, oldest first; each entry has the trigger and, for model
+ * decisions, the rationale and confidence the model gave
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    return NextResponse.json(getChatStepTransitions(chatId));
+  } catch (error) {
+    console.error('Error fetching step transitions:', error);
+    return NextResponse.json([], { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveSOPRun, getCurrentSOPRun, getRunVariables } from '@/lib/db';
+
+/**
+ * GET /api/chats/[chatId]/run/variables - Get the variables of the active (or latest) SOP run for a chat
+ * Returns an array of run variables, empty if no run exists
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const sopRun = getActiveSOPRun(chatId) ?? getCurrentSOPRun(chatId);
+    if (!sopRun) {
+      return NextResponse.json([]);
+    }
+
+    return NextResponse.json(getRunVariables(sopRun.id));
+  } catch (error) {
+    console.error('Error fetching run variables:', error);
+    return NextResponse.json([], { status: 500 });
+  }
+}
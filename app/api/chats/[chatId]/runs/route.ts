@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChatSOPRuns, getCurrentSOPRun, getSOPForRun, getSOPRun, setChatActiveRun } from '@/lib/db';
+
+/**
+ * GET /api/chats/[chatId]/runs - List the top-level SOP runs in a chat
+ * Returns { runs: [{ run, sop: { id, displayName } }], currentRunId }, oldest run first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const runs = getChatSOPRuns(chatId).map((run) => {
+      const sop = getSOPForRun(run);
+      return { run, sop: sop ? { id: sop.id, displayName: sop.displayName } : null };
+    });
+
+    return NextResponse.json({ runs, currentRunId: getCurrentSOPRun(chatId)?.id ?? null });
+  } catch (error) {
+    console.error('Error fetching chat runs:', error);
+    return NextResponse.json({ error: 'Failed to fetch chat runs' }, { status: 500 });
+  }
+}
+
+interface SwitchRunRequest {
+  runId?: number;
+}
+
+/**
+ * PATCH /api/chats/[chatId]/runs - Switch the chat's active run
+ * Request body: { runId } of a top-level run in this chat
+ * New messages are tagged with that run and only its conversation is used for prompts and step decisions
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const chatId = parseInt(params.chatId, 10);
+
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 });
+    }
+
+    const body = (await request.json()) as SwitchRunRequest;
+    const runId = Number(body.runId);
+    if (!body.runId || isNaN(runId)) {
+      return NextResponse.json({ error: 'Invalid run ID' }, { status: 400 });
+    }
+
+    const run = getSOPRun(runId);
+    if (!run || run.chatId !== chatId) {
+      return NextResponse.json({ error: 'SOP run not found in this chat' }, { status: 404 });
+    }
+    if (run.parentRunId) {
+      return NextResponse.json({ error: 'Sub-SOP runs follow their parent run and cannot be switched to' }, { status: 400 });
+    }
+
+    setChatActiveRun(chatId, run.id);
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Error switching SOP run:', error);
+    return NextResponse.json({ error: 'Failed to switch SOP run' }, { status: 500 });
+  }
+}
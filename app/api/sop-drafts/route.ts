@@ -1,5 +1,6 @@
 import { NextResponse, NextRequest } from 'next/server';
-import { getSOPDrafts } from '@/lib/db';
+import { getChat, getSOP, getSOPDrafts, saveSOPDraft, getChatOwnerUsername } from '@/lib/db';
+import { createSOP, updateSOP, SOP_ERROR_STATUS } from '@/lib/services/sops';
 
 /**
  * GET /api/sop-drafts - Get all SOP drafts for a chat
@@ -22,3 +23,55 @@ export async function GET(request: NextRequest) {
   }
 }
 
+
+/**
+ * POST /api/sop-drafts - Save a SOP edited in the SOP viewer
+ * Request body: { chatId, sop, changeNote? }
+ * The SOP is validated and saved (created if its ID is new), then recorded as a
+ * draft in the chat so the viewer shows the saved version
+ * Returns { draft, version, issues } where issues are lint warnings
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    const chatId = parseInt(body?.chatId, 10);
+    if (isNaN(chatId)) {
+      return NextResponse.json({ error: 'chatId is required' }, { status: 400 });
+    }
+    if (!body.sop || typeof body.sop !== 'object') {
+      return NextResponse.json({ error: 'sop is required' }, { status: 400 });
+    }
+
+    // Check the chat before saving, so a bad chatId can't leave a saved SOP without its draft
+    if (!getChat(chatId)) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    const options = {
+      author: getChatOwnerUsername(chatId),
+      changeNote: body.changeNote || 'Edited in the SOP editor',
+    };
+    const result = typeof body.sop.id === 'string' && getSOP(body.sop.id)
+      ? updateSOP(body.sop.id, body.sop, options)
+      : createSOP(body.sop, options);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code, issues: result.issues },
+        { status: SOP_ERROR_STATUS[result.code] }
+      );
+    }
+
+    const draft = saveSOPDraft(chatId, result.sop, 'sop_editor');
+    return NextResponse.json({ draft, version: result.version, issues: result.issues });
+  } catch (error) {
+    console.error('Error saving SOP from editor:', error);
+    return NextResponse.json({ error: 'Failed to save SOP' }, { status: 500 });
+  }
+}
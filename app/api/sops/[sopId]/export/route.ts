@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSOP } from '@/lib/db';
+import {
+  buildSOPBundle,
+  serializeSOPBundle,
+  getBundleFileInfo,
+  type BundleFileFormat,
+} from '@/lib/services/sopBundle';
+
+/**
+ * GET /api/sops/[sopId]/export?format=json|yaml - Export a SOP as a bundle file
+ * The bundle includes the full SOP definition and its latest version metadata
+ * Returns the bundle as a file download (defaults to JSON)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sopId: string } }
+) {
+  try {
+    const format = (request.nextUrl.searchParams.get('format') || 'json') as BundleFileFormat;
+    if (format !== 'json' && format !== 'yaml') {
+      return NextResponse.json({ error: 'format must be json or yaml' }, { status: 400 });
+    }
+
+    const sop = getSOP(params.sopId);
+    if (!sop) {
+      return NextResponse.json({ error: 'SOP not found' }, { status: 404 });
+    }
+
+    const { extension, contentType } = getBundleFileInfo(format);
+    const content = serializeSOPBundle(buildSOPBundle([sop]), format);
+
+    return new Response(content, {
+      status: 200,
+      headers: {
+        'Content-Type': `${contentType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${sop.id}.sop.${extension}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting SOP:', error);
+    return NextResponse.json({ error: 'Failed to export SOP' }, { status: 500 });
+  }
+}
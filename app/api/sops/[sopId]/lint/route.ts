@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSOP } from '@/lib/db';
+import { lintSOP } from '@/lib/services/sopLinter';
+
+/**
+ * GET /api/sops/[sopId]/lint - Lint a saved SOP
+ * Returns { valid, issues } where each issue has a severity (error/warning), code and message
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sopId: string } }
+) {
+  try {
+    const sopId = params.sopId;
+
+    if (!sopId) {
+      return NextResponse.json({ error: 'Invalid SOP ID' }, { status: 400 });
+    }
+
+    const sop = getSOP(sopId);
+    if (!sop) {
+      return NextResponse.json({ error: 'SOP not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(lintSOP(sop));
+  } catch (error) {
+    console.error('Error linting SOP:', error);
+    return NextResponse.json({ error: 'Failed to lint SOP' }, { status: 500 });
+  }
+}
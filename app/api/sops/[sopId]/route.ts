@@ -1,5 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSOP } from '@/lib/db';
+import {
+  updateSOP,
+  patchSOP,
+  removeSOP,
+  SOP_ERROR_STATUS,
+  type SOPChangeOptions,
+  type SOPOperationResult,
+} from '@/lib/services/sops';
+
+/**
+ * Reads a JSON body, separating version history options from the SOP data
+ */
+async function readSOPBody(
+  request: NextRequest
+): Promise<{ data: any; options: SOPChangeOptions } | null> {
+  try {
+    const body = await request.json();
+    const { author, changeNote, ...data } = body || {};
+    return { data, options: { author, changeNote } };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts a SOP operation result into a response
+ */
+function toResponse(result: SOPOperationResult) {
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error, code: result.code, issues: result.issues },
+      { status: SOP_ERROR_STATUS[result.code] }
+    );
+  }
+  return NextResponse.json({ sop: result.sop, version: result.version, issues: result.issues });
+}
 
 /**
  * GET /api/sops/[sopId] - Get a specific SOP by ID
@@ -30,3 +66,72 @@ export async function GET(
   }
 }
 
+/**
+ * PUT /api/sops/[sopId] - Replace a SOP with a new definition
+ * Request body is the complete SOP, plus optional author and changeNote keys
+ * Returns { sop, version, issues } where issues are lint warnings
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { sopId: string } }
+) {
+  try {
+    const body = await readSOPBody(request);
+    if (!body) {
+      return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    return toResponse(updateSOP(params.sopId, body.data, body.options));
+  } catch (error) {
+    console.error('Error updating SOP:', error);
+    return NextResponse.json({ error: 'Failed to update SOP' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/sops/[sopId] - Partially update a SOP
+ * Request body is a JSON merge patch (null removes a field, arrays are replaced),
+ * plus optional author and changeNote keys
+ * Returns { sop, version, issues } where issues are lint warnings
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { sopId: string } }
+) {
+  try {
+    const body = await readSOPBody(request);
+    if (!body) {
+      return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    return toResponse(patchSOP(params.sopId, body.data, body.options));
+  } catch (error) {
+    console.error('Error patching SOP:', error);
+    return NextResponse.json({ error: 'Failed to update SOP' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/sops/[sopId] - Delete a SOP
+ * Built-in SOPs and SOPs with existing runs cannot be deleted
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { sopId: string } }
+) {
+  try {
+    const result = removeSOP(params.sopId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: SOP_ERROR_STATUS[result.code] }
+      );
+    }
+
+    return NextResponse.json({ success: true, sopId: params.sopId });
+  } catch (error) {
+    console.error('Error deleting SOP:', error);
+    return NextResponse.json({ error: 'Failed to delete SOP' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSOP, createSOPRun } from '@/lib/db';
+import { getSOP } from '@/lib/db';
+import { startSOPRun } from '@/lib/services/runs';
 
 interface CreateRunRequest {
   chatId: number;
@@ -8,7 +9,7 @@ interface CreateRunRequest {
 /**
  * POST /api/sops/[sopId]/runs - Create a new SOP run for a chat
  * Request body should include the chatId
- * Returns the newly created SOP run
+ * Returns the newly created SOP run (the top-level run, even if its first step starts a sub-SOP)
  */
 export async function POST(
   request: NextRequest,
@@ -36,9 +37,9 @@ export async function POST(
     }
 
     // Create the SOP run
-    const run = createSOPRun(chatId, sopId, firstStep.id);
+    const { root } = startSOPRun(chatId, sop);
 
-    return NextResponse.json(run, { status: 201 });
+    return NextResponse.json(root, { status: 201 });
   } catch (error) {
     console.error('Error creating SOP run:', error);
     return NextResponse.json({ error: 'Failed to create SOP run' }, { status: 500 });
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSOPVersion } from '@/lib/db';
+import { updateSOP, SOP_ERROR_STATUS } from '@/lib/services/sops';
+
+interface RestoreVersionRequest {
+  author?: string;
+  changeNote?: string;
+}
+
+/**
+ * POST /api/sops/[sopId]/versions/[versionId]/restore - Restore an old SOP version
+ * The old definition is saved as a new version, so history is never rewritten.
+ * It goes through the same validation as an update, so a version that no longer lints is rejected
+ * Optional body: { author, changeNote }
+ * Returns the newly created version summary
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sopId: string; versionId: string } }
+) {
+  try {
+    const versionId = parseInt(params.versionId, 10);
+
+    if (isNaN(versionId)) {
+      return NextResponse.json({ error: 'Invalid version ID' }, { status: 400 });
+    }
+
+    const version = getSOPVersion(versionId);
+    if (!version || version.sopId !== params.sopId) {
+      return NextResponse.json({ error: 'SOP version not found' }, { status: 404 });
+    }
+
+    let body: RestoreVersionRequest = {};
+    try {
+      body = (await request.json()) as RestoreVersionRequest;
+    } catch {
+      // Body is optional
+    }
+
+    const result = updateSOP(params.sopId, version.sop, {
+      author: body.author,
+      changeNote: body.changeNote || `Restored version ${version.versionNumber}`,
+    });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code, issues: result.issues },
+        { status: SOP_ERROR_STATUS[result.code] }
+      );
+    }
+
+    return NextResponse.json(result.version, { status: 201 });
+  } catch (error) {
+    console.error('Error restoring SOP version:', error);
+    return NextResponse.json({ error: 'Failed to restore SOP version' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSOPVersion } from '@/lib/db';
+
+/**
+ * GET /api/sops/[sopId]/versions/[versionId] - Get a specific SOP version
+ * Returns the version metadata along with the SOP definition as it was saved
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sopId: string; versionId: string } }
+) {
+  try {
+    const versionId = parseInt(params.versionId, 10);
+
+    if (isNaN(versionId)) {
+      return NextResponse.json({ error: 'Invalid version ID' }, { status: 400 });
+    }
+
+    const version = getSOPVersion(versionId);
+    if (!version || version.sopId !== params.sopId) {
+      return NextResponse.json(null, { status: 404 });
+    }
+
+    return NextResponse.json(version);
+  } catch (error) {
+    console.error('Error fetching SOP version:', error);
+    return NextResponse.json(null, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSOP, getSOPVersions } from '@/lib/db';
+
+/**
+ * GET /api/sops/[sopId]/versions - List the saved versions of a SOP
+ * Returns version summaries (number, author, change note, timestamp), newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sopId: string } }
+) {
+  try {
+    const sopId = params.sopId;
+
+    if (!sopId) {
+      return NextResponse.json({ error: 'Invalid SOP ID' }, { status: 400 });
+    }
+
+    if (!getSOP(sopId)) {
+      return NextResponse.json({ error: 'SOP not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(getSOPVersions(sopId));
+  } catch (error) {
+    console.error('Error fetching SOP versions:', error);
+    return NextResponse.json([], { status: 500 });
+  }
+}
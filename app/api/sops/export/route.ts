@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllSOPs } from '@/lib/db';
+import { createSOPBundleZip, type BundleFileFormat } from '@/lib/services/sopBundle';
+
+/**
+ * GET /api/sops/export?format=json|yaml&ids=a,b - Export many SOPs as a zip
+ * The zip holds one bundle file per SOP; omit ids to export every SOP
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const format = (request.nextUrl.searchParams.get('format') || 'json') as BundleFileFormat;
+    if (format !== 'json' && format !== 'yaml') {
+      return NextResponse.json({ error: 'format must be json or yaml' }, { status: 400 });
+    }
+
+    const idsParam = request.nextUrl.searchParams.get('ids');
+    const ids = idsParam ? idsParam.split(',').map((id) => id.trim()).filter(Boolean) : null;
+
+    const sops = getAllSOPs().filter((sop) => !ids || ids.includes(sop.id));
+    if (sops.length === 0) {
+      return NextResponse.json({ error: 'No SOPs to export' }, { status: 404 });
+    }
+
+    const zip = await createSOPBundleZip(sops, format);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new Response(zip as any, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="sops-${date}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting SOPs:', error);
+    return NextResponse.json({ error: 'Failed to export SOPs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  readSOPBundleFile,
+  importSOPBundle,
+  type ImportConflictStrategy,
+  type SOPBundleEntry,
+} from '@/lib/services/sopBundle';
+
+const CONFLICT_STRATEGIES: ImportConflictStrategy[] = ['overwrite', 'rename', 'skip'];
+
+/**
+ * POST /api/sops/import - Import SOPs from bundle files
+ * Multipart form data:
+ * - files: one or more .json, .yaml/.yml or .zip bundle files, or .md/.txt Markdown SOPs
+ * - onConflict: overwrite | rename | skip (default: skip) for IDs that already exist
+ * - author: optional, recorded in the version history
+ * Every SOP goes through the same validation as create_sop
+ * Returns { results, errors } with one result per SOP found
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files') as File[];
+    const onConflict = (formData.get('onConflict') || 'skip') as ImportConflictStrategy;
+    const author = (formData.get('author') as string | null) || undefined;
+
+    if (!files || files.length === 0) {
+      return NextResponse.json({ error: 'No files provided' }, { status: 400 });
+    }
+
+    if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+      return NextResponse.json(
+        { error: `onConflict must be one of: ${CONFLICT_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const entries: SOPBundleEntry[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      const result = await readSOPBundleFile(file.name, Buffer.from(await file.arrayBuffer()));
+      entries.push(...result.entries);
+      errors.push(...result.errors);
+    }
+
+    if (entries.length === 0) {
+      return NextResponse.json({ error: 'No SOPs found in the uploaded files', errors }, { status: 400 });
+    }
+
+    const results = importSOPBundle(entries, onConflict, author);
+    return NextResponse.json({ results, errors });
+  } catch (error) {
+    console.error('Error importing SOPs:', error);
+    return NextResponse.json({ error: 'Failed to import SOPs' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getAllSOPs } from '@/lib/db';
+import { createSOP, SOP_ERROR_STATUS } from '@/lib/services/sops';
 
 /**
  * GET /api/sops - Get all available SOP templates
@@ -15,3 +16,37 @@ export async function GET() {
   }
 }
 
+/**
+ * POST /api/sops - Create a new SOP
+ * Request body is the complete SOP; optional author and changeNote keys are
+ * recorded in the version history and not saved as part of the SOP
+ * Returns { sop, version, issues } where issues are lint warnings
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    const { author, changeNote, ...sopData } = body || {};
+    const result = createSOP(sopData, { author, changeNote });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code, issues: result.issues },
+        { status: SOP_ERROR_STATUS[result.code] }
+      );
+    }
+
+    return NextResponse.json(
+      { sop: result.sop, version: result.version, issues: result.issues },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating SOP:', error);
+    return NextResponse.json({ error: 'Failed to create SOP' }, { status: 500 });
+  }
+}
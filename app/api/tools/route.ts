@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { REGISTERED_TOOLS } from '@/lib/openai';
+
+/**
+ * GET /api/tools - Get the names of every tool a SOP can provide
+ * Used by the SOP editor to offer valid providedTools choices
+ */
+export async function GET() {
+  return NextResponse.json(REGISTERED_TOOLS);
+}
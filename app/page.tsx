@@ -16,7 +16,7 @@ export default function Home() {
   const [chats, setChats] = useState<Chat[]>([]);
   const [sops, setSOPs] = useState<SOP[]>([]);
   const [currentChatId, setCurrentChatId] = useState<number | null>(null);
-  const [selectedDocumentId, setSelectedDocumentId] = useState<number | null>(null);
+  const [selectedDocumentKey, setSelectedDocumentKey] = useState<string | null>(null);
   const [isDocumentViewerOpen, setIsDocumentViewerOpen] = useState(false);
   const [isSOPViewerOpen, setIsSOPViewerOpen] = useState(false);
   const [leftPanelWidth, setLeftPanelWidth] = useState(50); // percentage
@@ -24,6 +24,7 @@ export default function Home() {
   const [isLoading, setIsLoading] = useState(true);
   const [sopRefreshTrigger, setSOPRefreshTrigger] = useState(0);
   const [sopDraftRefreshTrigger, setSOPDraftRefreshTrigger] = useState(0);
+  const [sopStartTrigger, setSOPStartTrigger] = useState(0);
 
   // Load chats and SOPs on mount
   useEffect(() => {
@@ -122,6 +123,29 @@ export default function Home() {
     }
   };
 
+  const handleStartSOPInChat = async (sopId: string) => {
+    if (!currentChatId) return;
+    try {
+      // Start another run in the current chat; it becomes the chat's active run
+      const runResponse = await fetch(`/api/sops/${sopId}/runs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chatId: currentChatId }),
+      });
+
+      if (!runResponse.ok) {
+        throw new Error('Failed to create SOP run');
+      }
+
+      // Reload chats so the chat picks up the new run's SOP, then greet the user for it
+      await loadChats();
+      setSOPRefreshTrigger(prev => prev + 1);
+      setSOPStartTrigger(prev => prev + 1);
+    } catch (error) {
+      console.error('Error starting SOP in chat:', error);
+    }
+  };
+
   const handleSelectChat = (chatId: number) => {
     setCurrentChatId(chatId);
   };
@@ -183,6 +207,8 @@ export default function Home() {
         onSelectChat={handleSelectChat}
         onNewChat={handleNewChat}
         onSelectSOP={handleSelectSOPTemplate}
+        onStartSOPInChat={handleStartSOPInChat}
+        onSOPsChanged={loadSOPs}
       />
       {currentChatId ? (
         <div className="flex-1 flex flex-col overflow-hidden">
@@ -192,6 +218,16 @@ export default function Home() {
               chatId={currentChatId} 
               refreshTrigger={sopRefreshTrigger}
               sop={chats.find(c => c.id === currentChatId)?.sop!} 
+              onRunChanged={() => {
+                // Switching runs can change the chat's SOP
+                loadChats();
+                setSOPRefreshTrigger(prev => prev + 1);
+              }}
+              onOpenDocument={(docId) => {
+                setSelectedDocumentKey(`generated:${docId}`);
+                setIsDocumentViewerOpen(true);
+                setIsSOPViewerOpen(false);
+              }}
             />
           )}
           
@@ -206,7 +242,12 @@ export default function Home() {
                 chatId={currentChatId}
                 currentChat={chats.find(c => c.id === currentChatId) || null}
                 onOpenDocument={(docId) => {
-                  setSelectedDocumentId(docId);
+                  setSelectedDocumentKey(`generated:${docId}`);
+                  setIsDocumentViewerOpen(true);
+                  setIsSOPViewerOpen(false);
+                }}
+                onOpenReferencedDocument={(documentKey) => {
+                  setSelectedDocumentKey(documentKey);
                   setIsDocumentViewerOpen(true);
                   setIsSOPViewerOpen(false);
                 }}
@@ -216,6 +257,8 @@ export default function Home() {
                 }}
                 onRefreshSOPDrafts={() => setSOPDraftRefreshTrigger(prev => prev + 1)}
                 onSOPRefresh={() => setSOPRefreshTrigger(prev => prev + 1)}
+                runRefreshTrigger={sopRefreshTrigger}
+                sopStartTrigger={sopStartTrigger}
                 onChatUpdated={loadChats}
               />
             </div>
@@ -239,8 +282,8 @@ export default function Home() {
                 {isDocumentViewerOpen && (
                   <DocumentViewer
                     chatId={currentChatId}
-                    selectedDocumentId={selectedDocumentId}
-                    onDocumentSelect={(docId) => setSelectedDocumentId(docId)}
+                    selectedDocumentKey={selectedDocumentKey}
+                    onDocumentSelect={(documentKey) => setSelectedDocumentKey(documentKey)}
                     onClose={() => setIsDocumentViewerOpen(false)}
                   />
                 )}
@@ -249,6 +292,7 @@ export default function Home() {
                     chatId={currentChatId}
                     refreshTrigger={sopDraftRefreshTrigger}
                     onClose={() => setIsSOPViewerOpen(false)}
+                    onSOPSaved={loadSOPs}
                   />
                 )}
               </div>
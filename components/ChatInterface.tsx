@@ -6,14 +6,23 @@ import MessageList from './MessageList';
 import ChatInput from './ChatInput';
 import { fileToBase64, extractTextFromFile } from '@/lib/file-utils';
 import { getLatestLeafId, getThread } from '@/lib/utils/message-tree';
+import { formatStepInputsMessage, isStepFormPending } from '@/lib/utils/step-inputs';
+import type { SOP, SOPRun, SOPStep, StepApproval, StepInputValue, StepResult, StepTransitionProposal } from '@/lib/types/sop';
+import { getCurrentApproval, isApprovalPending } from '@/lib/utils/approvals';
 
 interface ChatInterfaceProps {
   chatId: number;
   currentChat?: Chat | null;
   onOpenDocument?: (documentId: number) => void;
+  // Opens a document by its viewer key when a new step references it
+  onOpenReferencedDocument?: (documentKey: string) => void;
   onOpenSOP?: () => void;
   onRefreshSOPDrafts?: () => void;
   onSOPRefresh?: () => void;
+  // Changes when the run was changed outside the chat, e.g. with the step controls
+  runRefreshTrigger?: number;
+  // Changes when a SOP run was started in this chat, so its greeting is sent
+  sopStartTrigger?: number;
   onChatUpdated?: () => void;
 }
 
@@ -26,9 +35,12 @@ export default function ChatInterface({
   chatId,
   currentChat,
   onOpenDocument,
+  onOpenReferencedDocument,
   onOpenSOP,
   onRefreshSOPDrafts,
   onSOPRefresh,
+  runRefreshTrigger,
+  sopStartTrigger,
   onChatUpdated,
 }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([]);
@@ -41,6 +53,10 @@ export default function ChatInterface({
   const [isThinking, setIsThinking] = useState(false);
   const [liveDocumentHtml, setLiveDocumentHtml] = useState<string | null>(null);
   const [liveDocumentName, setLiveDocumentName] = useState<string | null>(null);
+  const [sopRun, setSOPRun] = useState<SOPRun | null>(null);
+  const [runSOP, setRunSOP] = useState<SOP | null>(null);
+  const [stepResults, setStepResults] = useState<StepResult[]>([]);
+  const [approvals, setApprovals] = useState<StepApproval[]>([]);
   const lastSOPChatIdRef = useRef<number | null>(null);
   const lastProcessedMessageIdRef = useRef<number | null>(null);
   const lastProcessedSOPDraftIdRef = useRef<number | null>(null);
@@ -75,6 +91,96 @@ export default function ChatInterface({
     }
   };
 
+  // The run and step last seen, so arriving on a new step can be detected
+  const lastRunStepRef = useRef<string | null>(null);
+
+  /**
+   * Opens the first document the current step references, if there is one
+   */
+  const openReferencedDocuments = async (targetChatId: number) => {
+    try {
+      const response = await fetch(`/api/chats/${targetChatId}/run/referenced-documents`);
+      if (!response.ok) return;
+      const documents: Array<{ key: string }> = await response.json();
+      if (documents.length > 0) {
+        onOpenReferencedDocument?.(documents[0].key);
+      }
+    } catch (error) {
+      console.error('Error loading referenced documents:', error);
+    }
+  };
+
+  /**
+   * Fetches the chat's SOP run and its step results so pending step forms can be shown.
+   * While a sub-SOP is running, this is the innermost child run and its SOP.
+   */
+  const refreshRunState = async (targetChatId: number) => {
+    try {
+      const [stackResponse, resultsResponse, approvalsResponse] = await Promise.all([
+        fetch(`/api/chats/${targetChatId}/run/stack`),
+        fetch(`/api/chats/${targetChatId}/run/results`),
+        fetch(`/api/chats/${targetChatId}/run/approvals`),
+      ]);
+      if (stackResponse.ok) {
+        const stack: Array<{ run: SOPRun; sop: SOP | null }> = await stackResponse.json();
+        const active = stack[stack.length - 1];
+        setSOPRun(active?.run ?? null);
+        setRunSOP(active?.sop ?? null);
+
+        // Open the new step's referenced documents, but not when a chat is first loaded
+        const runStep = active ? `${active.run.id}:${active.run.currentStepId}` : null;
+        if (lastRunStepRef.current && runStep && runStep !== lastRunStepRef.current) {
+          openReferencedDocuments(targetChatId);
+        }
+        lastRunStepRef.current = runStep;
+      }
+      if (resultsResponse.ok) {
+        setStepResults(await resultsResponse.json());
+      }
+      if (approvalsResponse.ok) {
+        setApprovals(await approvalsResponse.json());
+      }
+    } catch (error) {
+      console.error('Error loading SOP run state:', error);
+    }
+  };
+
+  // Load SOP run state when chat changes
+  useEffect(() => {
+    setSOPRun(null);
+    setRunSOP(null);
+    lastRunStepRef.current = null;
+    setStepResults([]);
+    setApprovals([]);
+    if (chatId && currentChat?.sop) {
+      refreshRunState(chatId);
+    }
+  }, [chatId, currentChat?.sop?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Pick up run changes made outside the chat, and any message they added (e.g. a resume recap)
+  useEffect(() => {
+    if (chatId && currentChat?.sop && runRefreshTrigger) {
+      refreshRunState(chatId);
+      if (!isStreaming) {
+        fetchMessages(chatId)
+          .then((updatedMessages) => {
+            if (updatedMessages === null || updatedMessages.length === messages.length) return;
+            setMessages(updatedMessages);
+            const newLeaf = getLatestLeafId(updatedMessages);
+            if (newLeaf) setCurrentLeafId(newLeaf);
+          })
+          .catch((err) => console.error('Error reloading messages after run change:', err));
+      }
+    }
+  }, [runRefreshTrigger]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Greet the user for a SOP run started inside this chat
+  useEffect(() => {
+    if (chatId && sopStartTrigger && !isStreaming) {
+      handleSendMessage('[SOP_START]');
+    }
+  }, [sopStartTrigger]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Load messages when chat changes
   // Note: handleSendMessage and currentChat?.sop are excluded from deps as they would cause infinite loops
   // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -174,7 +280,12 @@ export default function ChatInterface({
     }
   }, [messages, onOpenSOP, onRefreshSOPDrafts]);
 
-  const handleSendMessage = async (message: string, files?: File[], parentMessageId?: number | null) => {
+  const handleSendMessage = async (
+    message: string,
+    files?: File[],
+    parentMessageId?: number | null,
+    stepInputs?: { stepId: string; values: Record<string, StepInputValue> }
+  ) => {
     if (!chatId || isStreaming) return;
 
     let uploadedFiles: Array<{ file_id?: string; filename: string; file_type: string; size: number; is_image: boolean; is_pdf?: boolean; requires_text_extraction?: boolean; base64?: string; extracted_text?: string; error?: string }> = [];
@@ -279,12 +390,15 @@ export default function ChatInterface({
           chatId, 
           message, 
           files: uploadedFiles,
-          parentMessageId: parentMessageId !== undefined ? parentMessageId : currentLeafId 
+          parentMessageId: parentMessageId !== undefined ? parentMessageId : currentLeafId,
+          stepInputs,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to send message');
+        const errorData = await response.json().catch(() => null);
+        const fieldErrors = errorData?.fieldErrors ? Object.values(errorData.fieldErrors).join('; ') : '';
+        throw new Error(fieldErrors || errorData?.error || 'Failed to send message');
       }
 
       const reader = response.body?.getReader();
@@ -362,6 +476,18 @@ export default function ChatInterface({
                       console.error('Error reloading messages after tool completion:', err);
                     });
                 }
+              } else if (data.type === 'step_transition_proposal') {
+                // Show the move/stay prompt; the run stays on its step until the user answers
+                const { fromStepId, toStepId, rationale, confidence, messageId } = data;
+                setSOPRun((prev) => (prev && prev.id === data.runId
+                  ? { ...prev, transitionProposal: { fromStepId, toStepId, rationale, confidence, messageId } }
+                  : prev));
+              } else if (data.type === 'run_completed') {
+                // Show the completion summary alongside the model's wrap-up
+                if (data.summaryDocumentId) {
+                  onOpenDocument?.(data.summaryDocumentId);
+                }
+                onSOPRefresh?.();
               } else if (data.type === 'document_stream') {
                 // Live document HTML preview while write_document tool is being constructed
                 if (typeof data.html === 'string' && data.html.length > 0) {
@@ -406,12 +532,108 @@ export default function ChatInterface({
       setLiveDocumentName(null);
     } catch (error) {
       console.error('Error sending message:', error);
-      setStreamingMessage('Error: Failed to send message');
+      setStreamingMessage(`Error: ${error instanceof Error ? error.message : 'Failed to send message'}`);
     } finally {
       setIsStreaming(false);
+      // Pick up step changes and newly saved step results (or restore a rejected form)
+      if (currentChat?.sop) {
+        refreshRunState(chatId);
+      }
     }
   };
 
+  const handleSubmitStepInputs = (step: SOPStep, values: Record<string, StepInputValue>, files: File[]) => {
+    // Optimistically hide the form; the run state is refreshed once the response completes
+    setStepResults((prev) => [
+      ...prev,
+      {
+        id: -Date.now(),
+        runId: sopRun?.id ?? 0,
+        stepId: step.id,
+        userInputs: values,
+        aiOutput: '',
+        validationStatus: 'pending',
+        formSubmission: true,
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+    handleSendMessage(formatStepInputsMessage(step, values), files, undefined, { stepId: step.id, values });
+  };
+
+  const handleStepApproval = async (step: SOPStep, decision: 'approve' | 'reject', reason?: string) => {
+    try {
+      const response = await fetch(`/api/chats/${chatId}/run/approvals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ stepId: step.id, decision, reason }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to record approval');
+      }
+      const approval: StepApproval = await response.json();
+      setApprovals((prev) => [...prev, approval]);
+    } catch (error) {
+      console.error('Error recording step approval:', error);
+      if (chatId) {
+        refreshRunState(chatId);
+      }
+      return;
+    }
+
+    // Tell the model so it can continue, or revise using the rejection reason
+    const title = step.userFacingTitle || step.assistantFacingTitle;
+    handleSendMessage(decision === 'approve' ? `Approved "${title}".` : `Rejected "${title}": ${reason}`);
+  };
+
+  const getProposalTargetTitle = (proposal: StepTransitionProposal) => {
+    if (proposal.toStepId === 'DONE') return 'the end of the SOP';
+    const step = (runSOP ?? currentChat?.sop)?.steps.find((s) => s.id === proposal.toStepId);
+    return step ? step.userFacingTitle || step.assistantFacingTitle : proposal.toStepId;
+  };
+
+  const handleAnswerProposal = async (answer: 'move' | 'stay') => {
+    const proposal = sopRun?.transitionProposal;
+    // Hide the prompt straight away; a failure restores it from the run state
+    setSOPRun((prev) => (prev ? { ...prev, transitionProposal: undefined } : prev));
+    try {
+      const response = await fetch(`/api/chats/${chatId}/run/proposal`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answer }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to answer step proposal');
+      }
+    } catch (error) {
+      console.error('Error answering step proposal:', error);
+      if (chatId) {
+        refreshRunState(chatId);
+      }
+      return;
+    }
+
+    if (answer === 'stay') {
+      return;
+    }
+    // Let the model pick up the new step straight away
+    onSOPRefresh?.();
+    handleSendMessage(proposal?.toStepId === 'DONE'
+      ? "Let's finish here."
+      : `Let's move on to "${proposal ? getProposalTargetTitle(proposal) : 'the next step'}".`);
+  };
+
+  // Show the current step's form until it has been submitted for this run
+  const currentStep = sopRun && sopRun.status === 'in_progress'
+    ? (runSOP ?? currentChat?.sop)?.steps.find((step) => step.id === sopRun.currentStepId)
+    : undefined;
+  const formStep = currentStep && isStepFormPending(currentStep, stepResults) ? currentStep : null;
+  // Once any form is done, ask for sign-off on steps that require approval
+  const approvalStep = !formStep && currentStep && sopRun && isApprovalPending(currentStep, sopRun, approvals) ? currentStep : null;
+  // A proposal only applies while the run is still on the step it was made on
+  const transitionProposal = currentStep && sopRun?.transitionProposal?.fromStepId === currentStep.id ? sopRun.transitionProposal : null;
+
   if (!chatId) {
     return (
       <div className="flex-1 flex items-center justify-center text-foreground-muted bg-background">
@@ -446,6 +668,14 @@ export default function ChatInterface({
             onOpenSOP={onOpenSOP}
             liveDocumentHtml={liveDocumentHtml}
             liveDocumentName={liveDocumentName}
+            formStep={formStep}
+            onSubmitStepInputs={handleSubmitStepInputs}
+            approvalStep={approvalStep}
+            currentApproval={sopRun ? getCurrentApproval(sopRun, approvals) : undefined}
+            onStepApproval={handleStepApproval}
+            transitionProposal={transitionProposal}
+            proposalTargetTitle={transitionProposal ? getProposalTargetTitle(transitionProposal) : undefined}
+            onAnswerProposal={handleAnswerProposal}
           />
           <ChatInput onSendMessage={(msg, files) => handleSendMessage(msg, files)} disabled={isStreaming} />
         </>
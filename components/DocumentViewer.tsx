@@ -3,24 +3,28 @@
 import { useState, useEffect, useRef } from 'react';
 import { exportHtmlAsDocx } from '@/lib/document-export';
 import { renderAsync } from 'docx-preview';
+import type { SOPDocument } from '@/lib/types/sop';
 
+// AI-generated HTML documents are keyed "generated:<id>", user documents of the run "user:<slot id>"
 interface Document {
-  id: number;
+  key: string;
   document_name: string;
   content: string;
-  created_at: string;
+  source: 'generated' | 'user';
+  contentType?: SOPDocument['contentType'];
+  filename?: string;
 }
 
 interface DocumentViewerProps {
   chatId: number;
-  selectedDocumentId?: number | null;
-  onDocumentSelect?: (documentId: number) => void;
+  selectedDocumentKey?: string | null;
+  onDocumentSelect?: (documentKey: string) => void;
   onClose?: () => void;
 }
 
 export default function DocumentViewer({
   chatId,
-  selectedDocumentId,
+  selectedDocumentKey,
   onDocumentSelect,
   onClose,
 }: DocumentViewerProps) {
@@ -42,18 +46,37 @@ export default function DocumentViewer({
       try {
         setIsLoading(true);
         setError(null);
-        const response = await fetch(`/api/documents?chatId=${chatId}`);
+        const [response, userResponse] = await Promise.all([
+          fetch(`/api/documents?chatId=${chatId}`),
+          fetch(`/api/chats/${chatId}/run/documents`),
+        ]);
         
         if (!response.ok) {
           throw new Error('Failed to fetch documents');
         }
 
-        const data = await response.json();
-        setDocuments(data || []);
+        const generated: Document[] = ((await response.json()) || []).map((doc: { id: number; document_name: string; content: string }) => ({
+          key: `generated:${doc.id}`,
+          document_name: doc.document_name,
+          content: doc.content,
+          source: 'generated',
+        }));
+        const userDocuments: Document[] = userResponse.ok
+          ? ((await userResponse.json()) as SOPDocument[]).map((doc) => ({
+              key: `user:${doc.documentId}`,
+              document_name: doc.filename || doc.documentId,
+              content: doc.content,
+              source: 'user',
+              contentType: doc.contentType,
+              filename: doc.filename,
+            }))
+          : [];
+        const data = [...userDocuments, ...generated];
+        setDocuments(data);
 
         // If documents were just loaded and there's a selected one, select it
-        if (selectedDocumentId && data && data.length > 0) {
-          const doc = data.find((d: Document) => d.id === selectedDocumentId);
+        if (selectedDocumentKey && data.length > 0) {
+          const doc = data.find((d) => d.key === selectedDocumentKey);
           if (doc) {
             setSelectedDocument(doc);
           } else if (data.length > 0) {
@@ -73,17 +96,17 @@ export default function DocumentViewer({
     };
 
     fetchDocuments();
-  }, [chatId, selectedDocumentId]);
+  }, [chatId, selectedDocumentKey]);
 
   const handleSelectDocument = (doc: Document) => {
     setSelectedDocument(doc);
-    onDocumentSelect?.(doc.id);
+    onDocumentSelect?.(doc.key);
     setIsDropdownOpen(false);
   };
 
-  // Fetch and render DOCX when document is selected
+  // Fetch and render DOCX when a generated document is selected
   useEffect(() => {
-    if (!selectedDocument) return;
+    if (!selectedDocument || selectedDocument.source !== 'generated') return;
 
     const renderDocx = async () => {
       try {
@@ -213,7 +236,7 @@ export default function DocumentViewer({
       <div className="h-full flex items-center justify-center bg-background-secondary">
         <div className="text-center text-foreground-muted">
           <p className="text-sm mb-2">No documents yet</p>
-          <p className="text-xs">Documents will appear here when generated</p>
+          <p className="text-xs">Documents will appear here when generated or provided</p>
         </div>
       </div>
     );
@@ -269,10 +292,10 @@ export default function DocumentViewer({
                 <div className="absolute top-full left-0 mt-1 bg-background-tertiary border border-border rounded-md shadow-lg z-50 min-w-max">
                   {documents.map((doc) => (
                     <button
-                      key={doc.id}
+                      key={doc.key}
                       onClick={() => handleSelectDocument(doc)}
                       className={`w-full text-left px-4 py-2 text-sm transition-colors ${
-                        selectedDocument.id === doc.id
+                        selectedDocument.key === doc.key
                           ? 'bg-action text-white'
                           : 'text-foreground hover:bg-background-secondary'
                       }`}
@@ -285,7 +308,8 @@ export default function DocumentViewer({
             </div>
           </div>
 
-          {/* Right side: Download button with dropdown */}
+          {/* Right side: Download button with dropdown, for generated documents */}
+          {selectedDocument.source === 'generated' && (
           <div ref={downloadRef} className="relative flex-shrink-0">
             <button
               onClick={() => setIsDownloadOpen(!isDownloadOpen)}
@@ -326,15 +350,24 @@ export default function DocumentViewer({
               </div>
             )}
           </div>
+          )}
         </div>
       )}
 
-      {/* Document Content - DOCX Preview */}
+      {/* Document Content - DOCX Preview, or the text the user provided */}
       <div className="flex-1 overflow-auto bg-background-secondary p-8">
         {!selectedDocument ? (
           <div className="flex items-center justify-center h-full text-foreground-muted">
             <p className="text-sm">Select a document to view</p>
           </div>
+        ) : selectedDocument.source === 'user' ? (
+          selectedDocument.contentType === 'openai-file' ? (
+            <div className="flex items-center justify-center h-full text-foreground-muted">
+              <p className="text-sm">PDF uploaded: {selectedDocument.filename}</p>
+            </div>
+          ) : (
+            <pre className="whitespace-pre-wrap text-sm text-foreground font-sans">{selectedDocument.content}</pre>
+          )
         ) : (
           <>
             {isLoadingDocx && (
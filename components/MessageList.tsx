@@ -5,6 +5,11 @@ import { useEffect, useRef, useState, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { Image as ImageIcon, FileText, ChevronLeft, ChevronRight, Pencil, X, Check } from 'lucide-react';
 import { getThread, getBranchInfo, getBranchLeafId } from '@/lib/utils/message-tree';
+import type { OutputVerdict, SOPStep, StepApproval, StepInputValue, StepTransitionProposal } from '@/lib/types/sop';
+import StepInputForm from './StepInputForm';
+import StepApprovalPanel from './StepApprovalPanel';
+import StepProposalPanel from './StepProposalPanel';
+import StructuredOutputCard from './StructuredOutputCard';
 
 // Detect if content is HTML by looking for common HTML tags
 function isHTMLContent(content: string): boolean {
@@ -32,6 +37,57 @@ interface MessageListProps {
   onOpenSOP?: () => void;
   liveDocumentHtml?: string | null;
   liveDocumentName?: string | null;
+  formStep?: SOPStep | null; // Current SOP step whose input form still needs to be filled in
+  onSubmitStepInputs?: (step: SOPStep, values: Record<string, StepInputValue>, files: File[]) => void;
+  approvalStep?: SOPStep | null; // Current SOP step waiting for a person to approve it
+  currentApproval?: StepApproval; // Latest decision on the approval step, if any
+  onStepApproval?: (step: SOPStep, decision: 'approve' | 'reject', reason?: string) => void;
+  transitionProposal?: StepTransitionProposal | null; // Step change waiting for the user to confirm
+  proposalTargetTitle?: string;
+  onAnswerProposal?: (answer: 'move' | 'stay') => void;
+}
+
+/**
+ * Shows the judge's verdict on a written document, if it was graded
+ */
+function OutputVerdictSummary({ metadata }: { metadata?: string | null }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  let verdict: OutputVerdict | undefined;
+  try {
+    verdict = metadata ? JSON.parse(metadata).verdict : undefined;
+  } catch {
+    verdict = undefined;
+  }
+  if (!verdict) return null;
+
+  const passedCount = verdict.criteria.filter((c) => c.passed).length;
+
+  return (
+    <div className="not-italic mt-1">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className={`inline-flex items-center gap-1 text-xs ${verdict.passed ? 'text-emerald-500' : 'text-red-500'} hover:opacity-80`}
+      >
+        {verdict.passed ? <Check size={12} /> : <X size={12} />}
+        {verdict.passed ? 'Passed' : 'Failed'} {passedCount}/{verdict.criteria.length} acceptance criteria
+      </button>
+      {isExpanded && (
+        <div className="mt-1 space-y-1 text-xs">
+          {verdict.criteria.map((c, i) => (
+            <div key={i} className="flex gap-1">
+              <span className={c.passed ? 'text-emerald-500' : 'text-red-500'}>{c.passed ? '✓' : '✗'}</span>
+              <span className="text-foreground">
+                {c.criterion}
+                {!c.passed && <span className="text-foreground-muted"> — {c.feedback}</span>}
+              </span>
+            </div>
+          ))}
+          {verdict.summary && <p className="text-foreground-muted">{verdict.summary}</p>}
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default function MessageList({
@@ -48,6 +104,14 @@ export default function MessageList({
   onOpenSOP,
   liveDocumentHtml,
   liveDocumentName,
+  formStep,
+  onSubmitStepInputs,
+  approvalStep,
+  currentApproval,
+  onStepApproval,
+  transitionProposal,
+  proposalTargetTitle,
+  onAnswerProposal,
 }: MessageListProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const liveDocumentRef = useRef<HTMLDivElement>(null);
@@ -286,7 +350,22 @@ export default function MessageList({
                                 }
                               })()}
                             </button>
+                            <OutputVerdictSummary metadata={message.metadata} />
                           </div>
+                        ) : message.tool_name === 'submit_step_output' ? (
+                          (() => {
+                            try {
+                              const metadata = message.metadata ? JSON.parse(message.metadata) : {};
+                              if (metadata.output) {
+                                return <StructuredOutputCard title={metadata.title || 'Step output'} output={metadata.output} />;
+                              }
+                            } catch (e) {
+                              console.error('Error parsing tool metadata:', e);
+                            }
+                            return (
+                              <div className="text-sm text-foreground-muted italic">Step output rejected; the assistant is correcting it</div>
+                            );
+                          })()
                         ) : ['display_sop_to_user', 'overwrite_sop', 'create_sop'].includes(message.tool_name || '') ? (
                           <div className="text-sm text-foreground-muted italic">
                             {(() => {
@@ -328,6 +407,9 @@ export default function MessageList({
                         )}
                       </div>
                     )}
+                    {message.role === 'assistant' && message.model && (
+                      <div className="mt-1 text-[10px] font-mono text-foreground-muted">{message.model}</div>
+                    )}
                   </div>
                 </div>
               )}
@@ -335,6 +417,47 @@ export default function MessageList({
             );
           })}
 
+          {/* Structured input form for the current step */}
+          {formStep && !isStreaming && onSubmitStepInputs && (
+            <div className="flex justify-center mt-4">
+              <div className="w-[60%]">
+                <StepInputForm
+                  key={formStep.id}
+                  step={formStep}
+                  onSubmit={(values, files) => onSubmitStepInputs(formStep, values, files)}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Approve/reject controls for a step that requires approval */}
+          {approvalStep && !isStreaming && onStepApproval && (
+            <div className="flex justify-center mt-4">
+              <div className="w-[60%]">
+                <StepApprovalPanel
+                  key={approvalStep.id}
+                  step={approvalStep}
+                  approval={currentApproval}
+                  onDecision={(decision, reason) => onStepApproval(approvalStep, decision, reason)}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Move/stay prompt for a step change the model wasn't sure about */}
+          {transitionProposal && !isStreaming && onAnswerProposal && (
+            <div className="flex justify-center mt-4">
+              <div className="w-[60%]">
+                <StepProposalPanel
+                  key={`${transitionProposal.fromStepId}:${transitionProposal.toStepId}`}
+                  proposal={transitionProposal}
+                  targetTitle={proposalTargetTitle || transitionProposal.toStepId}
+                  onAnswer={onAnswerProposal}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Thinking state */}
           {isThinking && !currentToolCall && !streamingMessage && (
             <div className="flex justify-center mt-4">
@@ -0,0 +1,1004 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import type { ExpectedOutput, JSONSchema, ModelSettings, SOP, SOPFormat, SOPStep, VariableDefinition } from '@/lib/types/sop';
+import type { LintIssue } from '@/lib/services/sopLinter';
+
+const DONE_STEP_ID = 'DONE';
+
+const OUTPUT_TYPES: ExpectedOutput['type'][] = ['text', 'html-document', 'structured', 'conversation'];
+
+const inputClassName =
+  'w-full bg-background border border-input-border rounded px-2 py-1 text-xs text-foreground placeholder-foreground-muted focus:outline-none focus:ring-1 focus:ring-action disabled:opacity-50';
+
+const labelClassName = 'block text-foreground-muted font-medium mb-1';
+
+interface SOPEditorProps {
+  sop: SOP;
+  isSaving?: boolean;
+  // Lint issues and error returned by the last save attempt
+  issues?: LintIssue[];
+  error?: string | null;
+  onSave: (sop: SOP, changeNote: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Normalizes a list of next step IDs into the nextStep field's shape
+ */
+function toNextStep(targets: string[]): SOPStep['nextStep'] {
+  if (targets.length === 0) return null;
+  return targets.length === 1 ? targets[0] : targets;
+}
+
+function getTargets(nextStep: SOPStep['nextStep']): string[] {
+  if (!nextStep) return [];
+  return Array.isArray(nextStep) ? nextStep : [nextStep];
+}
+
+/**
+ * Finds an unused ID by appending a counter to the base
+ */
+function getUniqueId(base: string, taken: string[]): string {
+  let counter = taken.length + 1;
+  while (taken.includes(`${base}-${counter}`)) {
+    counter++;
+  }
+  return `${base}-${counter}`;
+}
+
+/**
+ * Text input for IDs that other parts of the SOP refer to
+ * Changes are committed on blur so references are renamed once, not on every keystroke
+ */
+function IdInput({
+  value,
+  onCommit,
+}: {
+  value: string;
+  // Returns an error message if the new ID can't be used
+  onCommit: (id: string) => string | null;
+}) {
+  const [draft, setDraft] = useState(value);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    const id = draft.trim();
+    if (id === value) {
+      setError(null);
+      return;
+    }
+    const commitError = onCommit(id);
+    setError(commitError);
+    if (commitError) {
+      setDraft(value);
+    }
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        className={`${inputClassName} font-mono`}
+      />
+      {error && <p className="text-red-500 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * JSON editor for a structured output step's schema
+ * The JSON is parsed on blur, so it can be invalid while it is being typed
+ */
+function SchemaInput({
+  value,
+  onCommit,
+}: {
+  value?: JSONSchema;
+  onCommit: (schema: JSONSchema | undefined) => void;
+}) {
+  const [draft, setDraft] = useState(value ? JSON.stringify(value, null, 2) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(value ? JSON.stringify(value, null, 2) : '');
+  }, [value]);
+
+  const commit = () => {
+    if (!draft.trim()) {
+      setError(null);
+      onCommit(undefined);
+      return;
+    }
+    try {
+      onCommit(JSON.parse(draft));
+      setError(null);
+    } catch {
+      setError('Not valid JSON');
+    }
+  };
+
+  return (
+    <div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        rows={6}
+        placeholder='{ "type": "object", "properties": { ... }, "required": [ ... ] }'
+        className={`${inputClassName} font-mono`}
+      />
+      {error && <p className="text-red-500 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+function SectionHeader({ title, onAdd, addLabel }: { title: string; onAdd?: () => void; addLabel?: string }) {
+  return (
+    <div className="flex items-center justify-between mb-2">
+      <h4 className="text-sm font-semibold text-foreground">{title}</h4>
+      {onAdd && (
+        <button
+          type="button"
+          onClick={onAdd}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-background-secondary hover:bg-background-tertiary text-foreground border border-border transition-colors"
+        >
+          <Plus size={12} />
+          {addLabel}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function IconButton({
+  title,
+  onClick,
+  disabled,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      className="p-1 rounded text-foreground-muted hover:text-foreground hover:bg-background-tertiary disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Model, temperature and reasoning inputs; blank fields inherit from the level above
+ */
+function ModelSettingsInputs({
+  settings,
+  inheritLabel,
+  onChange,
+}: {
+  settings?: ModelSettings;
+  inheritLabel: string;
+  onChange: (settings: ModelSettings | undefined) => void;
+}) {
+  const change = (changes: Partial<ModelSettings>) => {
+    const next: ModelSettings = { ...settings, ...changes };
+    (Object.keys(next) as (keyof ModelSettings)[]).forEach((key) => next[key] === undefined && delete next[key]);
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <div>
+        <label className={labelClassName}>Model</label>
+        <input
+          type="text"
+          value={settings?.model || ''}
+          onChange={(e) => change({ model: e.target.value || undefined })}
+          placeholder={inheritLabel}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className={labelClassName}>Temperature</label>
+        <input
+          type="number"
+          min={0}
+          max={2}
+          step={0.1}
+          value={settings?.temperature ?? ''}
+          onChange={(e) => change({ temperature: e.target.value === '' ? undefined : Number(e.target.value) })}
+          placeholder={inheritLabel}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className={labelClassName}>Reasoning</label>
+        <select
+          value={settings?.reasoningEffort || ''}
+          onChange={(e) =>
+            change({ reasoningEffort: (e.target.value || undefined) as ModelSettings['reasoningEffort'] })
+          }
+          className={inputClassName}
+        >
+          <option value="">{inheritLabel}</option>
+          <option value="low">low</option>
+          <option value="medium">medium</option>
+          <option value="high">high</option>
+        </select>
+      </div>
+    </div>
+  );
+}
+
+export default function SOPEditor({ sop, isSaving, issues, error, onSave, onCancel }: SOPEditorProps) {
+  const [edited, setEdited] = useState<SOP>(() => JSON.parse(JSON.stringify(sop)));
+  const [changeNote, setChangeNote] = useState('');
+  const [availableTools, setAvailableTools] = useState<string[]>([]);
+  const [otherSOPs, setOtherSOPs] = useState<Array<{ id: string; displayName: string }>>([]);
+
+  useEffect(() => {
+    fetch('/api/tools')
+      .then((response) => (response.ok ? response.json() : []))
+      .then((tools: string[]) => setAvailableTools(tools))
+      .catch((err) => console.error('Error loading tools:', err));
+    fetch('/api/sops')
+      .then((response) => (response.ok ? response.json() : []))
+      .then((sops: SOP[]) => setOtherSOPs(sops.filter((s) => s.id !== sop.id)))
+      .catch((err) => console.error('Error loading SOPs:', err));
+  }, [sop.id]);
+
+  const formats = edited.assistantOutputFormats || [];
+  const stepIds = edited.steps.map((s) => s.id);
+
+  const update = (changes: Partial<SOP>) => {
+    setEdited((prev) => ({ ...prev, ...changes }));
+  };
+
+  // ---- Steps ----
+
+  const updateStep = (index: number, changes: Partial<SOPStep>) => {
+    update({ steps: edited.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+  };
+
+  const renameStep = (index: number, id: string): string | null => {
+    if (!id) return 'Step ID is required';
+    if (id === DONE_STEP_ID) return `"${DONE_STEP_ID}" is reserved for the end of the SOP`;
+    if (stepIds.includes(id)) return `Another step already uses "${id}"`;
+
+    const oldId = edited.steps[index].id;
+    const rename = (target: string) => (target === oldId ? id : target);
+    // Steps can reference the document an earlier step writes by its step ID; a user document with the same ID keeps it
+    const renamesReference = !edited.userDocuments.some((doc) => doc.id === oldId);
+    update({
+      steps: edited.steps.map((step, i) => ({
+        ...step,
+        id: i === index ? id : step.id,
+        nextStep: toNextStep(getTargets(step.nextStep).map(rename)),
+        branchRules: step.branchRules?.map((rule) => ({ ...rule, nextStep: rename(rule.nextStep) })),
+        referencedDocuments: renamesReference ? step.referencedDocuments?.map(rename) : step.referencedDocuments,
+      })),
+    });
+    return null;
+  };
+
+  const addStep = () => {
+    const id = getUniqueId('step', stepIds);
+    const step: SOPStep = {
+      id,
+      stepNumber: edited.steps.length + 1,
+      assistantFacingTitle: 'New step',
+      description: '',
+      expectedOutput: { type: 'text' },
+      nextStep: DONE_STEP_ID,
+    };
+    update({ steps: [...edited.steps, step] });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...edited.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step);
+    update({ steps });
+  };
+
+  // Deleting a step also removes every transition into it and references to the document it writes
+  const deleteStep = (index: number) => {
+    const removedId = edited.steps[index].id;
+    const removesReference = !edited.userDocuments.some((doc) => doc.id === removedId);
+    update({
+      steps: edited.steps
+        .filter((_, i) => i !== index)
+        .map((step) => ({
+          ...step,
+          nextStep: toNextStep(getTargets(step.nextStep).filter((target) => target !== removedId)),
+          branchRules: step.branchRules?.filter((rule) => rule.nextStep !== removedId),
+          referencedDocuments: removesReference
+            ? step.referencedDocuments?.filter((docId) => docId !== removedId)
+            : step.referencedDocuments,
+        })),
+    });
+  };
+
+  const toggleNextStep = (index: number, target: string) => {
+    const step = edited.steps[index];
+    const targets = getTargets(step.nextStep);
+    const next = targets.includes(target) ? targets.filter((t) => t !== target) : [...targets, target];
+    updateStep(index, {
+      nextStep: toNextStep(next),
+      // Rules can only pick one of the step's next steps
+      branchRules: step.branchRules?.filter((rule) => next.includes(rule.nextStep)),
+    });
+  };
+
+  const toggleStepDocument = (index: number, documentId: string) => {
+    const current = edited.steps[index].referencedDocuments || [];
+    updateStep(index, {
+      referencedDocuments: current.includes(documentId)
+        ? current.filter((id) => id !== documentId)
+        : [...current, documentId],
+    });
+  };
+
+  // Without allowedTools a step gets all of the SOP's tools
+  const toggleStepToolLimit = (index: number) => {
+    const step = edited.steps[index];
+    updateStep(index, { allowedTools: step.allowedTools ? undefined : [...edited.providedTools] });
+  };
+
+  const toggleStepTool = (index: number, tool: string) => {
+    const current = edited.steps[index].allowedTools || [];
+    updateStep(index, {
+      allowedTools: current.includes(tool) ? current.filter((t) => t !== tool) : [...current, tool],
+    });
+  };
+
+  // ---- Formats ----
+
+  const updateFormat = (index: number, changes: Partial<SOPFormat>) => {
+    update({ assistantOutputFormats: formats.map((format, i) => (i === index ? { ...format, ...changes } : format)) });
+  };
+
+  const renameFormat = (index: number, id: string): string | null => {
+    if (!id) return 'Format ID is required';
+    if (formats.some((format) => format.id === id)) return `Another format already uses "${id}"`;
+
+    const oldId = formats[index].id;
+    update({
+      assistantOutputFormats: formats.map((format, i) => (i === index ? { ...format, id } : format)),
+      steps: edited.steps.map((step) =>
+        step.expectedOutput.format === oldId
+          ? { ...step, expectedOutput: { ...step.expectedOutput, format: id } }
+          : step
+      ),
+    });
+    return null;
+  };
+
+  const addFormat = () => {
+    const id = getUniqueId('format', formats.map((f) => f.id));
+    update({ assistantOutputFormats: [...formats, { id, name: 'New format', template: '', requirements: [] }] });
+  };
+
+  const deleteFormat = (index: number) => {
+    const removedId = formats[index].id;
+    update({
+      assistantOutputFormats: formats.filter((_, i) => i !== index),
+      steps: edited.steps.map((step) => {
+        if (step.expectedOutput.format !== removedId) return step;
+        const expectedOutput = { ...step.expectedOutput };
+        delete expectedOutput.format;
+        return { ...step, expectedOutput };
+      }),
+    });
+  };
+
+  // ---- Documents ----
+
+  const updateDocument = (index: number, changes: Partial<SOP['userDocuments'][number]>) => {
+    update({ userDocuments: edited.userDocuments.map((doc, i) => (i === index ? { ...doc, ...changes } : doc)) });
+  };
+
+  const renameDocument = (index: number, id: string): string | null => {
+    if (!id) return 'Document ID is required';
+    if (edited.userDocuments.some((doc) => doc.id === id)) return `Another document already uses "${id}"`;
+
+    const oldId = edited.userDocuments[index].id;
+    update({
+      userDocuments: edited.userDocuments.map((doc, i) => (i === index ? { ...doc, id } : doc)),
+      steps: edited.steps.map((step) => ({
+        ...step,
+        referencedDocuments: step.referencedDocuments?.map((docId) => (docId === oldId ? id : docId)),
+      })),
+    });
+    return null;
+  };
+
+  const addDocument = () => {
+    const id = getUniqueId('document', edited.userDocuments.map((d) => d.id));
+    update({
+      userDocuments: [...edited.userDocuments, { id, name: 'New document', description: '', type: 'text', required: true }],
+    });
+  };
+
+  const deleteDocument = (index: number) => {
+    const removedId = edited.userDocuments[index].id;
+    update({
+      userDocuments: edited.userDocuments.filter((_, i) => i !== index),
+      steps: edited.steps.map((step) => ({
+        ...step,
+        referencedDocuments: step.referencedDocuments?.filter((docId) => docId !== removedId),
+      })),
+    });
+  };
+
+  // ---- Variables ----
+
+  const variables = edited.variables || [];
+
+  const updateVariable = (index: number, changes: Partial<VariableDefinition>) => {
+    update({ variables: variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)) });
+  };
+
+  const addVariable = () => {
+    // Variable names are snake_case, unlike the kebab-case IDs from getUniqueId
+    let counter = variables.length + 1;
+    while (variables.some((v) => v.name === `variable_${counter}`)) {
+      counter++;
+    }
+    update({ variables: [...variables, { name: `variable_${counter}`, description: '' }] });
+  };
+
+  const deleteVariable = (index: number) => {
+    const remaining = variables.filter((_, i) => i !== index);
+    update({ variables: remaining.length > 0 ? remaining : undefined });
+  };
+
+  // ---- Tools ----
+
+  // Removing a tool from the SOP also removes it from every step that allowed it
+  const toggleTool = (tool: string) => {
+    if (!edited.providedTools.includes(tool)) {
+      update({ providedTools: [...edited.providedTools, tool] });
+      return;
+    }
+    update({
+      providedTools: edited.providedTools.filter((t) => t !== tool),
+      steps: edited.steps.map((step) =>
+        step.allowedTools ? { ...step, allowedTools: step.allowedTools.filter((t) => t !== tool) } : step
+      ),
+    });
+  };
+
+  const handleSave = () => {
+    // Step numbers follow the order steps are listed in
+    onSave(
+      { ...edited, steps: edited.steps.map((step, i) => ({ ...step, stepNumber: i + 1 })) },
+      changeNote.trim()
+    );
+  };
+
+  const toolChoices = Array.from(new Set([...availableTools, ...edited.providedTools]));
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-6 text-xs">
+        {/* General */}
+        <section className="space-y-2">
+          <SectionHeader title="General" />
+          <div>
+            <label className={labelClassName}>Display name</label>
+            <input
+              type="text"
+              value={edited.displayName}
+              onChange={(e) => update({ displayName: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>Description</label>
+            <textarea
+              value={edited.description}
+              onChange={(e) => update({ description: e.target.value })}
+              rows={2}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>Version</label>
+            <input
+              type="text"
+              value={edited.version}
+              onChange={(e) => update({ version: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>AI instructions</label>
+            <textarea
+              value={edited.generalInstructions || ''}
+              onChange={(e) => update({ generalInstructions: e.target.value })}
+              rows={4}
+              className={inputClassName}
+            />
+          </div>
+          <ModelSettingsInputs
+            settings={edited.modelSettings}
+            inheritLabel="Default"
+            onChange={(modelSettings) => update({ modelSettings })}
+          />
+        </section>
+
+        {/* Steps */}
+        <section className="space-y-2">
+          <SectionHeader title={`Steps (${edited.steps.length})`} onAdd={addStep} addLabel="Add step" />
+          {edited.steps.map((step, index) => {
+            const targets = getTargets(step.nextStep);
+            return (
+              <div key={index} className="border border-border rounded p-3 space-y-2 bg-background-secondary">
+                <div className="flex items-center gap-2">
+                  <span className="flex-shrink-0 w-5 h-5 rounded-full bg-action text-white text-xs font-semibold flex items-center justify-center">
+                    {index + 1}
+                  </span>
+                  <input
+                    type="text"
+                    value={step.assistantFacingTitle}
+                    onChange={(e) => updateStep(index, { assistantFacingTitle: e.target.value })}
+                    placeholder="Title"
+                    className={`${inputClassName} font-medium`}
+                  />
+                  <IconButton title="Move up" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                    <ArrowUp size={14} />
+                  </IconButton>
+                  <IconButton title="Move down" onClick={() => moveStep(index, 1)} disabled={index === edited.steps.length - 1}>
+                    <ArrowDown size={14} />
+                  </IconButton>
+                  <IconButton title="Delete step" onClick={() => deleteStep(index)} disabled={edited.steps.length === 1}>
+                    <Trash2 size={14} />
+                  </IconButton>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className={labelClassName}>Step ID</label>
+                    <IdInput value={step.id} onCommit={(id) => renameStep(index, id)} />
+                  </div>
+                  <div>
+                    <label className={labelClassName}>User-facing title</label>
+                    <input
+                      type="text"
+                      value={step.userFacingTitle || ''}
+                      onChange={(e) => updateStep(index, { userFacingTitle: e.target.value || undefined })}
+                      placeholder="Same as title"
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className={labelClassName}>Description</label>
+                  <textarea
+                    value={step.description}
+                    onChange={(e) => updateStep(index, { description: e.target.value })}
+                    rows={4}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className={labelClassName}>Output type</label>
+                    <select
+                      value={step.expectedOutput.type}
+                      onChange={(e) =>
+                        updateStep(index, {
+                          expectedOutput: { ...step.expectedOutput, type: e.target.value as ExpectedOutput['type'] },
+                        })
+                      }
+                      className={inputClassName}
+                    >
+                      {OUTPUT_TYPES.map((type) => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Output format</label>
+                    <select
+                      value={step.expectedOutput.format || ''}
+                      onChange={(e) =>
+                        updateStep(index, {
+                          expectedOutput: { ...step.expectedOutput, format: e.target.value || undefined },
+                        })
+                      }
+                      className={inputClassName}
+                    >
+                      <option value="">None</option>
+                      {formats.map((format) => (
+                        <option key={format.id} value={format.id}>{format.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className={labelClassName}>Output details</label>
+                  <input
+                    type="text"
+                    value={step.expectedOutput.description || ''}
+                    onChange={(e) =>
+                      updateStep(index, {
+                        expectedOutput: { ...step.expectedOutput, description: e.target.value || undefined },
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+
+                {step.expectedOutput.type === 'structured' && (
+                  <div>
+                    <label className={labelClassName}>Output schema (JSON Schema)</label>
+                    <SchemaInput
+                      value={step.expectedOutput.schema}
+                      onCommit={(schema) =>
+                        updateStep(index, {
+                          expectedOutput: { ...step.expectedOutput, schema },
+                        })
+                      }
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label className={labelClassName}>Acceptance criteria (one per line)</label>
+                  <textarea
+                    value={(step.acceptanceCriteria || []).join('\n')}
+                    onChange={(e) => updateStep(index, { acceptanceCriteria: e.target.value.split('\n') })}
+                    onBlur={() => {
+                      const criteria = (step.acceptanceCriteria || []).filter((c) => c.trim());
+                      updateStep(index, { acceptanceCriteria: criteria.length > 0 ? criteria : undefined });
+                    }}
+                    rows={2}
+                    placeholder="Documents written in this step are graded against these and the format's requirements"
+                    className={inputClassName}
+                  />
+                </div>
+
+                <label className="flex items-center gap-1 text-foreground-muted font-medium">
+                  <input
+                    type="checkbox"
+                    checked={!!step.requiresApproval}
+                    onChange={(e) => updateStep(index, { requiresApproval: e.target.checked || undefined })}
+                    className="accent-[var(--action-color)]"
+                  />
+                  Requires approval before continuing
+                </label>
+
+                <div>
+                  <label className={labelClassName}>Sub-SOP</label>
+                  <select
+                    value={step.subSOP || ''}
+                    onChange={(e) => updateStep(index, { subSOP: e.target.value || undefined })}
+                    className={inputClassName}
+                  >
+                    <option value="">None</option>
+                    {otherSOPs.map((other) => (
+                      <option key={other.id} value={other.id}>{other.displayName}</option>
+                    ))}
+                    {step.subSOP && !otherSOPs.some((other) => other.id === step.subSOP) && (
+                      <option value={step.subSOP}>{step.subSOP}</option>
+                    )}
+                  </select>
+                </div>
+
+                {(edited.userDocuments.length > 0 || index > 0) && (
+                  <div>
+                    <label className={labelClassName}>References</label>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1">
+                      {edited.userDocuments.map((doc) => (
+                        <label key={doc.id} className="flex items-center gap-1 text-foreground">
+                          <input
+                            type="checkbox"
+                            checked={(step.referencedDocuments || []).includes(doc.id)}
+                            onChange={() => toggleStepDocument(index, doc.id)}
+                            className="accent-[var(--action-color)]"
+                          />
+                          {doc.name}
+                        </label>
+                      ))}
+                      {/* Documents written by earlier steps, referenced by step id */}
+                      {edited.steps.slice(0, index).filter((s) => s.expectedOutput?.type === 'html-document').map((earlier) => (
+                        <label key={earlier.id} className="flex items-center gap-1 text-foreground">
+                          <input
+                            type="checkbox"
+                            checked={(step.referencedDocuments || []).includes(earlier.id)}
+                            onChange={() => toggleStepDocument(index, earlier.id)}
+                            className="accent-[var(--action-color)]"
+                          />
+                          Output of {earlier.userFacingTitle || earlier.id}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {edited.providedTools.length > 0 && (
+                  <div>
+                    <label className="flex items-center gap-1 text-foreground-muted font-medium mb-1">
+                      <input
+                        type="checkbox"
+                        checked={!!step.allowedTools}
+                        onChange={() => toggleStepToolLimit(index)}
+                        className="accent-[var(--action-color)]"
+                      />
+                      Limit tools in this step
+                    </label>
+                    {step.allowedTools && (
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {edited.providedTools.map((tool) => (
+                          <label key={tool} className="flex items-center gap-1 text-foreground">
+                            <input
+                              type="checkbox"
+                              checked={step.allowedTools!.includes(tool)}
+                              onChange={() => toggleStepTool(index, tool)}
+                              className="accent-[var(--action-color)]"
+                            />
+                            <span className="font-mono">{tool}</span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <ModelSettingsInputs
+                  settings={step.modelSettings}
+                  inheritLabel="SOP default"
+                  onChange={(modelSettings) => updateStep(index, { modelSettings })}
+                />
+
+                <div>
+                  <label className={labelClassName}>Next step{targets.length > 1 ? 's (branches)' : ''}</label>
+                  <div className="flex flex-wrap gap-x-3 gap-y-1">
+                    {[...stepIds.filter((id) => id !== step.id), DONE_STEP_ID].map((target) => (
+                      <label key={target} className="flex items-center gap-1 text-foreground">
+                        <input
+                          type="checkbox"
+                          checked={targets.includes(target)}
+                          onChange={() => toggleNextStep(index, target)}
+                          className="accent-[var(--action-color)]"
+                        />
+                        <span className={target === DONE_STEP_ID ? 'italic' : 'font-mono'}>
+                          {target === DONE_STEP_ID ? 'End of process' : target}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  {step.branchRules && step.branchRules.length > 0 && (
+                    <p className="text-foreground-muted mt-1">
+                      {step.branchRules.length} branch rule{step.branchRules.length === 1 ? '' : 's'} kept as-is
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </section>
+
+        {/* Output Formats */}
+        <section className="space-y-2">
+          <SectionHeader title="Output Formats" onAdd={addFormat} addLabel="Add format" />
+          {formats.map((format, index) => (
+            <div key={index} className="border border-border rounded p-3 space-y-2 bg-background-secondary">
+              <div className="flex items-start gap-2">
+                <div className="grid grid-cols-2 gap-2 flex-1">
+                  <div>
+                    <label className={labelClassName}>Format ID</label>
+                    <IdInput value={format.id} onCommit={(id) => renameFormat(index, id)} />
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Name</label>
+                    <input
+                      type="text"
+                      value={format.name}
+                      onChange={(e) => updateFormat(index, { name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <IconButton title="Delete format" onClick={() => deleteFormat(index)}>
+                  <Trash2 size={14} />
+                </IconButton>
+              </div>
+              <div>
+                <label className={labelClassName}>Requirements (one per line)</label>
+                <textarea
+                  value={format.requirements.join('\n')}
+                  onChange={(e) => updateFormat(index, { requirements: e.target.value.split('\n') })}
+                  onBlur={() => updateFormat(index, { requirements: format.requirements.filter((r) => r.trim()) })}
+                  rows={3}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>Template</label>
+                <textarea
+                  value={format.template}
+                  onChange={(e) => updateFormat(index, { template: e.target.value })}
+                  rows={6}
+                  className={`${inputClassName} font-mono`}
+                />
+              </div>
+            </div>
+          ))}
+        </section>
+
+        {/* User Documents */}
+        <section className="space-y-2">
+          <SectionHeader title="Required Documents" onAdd={addDocument} addLabel="Add document" />
+          {edited.userDocuments.map((doc, index) => (
+            <div key={index} className="border border-border rounded p-3 space-y-2 bg-background-secondary">
+              <div className="flex items-start gap-2">
+                <div className="grid grid-cols-2 gap-2 flex-1">
+                  <div>
+                    <label className={labelClassName}>Document ID</label>
+                    <IdInput value={doc.id} onCommit={(id) => renameDocument(index, id)} />
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Name</label>
+                    <input
+                      type="text"
+                      value={doc.name}
+                      onChange={(e) => updateDocument(index, { name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <IconButton title="Delete document" onClick={() => deleteDocument(index)}>
+                  <Trash2 size={14} />
+                </IconButton>
+              </div>
+              <div>
+                <label className={labelClassName}>Description</label>
+                <input
+                  type="text"
+                  value={doc.description}
+                  onChange={(e) => updateDocument(index, { description: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex items-center gap-4">
+                <select
+                  value={doc.type}
+                  onChange={(e) => updateDocument(index, { type: e.target.value as 'text' | 'file' })}
+                  className={`${inputClassName} w-auto`}
+                >
+                  <option value="text">Text</option>
+                  <option value="file">File</option>
+                </select>
+                <label className="flex items-center gap-1 text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={doc.required}
+                    onChange={(e) => updateDocument(index, { required: e.target.checked })}
+                    className="accent-[var(--action-color)]"
+                  />
+                  Required
+                </label>
+              </div>
+            </div>
+          ))}
+        </section>
+
+        {/* Variables */}
+        <section className="space-y-2">
+          <SectionHeader title="Variables" onAdd={addVariable} addLabel="Add variable" />
+          {variables.length > 0 && (
+            <p className="text-foreground-muted">
+              Picked up from the conversation and inserted wherever {'{{name}}'} appears in descriptions and templates.
+            </p>
+          )}
+          {variables.map((variable, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="grid grid-cols-3 gap-2 flex-1">
+                <input
+                  type="text"
+                  value={variable.name}
+                  onChange={(e) => updateVariable(index, { name: e.target.value })}
+                  placeholder="client_name"
+                  className={`${inputClassName} font-mono`}
+                />
+                <input
+                  type="text"
+                  value={variable.description}
+                  onChange={(e) => updateVariable(index, { description: e.target.value })}
+                  placeholder="What the value is"
+                  className={`${inputClassName} col-span-2`}
+                />
+              </div>
+              <IconButton title="Delete variable" onClick={() => deleteVariable(index)}>
+                <Trash2 size={14} />
+              </IconButton>
+            </div>
+          ))}
+        </section>
+
+        {/* Tools */}
+        <section>
+          <SectionHeader title="Available Tools" />
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {toolChoices.map((tool) => (
+              <label key={tool} className="flex items-center gap-1 text-foreground">
+                <input
+                  type="checkbox"
+                  checked={edited.providedTools.includes(tool)}
+                  onChange={() => toggleTool(tool)}
+                  className="accent-[var(--action-color)]"
+                />
+                <span className="font-mono">{tool}</span>
+              </label>
+            ))}
+          </div>
+        </section>
+      </div>
+
+      {/* Save Bar */}
+      <div className="border-t border-border px-4 py-3 space-y-2 flex-shrink-0 text-xs">
+        {error && (
+          <div className="p-2 rounded border border-red-500 text-red-500 space-y-1">
+            <p className="font-medium">{error}</p>
+          </div>
+        )}
+        {issues && issues.length > 0 && (
+          <ul className="space-y-0.5 max-h-32 overflow-y-auto">
+            {issues.map((issue, idx) => (
+              <li key={idx} className={issue.severity === 'error' ? 'text-red-500' : 'text-foreground-muted'}>
+                [{issue.severity}] {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            placeholder="What changed? (optional)"
+            className={inputClassName}
+          />
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSaving}
+            className="px-3 py-1 rounded bg-background-secondary hover:bg-background-tertiary text-foreground border border-border transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-3 py-1 rounded bg-action hover:bg-primary-hover text-white font-medium transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,17 +2,84 @@
 
 import { useState, useEffect, useRef } from 'react';
 import type { SOP } from '@/lib/types/sop';
-import type { SOPRun } from '@/lib/types/sop';
+import type { RunVariable, SOPDocument, SOPRun, StepTransition } from '@/lib/types/sop';
+import { Ban, Braces, Check, CheckCheck, ChevronRight, Circle, FileCheck, GitBranch, History, Layers, Pause, Play, Undo2 } from 'lucide-react';
+import { formatVariableValue } from '@/lib/utils/templates';
+import { getPreviousStepId } from '@/lib/utils/step-history';
+import StepGraph from './StepGraph';
+
+interface RunStackEntry {
+  run: SOPRun;
+  sop: SOP | null;
+}
+
+interface ChatRunEntry {
+  run: SOPRun;
+  sop: { id: string; displayName: string } | null;
+}
+
+const TRANSITION_TRIGGER_LABELS: Record<StepTransition['trigger'], string> = {
+  llm: 'model',
+  rule: 'rule',
+  manual: 'manual',
+  sub_sop: 'sub-SOP',
+};
+
+const RUN_STATUS_LABELS: Record<SOPRun['status'], string> = {
+  in_progress: 'In progress',
+  completed: 'Completed',
+  paused: 'Paused',
+  cancelled: 'Cancelled',
+};
+
+type RunStatusAction = 'pause' | 'resume' | 'cancel';
+
+// Title, explanation, placeholder and confirm label of the reason popover for each action
+const STATUS_ACTION_TEXT: Record<RunStatusAction, { title: string; description: string; placeholder: string; confirm: string }> = {
+  pause: {
+    title: 'Pause run',
+    description: 'The chat continues without the SOP until you resume it on this step.',
+    placeholder: 'Why are you pausing?',
+    confirm: 'Pause',
+  },
+  resume: {
+    title: 'Resume run',
+    description: 'The run continues on the step it was paused on.',
+    placeholder: 'Why are you resuming?',
+    confirm: 'Resume',
+  },
+  cancel: {
+    title: 'Cancel run',
+    description: 'The run is abandoned and can\'t be resumed.',
+    placeholder: 'Why are you cancelling?',
+    confirm: 'Cancel run',
+  },
+};
 
 interface SOPHeaderProps {
   chatId: number;
   refreshTrigger?: number;
   sop: SOP;
+  // Called after the run was moved with the step controls or another run was switched to
+  onRunChanged?: () => void;
+  // Opens a generated document, used for the completion summary
+  onOpenDocument?: (documentId: number) => void;
 }
 
-export default function SOPHeader({ chatId, refreshTrigger, sop }: SOPHeaderProps) {
-  const [sopRun, setSOPRun] = useState<SOPRun | null>(null);
+export default function SOPHeader({ chatId, refreshTrigger, sop, onRunChanged, onOpenDocument }: SOPHeaderProps) {
+  const [runStack, setRunStack] = useState<RunStackEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  const [variables, setVariables] = useState<RunVariable[]>([]);
+  const [documents, setDocuments] = useState<SOPDocument[]>([]);
+  const [transitions, setTransitions] = useState<StepTransition[]>([]);
+  const [chatRuns, setChatRuns] = useState<ChatRunEntry[]>([]);
+  const [openPanel, setOpenPanel] = useState<'graph' | 'variables' | 'documents' | 'history' | 'status' | 'runs' | null>(null);
+  const [statusAction, setStatusAction] = useState<RunStatusAction>('pause');
+  const [statusReason, setStatusReason] = useState('');
+  const [pasteSlotId, setPasteSlotId] = useState<string | null>(null);
+  const [pasteText, setPasteText] = useState('');
+  const [isMoving, setIsMoving] = useState(false);
+  const [stepControlError, setStepControlError] = useState<string | null>(null);
   const isInitialLoad = useRef(true);
 
   useEffect(() => {
@@ -22,13 +89,32 @@ export default function SOPHeader({ chatId, refreshTrigger, sop }: SOPHeaderProp
         if (isInitialLoad.current) {
           setLoading(true);
         }
-        // Fetch the latest SOP run data from the server-side function
-        const response = await fetch(`/api/chats/${chatId}/run`);
+        // Fetch the latest SOP run and any sub-SOP runs nested inside it
+        const response = await fetch(`/api/chats/${chatId}/run/stack`);
         if (!response.ok) {
           throw new Error('Failed to fetch SOP run');
         }
         const data = await response.json();
-        setSOPRun(data);
+        setRunStack(data);
+
+        const [variablesResponse, documentsResponse, transitionsResponse, runsResponse] = await Promise.all([
+          fetch(`/api/chats/${chatId}/run/variables`),
+          fetch(`/api/chats/${chatId}/run/documents`),
+          fetch(`/api/chats/${chatId}/run/transitions`),
+          fetch(`/api/chats/${chatId}/runs`),
+        ]);
+        if (variablesResponse.ok) {
+          setVariables(await variablesResponse.json());
+        }
+        if (documentsResponse.ok) {
+          setDocuments(await documentsResponse.json());
+        }
+        if (transitionsResponse.ok) {
+          setTransitions(await transitionsResponse.json());
+        }
+        if (runsResponse.ok) {
+          setChatRuns((await runsResponse.json()).runs);
+        }
         
         // Mark initial load as complete and hide loading state
         if (isInitialLoad.current) {
@@ -47,7 +133,113 @@ export default function SOPHeader({ chatId, refreshTrigger, sop }: SOPHeaderProp
     fetchSOPRun();
   }, [chatId, refreshTrigger]);
 
-  if (loading || !sopRun) {
+  /**
+   * Saves pasted text into a document slot of the active run
+   */
+  const savePastedDocument = async (documentId: string) => {
+    try {
+      const response = await fetch(`/api/chats/${chatId}/run/documents`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentId, content: pasteText }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save document');
+      }
+      const saved: SOPDocument = await response.json();
+      setDocuments((prev) => [...prev.filter((doc) => doc.documentId !== documentId), saved]);
+      setPasteSlotId(null);
+      setPasteText('');
+    } catch (err) {
+      console.error('Error saving document:', err);
+    }
+  };
+
+  /**
+   * Jumps to a step, goes back or completes the active run
+   */
+  const moveRun = async (action: 'jump' | 'back' | 'complete', stepId?: string) => {
+    try {
+      setIsMoving(true);
+      setStepControlError(null);
+      const response = await fetch(`/api/chats/${chatId}/run`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, stepId }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to move the run');
+      }
+      onRunChanged?.();
+    } catch (err) {
+      console.error('Error moving SOP run:', err);
+      setStepControlError(err instanceof Error ? err.message : 'Failed to move the run');
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  /**
+   * Pauses, resumes or cancels the top-level run
+   */
+  const changeRunStatus = async (action: RunStatusAction, reason: string) => {
+    try {
+      setIsMoving(true);
+      setStepControlError(null);
+      const response = await fetch(`/api/chats/${chatId}/run/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to ${action} the run`);
+      }
+      setOpenPanel(null);
+      setStatusReason('');
+      onRunChanged?.();
+    } catch (err) {
+      console.error('Error changing SOP run status:', err);
+      setStepControlError(err instanceof Error ? err.message : `Failed to ${action} the run`);
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  /**
+   * Makes another of the chat's runs the active one
+   */
+  const switchRun = async (runId: number) => {
+    try {
+      setIsMoving(true);
+      setStepControlError(null);
+      const response = await fetch(`/api/chats/${chatId}/runs`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ runId }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to switch runs');
+      }
+      setOpenPanel(null);
+      onRunChanged?.();
+    } catch (err) {
+      console.error('Error switching SOP run:', err);
+      setStepControlError(err instanceof Error ? err.message : 'Failed to switch runs');
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const openStatusPanel = (action: RunStatusAction) => {
+    setStatusAction(action);
+    setStatusReason('');
+    setOpenPanel('status');
+  };
+
+  if (loading || runStack.length === 0) {
     return (
       <div className="border-b border-border bg-background-secondary/30 px-6 py-2 flex items-center gap-4 overflow-x-auto max-h-14">
         <div className="text-foreground-muted text-xs">Loading SOP...</div>
@@ -55,53 +247,419 @@ export default function SOPHeader({ chatId, refreshTrigger, sop }: SOPHeaderProp
     );
   }
 
-  const run = sopRun;
+  // Progress and the step graph follow the innermost run; the title shows how it is nested
+  const run = runStack[runStack.length - 1].run;
+  const activeSOP = runStack[runStack.length - 1].sop ?? sop;
   
   // Check if SOP is done
   const isDone = run.currentStepId === 'DONE';
-  const currentStepIndex = isDone ? sop.steps.length : sop.steps.findIndex((step) => step.id === run.currentStepId);
+  const currentStepIndex = isDone ? activeSOP.steps.length : activeSOP.steps.findIndex((step) => step.id === run.currentStepId);
 
-  const totalSteps = sop.steps.length;
-  const currentStep = sop.steps[currentStepIndex];
+  const totalSteps = activeSOP.steps.length;
+  const currentStep = activeSOP.steps[currentStepIndex];
   const progressPercent = isDone ? 100 : (currentStepIndex / totalSteps) * 100;
 
+  const documentSlots = activeSOP.userDocuments || [];
+  const filledSlotIds = new Set(documents.map((doc) => doc.documentId));
+  const missingRequired = documentSlots.filter((slot) => slot.required && !filledSlotIds.has(slot.id)).length;
+
+  const visitedStepIds = new Set(run.stepHistory);
+
+  // Transitions may belong to sub-SOP runs, so titles are looked up in the SOP the transition was recorded for
+  const getStepTitle = (sopId: string, stepId: string) => {
+    if (stepId === 'DONE') return 'Done';
+    const stepSOP = runStack.find((entry) => entry.sop?.id === sopId)?.sop ?? (sopId === sop.id ? sop : null);
+    const step = stepSOP?.steps.find((s) => s.id === stepId);
+    return step ? step.userFacingTitle || step.assistantFacingTitle : stepId;
+  };
+  // Pausing and cancelling apply to the top-level run, along with any sub-SOP inside it
+  const rootRun = runStack[0].run;
+  const isPaused = rootRun.status === 'paused';
+  const isCancelled = rootRun.status === 'cancelled';
+  const canControl = rootRun.status === 'in_progress' && run.status === 'in_progress' && !isDone && !isMoving;
+
   return (
-    <div className="border-b border-border bg-background-secondary/30 px-6 py-3 flex items-center justify-between gap-4 max-h-16">
-      {/* Left: SOP Title & Progress */}
-      <div className="flex items-center gap-4 flex-1 min-w-0">
-        <div className="flex-shrink-0">
-          <h2 className="text-sm font-semibold text-foreground truncate">
-            {sop.displayName}
-          </h2>
+    <div className="relative border-b border-border bg-background-secondary/30">
+      <div className="px-6 py-3 flex items-center justify-between gap-4 max-h-16">
+        {/* Left: SOP Title & Progress */}
+        <div className="flex items-center gap-4 flex-1 min-w-0">
+          <div className="flex-shrink-0 flex items-center gap-1 min-w-0">
+            {runStack.slice(0, -1).map((entry) => (
+              <span key={entry.run.id} className="flex items-center gap-1 text-sm text-foreground-muted truncate">
+                {(entry.sop ?? sop).displayName}
+                <ChevronRight size={14} className="flex-shrink-0" />
+              </span>
+            ))}
+            <h2 className="text-sm font-semibold text-foreground truncate">
+              {activeSOP.displayName}
+            </h2>
+          </div>
+
+          {/* Progress Bar */}
+          <div className="flex-1 h-1.5 bg-background-tertiary rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-300 ${
+                isDone ? 'bg-emerald-500' : 'bg-action'
+              }`}
+              style={{ width: `${progressPercent}%` }}
+            />
+          </div>
         </div>
 
-        {/* Progress Bar */}
-        <div className="flex-1 h-1.5 bg-background-tertiary rounded-full overflow-hidden">
-          <div
-            className={`h-full transition-all duration-300 ${
-              isDone ? 'bg-emerald-500' : 'bg-action'
+        {/* Right: Current Step Info */}
+        <div className="flex-shrink-0 flex items-center gap-3 text-right">
+          {documentSlots.length > 0 && (
+            <button
+              onClick={() => setOpenPanel((panel) => (panel === 'documents' ? null : 'documents'))}
+              className={`flex items-center gap-1 p-1.5 rounded transition-colors ${
+                openPanel === 'documents' ? 'bg-background-tertiary text-foreground' : missingRequired > 0 ? 'text-amber-500 hover:bg-background-secondary' : 'text-foreground-muted hover:text-foreground hover:bg-background-secondary'
+              }`}
+              title={missingRequired > 0 ? `${missingRequired} required document${missingRequired === 1 ? '' : 's'} missing` : 'Show documents'}
+            >
+              <FileCheck size={16} />
+              <span className="text-xs">{documentSlots.filter((slot) => filledSlotIds.has(slot.id)).length}/{documentSlots.length}</span>
+            </button>
+          )}
+          <button
+            onClick={() => setOpenPanel((panel) => (panel === 'variables' ? null : 'variables'))}
+            className={`flex items-center gap-1 p-1.5 rounded transition-colors ${
+              openPanel === 'variables' ? 'bg-background-tertiary text-foreground' : 'text-foreground-muted hover:text-foreground hover:bg-background-secondary'
             }`}
-            style={{ width: `${progressPercent}%` }}
-          />
+            title={openPanel === 'variables' ? 'Hide run variables' : 'Show run variables'}
+          >
+            <Braces size={16} />
+            {variables.length > 0 && <span className="text-xs">{variables.length}</span>}
+          </button>
+          {chatRuns.length > 1 && (
+            <button
+              onClick={() => setOpenPanel((panel) => (panel === 'runs' ? null : 'runs'))}
+              className={`flex items-center gap-1 p-1.5 rounded transition-colors ${
+                openPanel === 'runs' ? 'bg-background-tertiary text-foreground' : 'text-foreground-muted hover:text-foreground hover:bg-background-secondary'
+              }`}
+              title={openPanel === 'runs' ? 'Hide runs in this chat' : 'Show runs in this chat'}
+            >
+              <Layers size={16} />
+              <span className="text-xs">{chatRuns.length}</span>
+            </button>
+          )}
+          <button
+            onClick={() => setOpenPanel((panel) => (panel === 'history' ? null : 'history'))}
+            className={`flex items-center gap-1 p-1.5 rounded transition-colors ${
+              openPanel === 'history' ? 'bg-background-tertiary text-foreground' : 'text-foreground-muted hover:text-foreground hover:bg-background-secondary'
+            }`}
+            title={openPanel === 'history' ? 'Hide step history' : 'Show step history'}
+          >
+            <History size={16} />
+            {transitions.length > 0 && <span className="text-xs">{transitions.length}</span>}
+          </button>
+          <button
+            onClick={() => setOpenPanel((panel) => (panel === 'graph' ? null : 'graph'))}
+            className={`p-1.5 rounded transition-colors ${
+              openPanel === 'graph' ? 'bg-background-tertiary text-foreground' : 'text-foreground-muted hover:text-foreground hover:bg-background-secondary'
+            }`}
+            title={openPanel === 'graph' ? 'Hide step graph' : 'Show step graph'}
+          >
+            <GitBranch size={16} />
+          </button>
+          {isCancelled ? (
+            <div className="flex flex-col max-w-48">
+              <span className="text-xs font-semibold text-red-400">Cancelled</span>
+              <span className="text-xs text-foreground-muted truncate" title={rootRun.statusReason}>{rootRun.statusReason}</span>
+            </div>
+          ) : isPaused ? (
+            <div className="flex flex-col max-w-48">
+              <span className="text-xs font-semibold text-amber-500">Paused</span>
+              <span className="text-xs text-foreground-muted truncate" title={rootRun.statusReason}>{rootRun.statusReason}</span>
+            </div>
+          ) : isDone ? (
+            <div className="flex flex-col">
+              <span className="text-xs font-semibold text-emerald-500">✓ Complete</span>
+              {run.summaryDocumentId && onOpenDocument ? (
+                <button
+                  onClick={() => onOpenDocument(run.summaryDocumentId!)}
+                  className="text-xs text-action hover:opacity-80 underline"
+                >
+                  View summary
+                </button>
+              ) : (
+                <span className="text-xs text-foreground-muted">{totalSteps} of {totalSteps}</span>
+              )}
+            </div>
+          ) : (
+            <div className="flex flex-col">
+              <span className="text-xs font-semibold text-action">
+                {currentStep?.userFacingTitle || currentStep?.assistantFacingTitle || 'Current Step'}
+              </span>
+              <span className="text-xs text-foreground-muted">Step {currentStepIndex + 1} of {totalSteps}</span>
+            </div>
+          )}
         </div>
+
       </div>
 
-      {/* Right: Current Step Info */}
-      <div className="flex-shrink-0 text-right">
-        {isDone ? (
-          <div className="flex flex-col">
-            <span className="text-xs font-semibold text-emerald-500">✓ Complete</span>
-            <span className="text-xs text-foreground-muted">{totalSteps} of {totalSteps}</span>
-          </div>
-        ) : (
-          <div className="flex flex-col">
-            <span className="text-xs font-semibold text-action">
-              {currentStep?.userFacingTitle || currentStep?.assistantFacingTitle || 'Current Step'}
-            </span>
-            <span className="text-xs text-foreground-muted">Step {currentStepIndex + 1} of {totalSteps}</span>
-          </div>
+      {/* Step pills: click one to move the run there */}
+      <div className="px-6 pb-2 flex items-center gap-1.5 overflow-x-auto text-xs">
+        <button
+          onClick={() => moveRun('back')}
+          disabled={!canControl || !getPreviousStepId(run, transitions)}
+          className="flex-shrink-0 p-1 rounded text-foreground-muted hover:text-foreground hover:bg-background-secondary disabled:opacity-40 disabled:hover:bg-transparent"
+          title="Go back to the previous step"
+        >
+          <Undo2 size={14} />
+        </button>
+        {activeSOP.steps.map((step, index) => {
+          const isCurrent = step.id === run.currentStepId;
+          return (
+            <button
+              key={step.id}
+              onClick={() => moveRun('jump', step.id)}
+              disabled={!canControl || isCurrent}
+              className={`flex-shrink-0 px-2 py-0.5 rounded-full border transition-colors ${
+                isCurrent
+                  ? 'bg-action border-action text-white'
+                  : visitedStepIds.has(step.id)
+                    ? 'border-emerald-500/50 text-foreground hover:bg-background-secondary'
+                    : 'border-border text-foreground-muted hover:text-foreground hover:bg-background-secondary'
+              } disabled:cursor-default`}
+              title={isCurrent ? 'Current step' : `Move to "${step.userFacingTitle || step.assistantFacingTitle}"`}
+            >
+              {index + 1}. {step.userFacingTitle || step.assistantFacingTitle}
+            </button>
+          );
+        })}
+        <button
+          onClick={() => moveRun('complete')}
+          disabled={!canControl}
+          className="flex-shrink-0 flex items-center gap-1 px-2 py-0.5 rounded-full border border-border text-foreground-muted hover:text-foreground hover:bg-background-secondary disabled:opacity-40 disabled:hover:bg-transparent"
+          title={runStack.length > 1 ? 'Finish this sub-SOP and return to the parent SOP' : 'Mark the run complete'}
+        >
+          <CheckCheck size={12} />
+          Complete
+        </button>
+        {!isDone && !isCancelled && (
+          <span className="flex-shrink-0 ml-auto flex items-center gap-1">
+            {isPaused ? (
+              <button
+                onClick={() => openStatusPanel('resume')}
+                disabled={isMoving}
+                className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-border text-foreground-muted hover:text-foreground hover:bg-background-secondary disabled:opacity-40"
+                title="Resume the run where it was paused"
+              >
+                <Play size={12} />
+                Resume
+              </button>
+            ) : (
+              <button
+                onClick={() => openStatusPanel('pause')}
+                disabled={!canControl}
+                className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-border text-foreground-muted hover:text-foreground hover:bg-background-secondary disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Pause the run and chat freely until it is resumed"
+              >
+                <Pause size={12} />
+                Pause
+              </button>
+            )}
+            <button
+              onClick={() => openStatusPanel('cancel')}
+              disabled={isMoving}
+              className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-border text-foreground-muted hover:text-red-400 hover:bg-background-secondary disabled:opacity-40"
+              title="Abandon the run"
+            >
+              <Ban size={12} />
+              Cancel run
+            </button>
+          </span>
         )}
+        {stepControlError && <span className="flex-shrink-0 text-red-400">{stepControlError}</span>}
       </div>
+
+      {/* Pause/Resume/Cancel Reason Popover */}
+      {openPanel === 'status' && (
+        <div className="absolute right-6 top-full mt-1 z-20 w-80 max-w-[90vw] p-3 rounded-lg border border-border bg-background shadow-lg text-xs space-y-2">
+          <p className="font-medium text-foreground">{STATUS_ACTION_TEXT[statusAction].title}</p>
+          <p className="text-foreground-muted">{STATUS_ACTION_TEXT[statusAction].description}</p>
+          <textarea
+            value={statusReason}
+            onChange={(e) => setStatusReason(e.target.value)}
+            placeholder={STATUS_ACTION_TEXT[statusAction].placeholder}
+            rows={3}
+            autoFocus
+            className="w-full bg-background border border-input-border rounded px-2 py-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-action"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setOpenPanel(null)} className="text-foreground-muted hover:text-foreground">
+              Back
+            </button>
+            <button
+              onClick={() => changeRunStatus(statusAction, statusReason.trim())}
+              disabled={!statusReason.trim() || isMoving}
+              className={`${statusAction === 'cancel' ? 'text-red-400' : 'text-action'} hover:opacity-80 disabled:opacity-50`}
+            >
+              {STATUS_ACTION_TEXT[statusAction].confirm}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Step Graph Popover */}
+      {openPanel === 'graph' && (
+        <div className="absolute right-6 top-full mt-1 z-20 max-w-[90vw] max-h-[70vh] overflow-auto p-3 rounded-lg border border-border bg-background shadow-lg">
+          <StepGraph sop={activeSOP} currentStepId={run.currentStepId} stepHistory={run.stepHistory} />
+        </div>
+      )}
+
+      {/* Documents Checklist Popover */}
+      {openPanel === 'documents' && (
+        <div className="absolute right-6 top-full mt-1 z-20 w-96 max-w-[90vw] max-h-[70vh] overflow-auto p-3 rounded-lg border border-border bg-background shadow-lg text-xs">
+          <p className="font-medium text-foreground mb-2">Documents</p>
+          <ul className="space-y-3">
+            {documentSlots.map((slot) => {
+              const document = documents.find((doc) => doc.documentId === slot.id);
+              return (
+                <li key={slot.id}>
+                  <div className="flex items-start gap-2">
+                    {document ? (
+                      <Check size={14} className="mt-0.5 flex-shrink-0 text-emerald-500" />
+                    ) : (
+                      <Circle size={14} className={`mt-0.5 flex-shrink-0 ${slot.required ? 'text-amber-500' : 'text-foreground-muted'}`} />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-foreground">
+                        {slot.name}
+                        {!slot.required && <span className="text-foreground-muted"> (optional)</span>}
+                      </p>
+                      <p className="text-foreground-muted break-words">
+                        {document ? document.filename || 'Pasted text' : slot.description}
+                      </p>
+                      {pasteSlotId === slot.id ? (
+                        <div className="mt-1 space-y-1">
+                          <textarea
+                            value={pasteText}
+                            onChange={(e) => setPasteText(e.target.value)}
+                            rows={4}
+                            autoFocus
+                            className="w-full bg-background border border-input-border rounded px-2 py-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-action"
+                          />
+                          <div className="flex justify-end gap-2">
+                            <button onClick={() => setPasteSlotId(null)} className="text-foreground-muted hover:text-foreground">
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => savePastedDocument(slot.id)}
+                              disabled={!pasteText.trim()}
+                              className="text-action hover:opacity-80 disabled:opacity-50"
+                            >
+                              Save
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setPasteSlotId(slot.id);
+                            setPasteText('');
+                          }}
+                          className="mt-0.5 text-action hover:opacity-80"
+                        >
+                          {document ? 'Replace with pasted text' : 'Paste text'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          <p className="mt-3 text-foreground-muted">Files attached in the chat are matched to these automatically.</p>
+        </div>
+      )}
+
+      {/* Chat Runs Popover */}
+      {openPanel === 'runs' && (
+        <div className="absolute right-6 top-full mt-1 z-20 w-80 max-w-[90vw] max-h-[70vh] overflow-auto p-3 rounded-lg border border-border bg-background shadow-lg text-xs">
+          <p className="font-medium text-foreground mb-2">Runs in this chat</p>
+          <ul className="space-y-2">
+            {chatRuns.map(({ run: chatRun, sop: chatRunSOP }) => (
+              <li key={chatRun.id} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-foreground truncate">{chatRunSOP?.displayName || chatRun.sopId}</p>
+                  <p className="text-foreground-muted">
+                    {RUN_STATUS_LABELS[chatRun.status]} · started {new Date(chatRun.startedAt).toLocaleString()}
+                  </p>
+                </div>
+                {chatRun.id === rootRun.id ? (
+                  <span className="px-1.5 rounded bg-background-tertiary text-foreground-muted">Active</span>
+                ) : (
+                  <button
+                    onClick={() => switchRun(chatRun.id)}
+                    disabled={isMoving}
+                    className="px-2 py-1 rounded border border-border text-foreground hover:bg-background-secondary disabled:opacity-50"
+                  >
+                    Switch
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Step History Popover */}
+      {openPanel === 'history' && (
+        <div className="absolute right-6 top-full mt-1 z-20 w-96 max-w-[90vw] max-h-[70vh] overflow-auto p-3 rounded-lg border border-border bg-background shadow-lg text-xs">
+          <p className="font-medium text-foreground mb-2">Step history</p>
+          {transitions.length === 0 ? (
+            <p className="text-foreground-muted">No step changes yet.</p>
+          ) : (
+            <ol className="space-y-3 border-l border-border pl-3">
+              {transitions.map((transition) => (
+                <li key={transition.id} className="relative">
+                  <span className="absolute -left-[17px] top-1 w-2 h-2 rounded-full bg-action" />
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-foreground-muted">
+                      {new Date(transition.createdAt).toLocaleString()}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <span className="px-1.5 rounded bg-background-tertiary text-foreground-muted">
+                        {TRANSITION_TRIGGER_LABELS[transition.trigger]}
+                      </span>
+                      {transition.confidence !== undefined && (
+                        <span className="text-foreground-muted">{Math.round(transition.confidence * 100)}%</span>
+                      )}
+                    </span>
+                  </div>
+                  <p className="text-foreground">
+                    {getStepTitle(transition.sopId, transition.fromStepId)} → {getStepTitle(transition.sopId, transition.toStepId)}
+                  </p>
+                  {transition.rationale && <p className="text-foreground-muted break-words">{transition.rationale}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      {/* Run Variables Popover */}
+      {openPanel === 'variables' && (
+        <div className="absolute right-6 top-full mt-1 z-20 w-80 max-w-[90vw] max-h-[70vh] overflow-auto p-3 rounded-lg border border-border bg-background shadow-lg text-xs">
+          <p className="font-medium text-foreground mb-2">Run variables</p>
+          {variables.length === 0 ? (
+            <p className="text-foreground-muted">Nothing collected yet.</p>
+          ) : (
+            <dl className="space-y-2">
+              {variables.map((variable) => (
+                <div key={variable.name}>
+                  <dt className="flex items-center justify-between gap-2">
+                    <span className="font-mono text-foreground">{variable.name}</span>
+                    <span className="text-foreground-muted">{variable.source}</span>
+                  </dt>
+                  <dd className="text-foreground-muted break-words">{formatVariableValue(variable.value)}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,11 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import type { SOP, SOPStep, ExpectedOutput } from '@/lib/types/sop';
+import { Lock, Pencil } from 'lucide-react';
+import type { SOP, SOPStep, ExpectedOutput, BranchRule } from '@/lib/types/sop';
+import type { LintIssue } from '@/lib/services/sopLinter';
+import SOPEditor from './SOPEditor';
+import StepGraph from './StepGraph';
 
 export interface SOPDraft {
   id: number;
@@ -15,6 +19,8 @@ interface SOPViewerProps {
   chatId: number;
   refreshTrigger?: number;
   onClose?: () => void;
+  // Called after the SOP is saved from the editor
+  onSOPSaved?: () => void;
 }
 
 function formatDate(dateString: string): string {
@@ -27,7 +33,35 @@ function formatDate(dateString: string): string {
   });
 }
 
-function StepFlowIndicator({ nextStep }: { nextStep: string | string[] | null }) {
+function BranchRuleList({ branchRules }: { branchRules?: BranchRule[] }) {
+  if (!branchRules || branchRules.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1 pt-1">
+      <span className="text-foreground-muted text-xs">Rules (checked in order):</span>
+      {branchRules.map((rule, idx) => (
+        <div key={idx} className="px-2 py-1 bg-background-secondary rounded text-xs">
+          <code className="text-foreground">{rule.condition}</code>
+          <span className="text-foreground-muted"> → </span>
+          <span className="text-foreground font-medium">{rule.nextStep}</span>
+          {rule.description && (
+            <p className="text-foreground-muted mt-0.5">{rule.description}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StepFlowIndicator({
+  nextStep,
+  branchRules,
+}: {
+  nextStep: string | string[] | null;
+  branchRules?: BranchRule[];
+}) {
   if (!nextStep) {
     return <span className="text-xs text-foreground-muted">End of process</span>;
   }
@@ -43,14 +77,18 @@ function StepFlowIndicator({ nextStep }: { nextStep: string | string[] | null })
             </span>
           ))}
         </div>
+        <BranchRuleList branchRules={branchRules} />
       </div>
     );
   }
 
   return (
-    <span className="text-xs text-foreground-muted">
-      Next: <span className="text-foreground font-medium">{nextStep}</span>
-    </span>
+    <div className="text-xs space-y-1">
+      <span className="text-xs text-foreground-muted">
+        Next: <span className="text-foreground font-medium">{nextStep}</span>
+      </span>
+      <BranchRuleList branchRules={branchRules} />
+    </div>
   );
 }
 
@@ -59,12 +97,16 @@ function getFormatById(formatId: string | undefined, formats?: any[]) {
   return formats.find((f) => f.id === formatId);
 }
 
-export default function SOPViewer({ chatId, refreshTrigger = 0, onClose }: SOPViewerProps) {
+export default function SOPViewer({ chatId, refreshTrigger = 0, onClose, onSOPSaved }: SOPViewerProps) {
   const [expandedSteps, setExpandedSteps] = useState<Set<string>>(new Set());
   const [drafts, setDrafts] = useState<SOPDraft[]>([]);
   const [selectedDraftIndex, setSelectedDraftIndex] = useState<number>(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveIssues, setSaveIssues] = useState<LintIssue[]>([]);
   const contentRef = useRef<HTMLDivElement>(null);
 
   // Load SOP drafts for this chat
@@ -95,6 +137,7 @@ export default function SOPViewer({ chatId, refreshTrigger = 0, onClose }: SOPVi
     };
 
     fetchDrafts();
+    setIsEditing(false);
   }, [chatId, refreshTrigger]);
 
   const selectedDraft = drafts[selectedDraftIndex];
@@ -110,6 +153,42 @@ export default function SOPViewer({ chatId, refreshTrigger = 0, onClose }: SOPVi
     setExpandedSteps(newExpanded);
   };
 
+  const startEditing = () => {
+    setSaveError(null);
+    setSaveIssues([]);
+    setIsEditing(true);
+  };
+
+  // Saves through the validated drafts route, which records the result as a new draft
+  const handleSave = async (sop: SOP, changeNote: string) => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const response = await fetch('/api/sop-drafts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chatId, sop, changeNote: changeNote || undefined }),
+      });
+      const data = await response.json();
+      setSaveIssues(data.issues || []);
+
+      if (!response.ok) {
+        setSaveError(data.error || 'Failed to save SOP');
+        return;
+      }
+
+      setDrafts((prev) => [...prev, data.draft]);
+      setSelectedDraftIndex(drafts.length);
+      setIsEditing(false);
+      onSOPSaved?.();
+    } catch (err) {
+      console.error('Error saving SOP:', err);
+      setSaveError('Failed to save SOP');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const allStepsExpanded = selectedSOP ? expandedSteps.size === selectedSOP.steps.length : false;
 
   const toggleAllSteps = () => {
@@ -175,16 +254,25 @@ export default function SOPViewer({ chatId, refreshTrigger = 0, onClose }: SOPVi
       <div className="border-b border-border px-4 py-3 flex items-center justify-between gap-4 flex-shrink-0">
         <div className="flex-1 min-w-0">
           <h2 className="text-sm font-semibold text-foreground truncate">{selectedSOP.displayName}</h2>
-          <div className="text-xs text-foreground-muted mt-0.5">
+          <div className="text-xs text-foreground-muted mt-0.5 flex items-center">
             v{selectedSOP.version}
             {selectedDraft?.source_tool && (
               <span className="ml-2">• {selectedDraft.source_tool.replace(/_/g, ' ')}</span>
             )}
+            {selectedSOP.sourceFile && (
+              <span
+                className="ml-2 inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-background-secondary text-foreground-muted"
+                title={`Managed by ${selectedSOP.sourceFile}. Edit the file to change this SOP.`}
+              >
+                <Lock size={10} />
+                Read-only
+              </span>
+            )}
           </div>
         </div>
 
         <div className="flex items-center gap-2 flex-shrink-0">
-          {drafts.length > 1 && (
+          {drafts.length > 1 && !isEditing && (
             <select
               value={selectedDraftIndex}
               onChange={(e) => setSelectedDraftIndex(parseInt(e.target.value))}
@@ -198,13 +286,26 @@ export default function SOPViewer({ chatId, refreshTrigger = 0, onClose }: SOPVi
               ))}
             </select>
           )}
-          <button
-            onClick={toggleAllSteps}
-            className="px-2 py-1 text-xs font-medium rounded bg-background-secondary hover:bg-background-tertiary text-foreground transition-colors border border-border"
-            title={allStepsExpanded ? 'Collapse all' : 'Expand all'}
-          >
-            {allStepsExpanded ? 'Collapse' : 'Expand'}
-          </button>
+          {!isEditing && (
+            <>
+              <button
+                onClick={startEditing}
+                disabled={!!selectedSOP.sourceFile}
+                className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded bg-background-secondary hover:bg-background-tertiary text-foreground transition-colors border border-border disabled:opacity-50 disabled:hover:bg-background-secondary"
+                title={selectedSOP.sourceFile ? `Edit ${selectedSOP.sourceFile} to change this SOP` : 'Edit SOP'}
+              >
+                <Pencil size={12} />
+                Edit
+              </button>
+              <button
+                onClick={toggleAllSteps}
+                className="px-2 py-1 text-xs font-medium rounded bg-background-secondary hover:bg-background-tertiary text-foreground transition-colors border border-border"
+                title={allStepsExpanded ? 'Collapse all' : 'Expand all'}
+              >
+                {allStepsExpanded ? 'Collapse' : 'Expand'}
+              </button>
+            </>
+          )}
           <button
             onClick={onClose}
             className="p-1 hover:bg-background-secondary rounded transition-colors text-foreground-muted hover:text-foreground"
@@ -217,185 +318,260 @@ export default function SOPViewer({ chatId, refreshTrigger = 0, onClose }: SOPVi
         </div>
       </div>
 
-      {/* Content */}
-      <div ref={contentRef} className="flex-1 overflow-y-auto px-4 py-4">
-        <div className="space-y-4">
-          {/* SOP Metadata Card */}
-          <div className="border-b border-border pb-4 space-y-2">
-            <h3 className="text-sm font-semibold text-foreground">{selectedSOP.displayName}</h3>
-            <p className="text-xs text-foreground-muted">{selectedSOP.description}</p>
-            <div className="grid grid-cols-2 gap-4 text-xs mt-3">
-              <div>
-                <span className="text-foreground-muted text-xs">Created</span>
-                <p className="text-foreground text-xs mt-0.5">{formatDate(selectedSOP.createdAt)}</p>
-              </div>
-              <div>
-                <span className="text-foreground-muted text-xs">Updated</span>
-                <p className="text-foreground text-xs mt-0.5">{formatDate(selectedSOP.updatedAt)}</p>
+      {isEditing ? (
+        <div className="flex-1 min-h-0">
+          <SOPEditor
+            key={selectedDraft.id}
+            sop={selectedSOP}
+            isSaving={isSaving}
+            issues={saveIssues}
+            error={saveError}
+            onSave={handleSave}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      ) : (
+        /* Content */
+        <div ref={contentRef} className="flex-1 overflow-y-auto px-4 py-4">
+          <div className="space-y-4">
+            {/* SOP Metadata Card */}
+            <div className="border-b border-border pb-4 space-y-2">
+              <h3 className="text-sm font-semibold text-foreground">{selectedSOP.displayName}</h3>
+              <p className="text-xs text-foreground-muted">{selectedSOP.description}</p>
+              <div className="grid grid-cols-2 gap-4 text-xs mt-3">
+                <div>
+                  <span className="text-foreground-muted text-xs">Created</span>
+                  <p className="text-foreground text-xs mt-0.5">{formatDate(selectedSOP.createdAt)}</p>
+                </div>
+                <div>
+                  <span className="text-foreground-muted text-xs">Updated</span>
+                  <p className="text-foreground text-xs mt-0.5">{formatDate(selectedSOP.updatedAt)}</p>
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Steps Section */}
-          <div className="border-b border-border pb-4 space-y-2">
-            <h4 className="text-sm font-semibold text-foreground mb-2">Steps ({selectedSOP.steps.length})</h4>
-            {selectedSOP.steps.map((step) => {
-              const isExpanded = expandedSteps.has(step.id);
-              return (
-                <div key={step.id} className="border border-border rounded overflow-hidden">
-                  {/* Step Header */}
-                  <button
-                    onClick={() => toggleStepExpanded(step.id)}
-                    className="w-full px-3 py-3 flex items-start justify-between gap-3 hover:bg-background-secondary transition-colors text-left"
-                  >
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="flex-shrink-0 w-5 h-5 rounded-full bg-action text-white text-xs font-semibold flex items-center justify-center">
-                          {step.stepNumber}
-                        </span>
-                        <h5 className="text-sm font-medium text-foreground truncate">
-                          {step.userFacingTitle || step.assistantFacingTitle}
-                        </h5>
-                      </div>
-                      {step.userFacingTitle && step.assistantFacingTitle !== step.userFacingTitle && (
-                        <p className="text-xs text-foreground-muted ml-7">{step.assistantFacingTitle}</p>
-                      )}
-                    </div>
-                    <svg
-                      className={`w-4 h-4 flex-shrink-0 text-foreground-muted transition-transform ${isExpanded ? 'rotate-180' : ''}`}
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
+            {/* Step Graph */}
+            <div className="border-b border-border pb-4">
+              <h4 className="text-sm font-semibold text-foreground mb-2">Flow</h4>
+              <StepGraph
+                sop={selectedSOP}
+                onStepClick={(stepId) => setExpandedSteps((prev) => new Set(prev).add(stepId))}
+              />
+            </div>
+
+            {/* Steps Section */}
+            <div className="border-b border-border pb-4 space-y-2">
+              <h4 className="text-sm font-semibold text-foreground mb-2">Steps ({selectedSOP.steps.length})</h4>
+              {selectedSOP.steps.map((step) => {
+                const isExpanded = expandedSteps.has(step.id);
+                return (
+                  <div key={step.id} className="border border-border rounded overflow-hidden">
+                    {/* Step Header */}
+                    <button
+                      onClick={() => toggleStepExpanded(step.id)}
+                      className="w-full px-3 py-3 flex items-start justify-between gap-3 hover:bg-background-secondary transition-colors text-left"
                     >
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 9l6 6 6-6" />
-                    </svg>
-                  </button>
-
-                  {/* Step Content */}
-                  {isExpanded && (
-                    <div className="px-3 py-3 bg-background-secondary border-t border-border space-y-3 text-xs">
-                      {/* Description */}
-                      <div>
-                        <p className="text-foreground-muted font-medium mb-1">Description</p>
-                        <p className="text-foreground whitespace-pre-wrap leading-relaxed">
-                          {step.description}
-                        </p>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="flex-shrink-0 w-5 h-5 rounded-full bg-action text-white text-xs font-semibold flex items-center justify-center">
+                            {step.stepNumber}
+                          </span>
+                          <h5 className="text-sm font-medium text-foreground truncate">
+                            {step.userFacingTitle || step.assistantFacingTitle}
+                          </h5>
+                        </div>
+                        {step.userFacingTitle && step.assistantFacingTitle !== step.userFacingTitle && (
+                          <p className="text-xs text-foreground-muted ml-7">{step.assistantFacingTitle}</p>
+                        )}
                       </div>
+                      <svg
+                        className={`w-4 h-4 flex-shrink-0 text-foreground-muted transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 9l6 6 6-6" />
+                      </svg>
+                    </button>
 
-                      {/* Expected Output */}
-                      <div>
-                        <p className="text-foreground-muted font-medium mb-2">Expected Output</p>
-                        <div className="space-y-2">
-                          {step.expectedOutput.format && (() => {
-                            const format = getFormatById(step.expectedOutput.format, selectedSOP.assistantOutputFormats);
-                            if (format) {
-                              return (
-                                <div className="mt-3 p-2 bg-background rounded border border-border">
-                                  <p className="text-xs font-medium text-action mb-2">{format.name}</p>
-                                  {format.requirements.length > 0 && (
-                                    <div className="mb-2">
-                                      <p className="text-xs text-foreground-muted font-medium mb-1">Requirements</p>
-                                      <ul className="text-xs text-foreground space-y-1">
-                                        {format.requirements.map((req: string, idx: number) => (
-                                          <li key={idx} className="ml-3 flex gap-2">
-                                            <span className="text-foreground-muted">•</span>
-                                            <span>{req}</span>
-                                          </li>
-                                        ))}
-                                      </ul>
+                    {/* Step Content */}
+                    {isExpanded && (
+                      <div className="px-3 py-3 bg-background-secondary border-t border-border space-y-3 text-xs">
+                        {/* Description */}
+                        <div>
+                          <p className="text-foreground-muted font-medium mb-1">Description</p>
+                          <p className="text-foreground whitespace-pre-wrap leading-relaxed">
+                            {step.description}
+                          </p>
+                        </div>
+
+                        {/* Expected Output */}
+                        <div>
+                          <p className="text-foreground-muted font-medium mb-2">Expected Output</p>
+                          <div className="space-y-2">
+                            {step.expectedOutput.format && (() => {
+                              const format = getFormatById(step.expectedOutput.format, selectedSOP.assistantOutputFormats);
+                              if (format) {
+                                return (
+                                  <div className="mt-3 p-2 bg-background rounded border border-border">
+                                    <p className="text-xs font-medium text-action mb-2">{format.name}</p>
+                                    {format.requirements.length > 0 && (
+                                      <div className="mb-2">
+                                        <p className="text-xs text-foreground-muted font-medium mb-1">Requirements</p>
+                                        <ul className="text-xs text-foreground space-y-1">
+                                          {format.requirements.map((req: string, idx: number) => (
+                                            <li key={idx} className="ml-3 flex gap-2">
+                                              <span className="text-foreground-muted">•</span>
+                                              <span>{req}</span>
+                                            </li>
+                                          ))}
+                                        </ul>
+                                      </div>
+                                    )}
+                                    <div className="text-xs">
+                                      <p className="text-foreground-muted font-medium mb-1">Template Preview</p>
+                                      <div className="bg-white p-2 rounded overflow-x-auto border border-border" dangerouslySetInnerHTML={{ __html: format.template }} />
                                     </div>
-                                  )}
-                                  <div className="text-xs">
-                                    <p className="text-foreground-muted font-medium mb-1">Template Preview</p>
-                                    <div className="bg-white p-2 rounded overflow-x-auto border border-border" dangerouslySetInnerHTML={{ __html: format.template }} />
                                   </div>
+                                );
+                              }
+                              return (
+                                <div>
+                                  <span className="text-foreground-muted font-medium">Format: </span>
+                                  <span className="text-foreground">{step.expectedOutput.format}</span>
                                 </div>
                               );
-                            }
-                            return (
+                            })()}
+                            {step.expectedOutput.description && (
                               <div>
-                                <span className="text-foreground-muted font-medium">Format: </span>
-                                <span className="text-foreground">{step.expectedOutput.format}</span>
+                                <span className="text-foreground-muted font-medium">Details: </span>
+                                <span className="text-foreground">{step.expectedOutput.description}</span>
                               </div>
-                            );
-                          })()}
-                          {step.expectedOutput.description && (
-                            <div>
-                              <span className="text-foreground-muted font-medium">Details: </span>
-                              <span className="text-foreground">{step.expectedOutput.description}</span>
-                            </div>
-                          )}
+                            )}
+                            {step.expectedOutput.schema && (
+                              <div>
+                                <span className="text-foreground-muted font-medium">Schema: </span>
+                                <pre className="mt-1 text-xs text-foreground bg-background-tertiary rounded p-2 overflow-x-auto">{JSON.stringify(step.expectedOutput.schema, null, 2)}</pre>
+                              </div>
+                            )}
+                          </div>
                         </div>
-                      </div>
 
-                      {/* Referenced Documents */}
-                      {step.referencedDocuments && step.referencedDocuments.length > 0 && (
-                        <div>
-                          <p className="text-foreground-muted font-medium mb-2">References</p>
-                          <div className="flex flex-wrap gap-1">
-                            {step.referencedDocuments.map((doc) => (
-                              <span key={doc} className="px-2 py-1 rounded bg-background text-foreground text-xs">
-                                {doc}
-                              </span>
-                            ))}
+                        {/* Referenced Documents */}
+                        {step.referencedDocuments && step.referencedDocuments.length > 0 && (
+                          <div>
+                            <p className="text-foreground-muted font-medium mb-2">References</p>
+                            <div className="flex flex-wrap gap-1">
+                              {step.referencedDocuments.map((doc) => (
+                                <span key={doc} className="px-2 py-1 rounded bg-background text-foreground text-xs">
+                                  {doc}
+                                </span>
+                              ))}
+                            </div>
                           </div>
-                        </div>
-                      )}
+                        )}
 
-                      {/* Next Step Flow */}
-                      <div className="pt-2 border-t border-border">
-                        <p className="text-foreground-muted font-medium mb-2">Flow</p>
-                        <StepFlowIndicator nextStep={step.nextStep} />
+                        {/* Step Tools */}
+                        {step.allowedTools && (
+                          <div>
+                            <p className="text-foreground-muted font-medium mb-2">Tools</p>
+                            {step.allowedTools.length > 0 ? (
+                              <div className="flex flex-wrap gap-1">
+                                {step.allowedTools.map((tool) => (
+                                  <span key={tool} className="px-2 py-1 rounded bg-background text-foreground text-xs">
+                                    {tool}
+                                  </span>
+                                ))}
+                              </div>
+                            ) : (
+                              <p className="text-foreground-muted">No tools in this step</p>
+                            )}
+                          </div>
+                        )}
+
+                        {/* Acceptance Criteria */}
+                        {step.acceptanceCriteria && step.acceptanceCriteria.length > 0 && (
+                          <div>
+                            <p className="text-foreground-muted font-medium mb-2">Acceptance Criteria</p>
+                            <ul className="list-disc list-inside space-y-1 text-foreground">
+                              {step.acceptanceCriteria.map((criterion, i) => (
+                                <li key={i}>{criterion}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
+                        {/* Approval */}
+                        {step.requiresApproval && (
+                          <div>
+                            <p className="text-foreground-muted font-medium mb-1">Approval</p>
+                            <p className="text-foreground">Must be approved by a person before continuing</p>
+                          </div>
+                        )}
+
+                        {/* Sub-SOP */}
+                        {step.subSOP && (
+                          <div>
+                            <p className="text-foreground-muted font-medium mb-1">Runs Sub-SOP</p>
+                            <p className="text-foreground font-mono">{step.subSOP}</p>
+                          </div>
+                        )}
+
+                        {/* Next Step Flow */}
+                        <div className="pt-2 border-t border-border">
+                          <p className="text-foreground-muted font-medium mb-2">Flow</p>
+                          <StepFlowIndicator nextStep={step.nextStep} branchRules={step.branchRules} />
+                        </div>
                       </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* User Documents Card */}
+            {selectedSOP.userDocuments.length > 0 && (
+              <div className="border-b border-border pb-4">
+                <h4 className="text-sm font-semibold text-foreground mb-3">Required Documents</h4>
+                <div className="space-y-2">
+                  {selectedSOP.userDocuments.map((doc) => (
+                    <div key={doc.id} className="p-2 bg-background-secondary rounded border border-border text-xs">
+                      <p className="font-medium text-foreground">{doc.name}</p>
+                      <p className="text-foreground-muted mt-1">{doc.description}</p>
                     </div>
-                  )}
+                  ))}
                 </div>
-              );
-            })}
-          </div>
-
-          {/* User Documents Card */}
-          {selectedSOP.userDocuments.length > 0 && (
-            <div className="border-b border-border pb-4">
-              <h4 className="text-sm font-semibold text-foreground mb-3">Required Documents</h4>
-              <div className="space-y-2">
-                {selectedSOP.userDocuments.map((doc) => (
-                  <div key={doc.id} className="p-2 bg-background-secondary rounded border border-border text-xs">
-                    <p className="font-medium text-foreground">{doc.name}</p>
-                    <p className="text-foreground-muted mt-1">{doc.description}</p>
-                  </div>
-                ))}
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Available Tools Card */}
-          {selectedSOP.providedTools.length > 0 && (
-            <div className="border-b border-border pb-4">
-              <h4 className="text-sm font-semibold text-foreground mb-2">Available Tools</h4>
-              <div className="flex flex-wrap gap-2">
-                {selectedSOP.providedTools.map((tool) => (
-                  <span key={tool} className="text-xs px-2 py-1 rounded bg-background-secondary text-foreground border border-border">
-                    {tool}
-                  </span>
-                ))}
+            {/* Available Tools Card */}
+            {selectedSOP.providedTools.length > 0 && (
+              <div className="border-b border-border pb-4">
+                <h4 className="text-sm font-semibold text-foreground mb-2">Available Tools</h4>
+                <div className="flex flex-wrap gap-2">
+                  {selectedSOP.providedTools.map((tool) => (
+                    <span key={tool} className="text-xs px-2 py-1 rounded bg-background-secondary text-foreground border border-border">
+                      {tool}
+                    </span>
+                  ))}
+                </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {/* AI Instructions */}
-          {selectedSOP.generalInstructions && (
-            <div>
-              <h4 className="text-sm font-semibold text-foreground mb-2">AI Instructions</h4>
-              <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">
-                {selectedSOP.generalInstructions}
-              </p>
-            </div>
-          )}
+            {/* AI Instructions */}
+            {selectedSOP.generalInstructions && (
+              <div>
+                <h4 className="text-sm font-semibold text-foreground mb-2">AI Instructions</h4>
+                <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">
+                  {selectedSOP.generalInstructions}
+                </p>
+              </div>
+            )}
 
-          <div className="h-4" />
+            <div className="h-4" />
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
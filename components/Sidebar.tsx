@@ -1,7 +1,10 @@
 'use client';
 
+import { useRef, useState } from 'react';
+import { Download, Lock, MessageSquarePlus, Upload } from 'lucide-react';
 import { Chat } from '@/lib/db';
 import type { SOP } from '@/lib/types/sop';
+import type { SOPImportResult } from '@/lib/services/sopBundle';
 import ThemePicker from './ThemePicker';
 
 interface SidebarProps {
@@ -11,8 +14,19 @@ interface SidebarProps {
   onSelectChat: (chatId: number) => void;
   onNewChat: () => void;
   onSelectSOP: (sopId: string) => void;
+  // Starts the SOP as another run in the current chat instead of a new chat
+  onStartSOPInChat?: (sopId: string) => void;
+  onSOPsChanged?: () => void;
 }
 
+const IMPORT_STATUS_LABELS: Record<SOPImportResult['status'], string> = {
+  created: 'Imported',
+  overwritten: 'Overwritten',
+  renamed: 'Imported as copy',
+  skipped: 'Skipped (already exists)',
+  failed: 'Failed',
+};
+
 export default function Sidebar({
   chats,
   sops,
@@ -20,7 +34,51 @@ export default function Sidebar({
   onSelectChat,
   onNewChat,
   onSelectSOP,
+  onStartSOPInChat,
+  onSOPsChanged,
 }: SidebarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exportFormat, setExportFormat] = useState<'json' | 'yaml'>('json');
+  const [pendingImportFiles, setPendingImportFiles] = useState<File[]>([]);
+  const [onConflict, setOnConflict] = useState<'skip' | 'rename' | 'overwrite'>('skip');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResults, setImportResults] = useState<SOPImportResult[] | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const handleImportFilesSelected = (fileList: FileList | null) => {
+    setPendingImportFiles(fileList ? Array.from(fileList) : []);
+    setImportResults(null);
+    setImportErrors([]);
+  };
+
+  const handleImport = async () => {
+    if (pendingImportFiles.length === 0) return;
+    setIsImporting(true);
+    try {
+      const formData = new FormData();
+      pendingImportFiles.forEach((file) => formData.append('files', file));
+      formData.append('onConflict', onConflict);
+
+      const response = await fetch('/api/sops/import', { method: 'POST', body: formData });
+      const data = await response.json();
+
+      setImportResults(data.results || []);
+      setImportErrors([...(data.error ? [data.error] : []), ...(data.errors || [])]);
+      setPendingImportFiles([]);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      onSOPsChanged?.();
+    } catch (error) {
+      console.error('Error importing SOPs:', error);
+      setImportErrors(['Import failed. Please try again.']);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const cancelImport = () => {
+    setPendingImportFiles([]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
 
   return (
     <div className="w-64 bg-sidebar-bg h-full flex flex-col border-r border-border">
@@ -44,30 +102,154 @@ export default function Sidebar({
           </button>
 
           {/* SOP Templates */}
-          {sops.length > 0 && (
-            <>
-              <h3 className="text-xs font-semibold text-foreground-muted uppercase tracking-wide mb-3 mt-4">
-                SOP Templates
-              </h3>
-              <div className="space-y-2">
-                {sops.map((sop) => (
+          <div className="flex items-center justify-between mb-3 mt-4">
+            <h3 className="text-xs font-semibold text-foreground-muted uppercase tracking-wide">
+              SOP Templates
+            </h3>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setExportFormat(exportFormat === 'json' ? 'yaml' : 'json')}
+                className="px-1.5 py-0.5 rounded text-[10px] font-semibold text-foreground-muted hover:text-foreground hover:bg-background-secondary uppercase"
+                title="Export format (click to switch)"
+              >
+                {exportFormat}
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="p-1 rounded text-foreground-muted hover:text-foreground hover:bg-background-secondary"
+                title="Import SOPs (.json, .yaml, .md, .zip)"
+              >
+                <Upload size={14} />
+              </button>
+              {sops.length > 0 && (
+                <a
+                  href={`/api/sops/export?format=${exportFormat}`}
+                  download
+                  className="p-1 rounded text-foreground-muted hover:text-foreground hover:bg-background-secondary"
+                  title="Export all SOPs as a zip"
+                >
+                  <Download size={14} />
+                </a>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept=".json,.yaml,.yml,.md,.markdown,.txt,.zip"
+                className="hidden"
+                onChange={(e) => handleImportFilesSelected(e.target.files)}
+              />
+            </div>
+          </div>
+
+          {/* Import options */}
+          {pendingImportFiles.length > 0 && (
+            <div className="mb-3 p-3 rounded-lg bg-background-secondary space-y-2">
+              <p className="text-xs text-foreground truncate">
+                {pendingImportFiles.map((file) => file.name).join(', ')}
+              </p>
+              <label className="block text-xs text-foreground-muted">
+                If a SOP already exists
+                <select
+                  value={onConflict}
+                  onChange={(e) => setOnConflict(e.target.value as typeof onConflict)}
+                  className="mt-1 w-full bg-background border border-input-border rounded px-2 py-1 text-xs text-foreground"
+                >
+                  <option value="skip">Skip it</option>
+                  <option value="rename">Import as a copy</option>
+                  <option value="overwrite">Overwrite (new version)</option>
+                </select>
+              </label>
+              <div className="flex justify-end gap-2">
                 <button
-                  key={sop.id}
-                  onClick={() => onSelectSOP(sop.id)}
-                  className="w-full text-left px-3 py-2 rounded-lg bg-background-secondary/50 hover:bg-background-secondary transition-colors duration-150 group"
+                  onClick={cancelImport}
+                  className="px-2 py-1 rounded text-xs text-foreground-muted hover:text-foreground"
                 >
-                  <div className="flex flex-col">
-                    <span className="text-sm font-medium text-foreground group-hover:text-action truncate">
-                      {sop.displayName}
-                    </span>
-                    <span className="text-xs text-foreground-muted mt-1 line-clamp-2">
-                      {sop.description}
-                    </span>
-                  </div>
+                  Cancel
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={isImporting}
+                  className="px-2 py-1 rounded text-xs text-white bg-action hover:bg-primary-hover disabled:opacity-50"
+                >
+                  {isImporting ? 'Importing...' : 'Import'}
                 </button>
-                ))}
               </div>
-            </>
+            </div>
+          )}
+
+          {/* Import results */}
+          {(importResults || importErrors.length > 0) && pendingImportFiles.length === 0 && (
+            <div className="mb-3 p-3 rounded-lg bg-background-secondary space-y-1">
+              {(importResults || []).map((result, idx) => (
+                <p key={idx} className={`text-xs ${result.status === 'failed' ? 'text-red-400' : 'text-foreground'}`}>
+                  <span className="font-medium">{result.sopId || result.sourceId || 'SOP'}</span>:{' '}
+                  {IMPORT_STATUS_LABELS[result.status]}
+                  {result.error && ` - ${result.error}`}
+                  {result.issues && result.issues.length > 0 && (
+                    <span className="text-foreground-muted">
+                      {' '}({result.issues.length} {result.status === 'failed' ? 'issue' : 'warning'}{result.issues.length === 1 ? '' : 's'})
+                    </span>
+                  )}
+                </p>
+              ))}
+              {importErrors.map((error, idx) => (
+                <p key={`error-${idx}`} className="text-xs text-red-400">{error}</p>
+              ))}
+              <button
+                onClick={() => {
+                  setImportResults(null);
+                  setImportErrors([]);
+                }}
+                className="text-xs text-foreground-muted hover:text-foreground"
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
+
+          {sops.length > 0 && (
+            <div className="space-y-2">
+              {sops.map((sop) => (
+                <div key={sop.id} className="relative group">
+                  <button
+                    onClick={() => onSelectSOP(sop.id)}
+                    className="w-full text-left px-3 py-2 pr-8 rounded-lg bg-background-secondary/50 hover:bg-background-secondary transition-colors duration-150"
+                  >
+                    <div className="flex flex-col">
+                      <span className="text-sm font-medium text-foreground group-hover:text-action truncate flex items-center gap-1">
+                        {sop.sourceFile && (
+                          <span title={`Read-only: managed by ${sop.sourceFile}`} className="flex-shrink-0 text-foreground-muted">
+                            <Lock size={11} />
+                          </span>
+                        )}
+                        <span className="truncate">{sop.displayName}</span>
+                      </span>
+                      <span className="text-xs text-foreground-muted mt-1 line-clamp-2">
+                        {sop.description}
+                      </span>
+                    </div>
+                  </button>
+                  <a
+                    href={`/api/sops/${encodeURIComponent(sop.id)}/export?format=${exportFormat}`}
+                    download
+                    className="absolute top-2 right-2 p-1 rounded text-foreground-muted hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+                    title={`Export as ${exportFormat.toUpperCase()}`}
+                  >
+                    <Download size={12} />
+                  </a>
+                  {currentChatId && onStartSOPInChat && (
+                    <button
+                      onClick={() => onStartSOPInChat(sop.id)}
+                      className="absolute bottom-2 right-2 p-1 rounded text-foreground-muted hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Run in current chat"
+                    >
+                      <MessageSquarePlus size={12} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
           )}
         </div>
 
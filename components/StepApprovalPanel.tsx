@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import type { SOPStep, StepApproval } from '@/lib/types/sop';
+
+interface StepApprovalPanelProps {
+  step: SOPStep;
+  // Latest decision on this visit to the step, shown when it was rejected
+  approval?: StepApproval;
+  onDecision: (decision: 'approve' | 'reject', reason?: string) => void;
+  disabled?: boolean;
+}
+
+export default function StepApprovalPanel({ step, approval, onDecision, disabled }: StepApprovalPanelProps) {
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const handleReject = () => {
+    if (!reason.trim()) return;
+    onDecision('reject', reason.trim());
+    setIsRejecting(false);
+    setReason('');
+  };
+
+  return (
+    <div className="w-full rounded-lg border border-border bg-background-secondary px-4 py-4 space-y-3">
+      <div>
+        <p className="text-sm font-semibold text-foreground">
+          {step.userFacingTitle || step.assistantFacingTitle}
+        </p>
+        <p className="text-xs text-foreground-muted mt-0.5">This step needs your approval before the process continues</p>
+        {approval?.decision === 'rejected' && (
+          <p className="text-xs text-red-400 mt-1">
+            Rejected by {approval.approver}: {approval.reason}
+          </p>
+        )}
+      </div>
+
+      {isRejecting ? (
+        <div className="space-y-2">
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="What needs to change?"
+            rows={3}
+            disabled={disabled}
+            autoFocus
+            className="w-full bg-background border border-input-border rounded-lg px-3 py-2 text-sm text-foreground placeholder-foreground-muted focus:outline-none focus:ring-2 focus:ring-action disabled:opacity-50"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsRejecting(false)}
+              disabled={disabled}
+              className="px-4 py-2 rounded-lg text-sm text-foreground-muted hover:text-foreground hover:bg-background-tertiary transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleReject}
+              disabled={disabled || !reason.trim()}
+              className="px-4 py-2 rounded-lg bg-red-500 hover:bg-red-600 disabled:bg-background-tertiary disabled:cursor-not-allowed text-white text-sm font-medium transition-colors duration-200"
+            >
+              Send back for revision
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setIsRejecting(true)}
+            disabled={disabled}
+            className="flex items-center gap-1 px-4 py-2 rounded-lg border border-border text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50 transition-colors duration-200"
+          >
+            <X size={14} />
+            Reject
+          </button>
+          <button
+            onClick={() => onDecision('approve')}
+            disabled={disabled}
+            className="flex items-center gap-1 px-4 py-2 rounded-lg bg-action hover:bg-primary-hover disabled:bg-background-tertiary disabled:cursor-not-allowed text-white text-sm font-medium transition-colors duration-200"
+          >
+            <Check size={14} />
+            Approve
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
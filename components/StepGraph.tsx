@@ -0,0 +1,260 @@
+'use client';
+
+import type { SOP } from '@/lib/types/sop';
+import { DONE_STEP_ID, findDeadEnds, getReachableStepIds } from '@/lib/utils/sop-graph';
+
+interface StepGraphProps {
+  sop: SOP;
+  // Highlights the run's current step and the path it has taken
+  currentStepId?: string;
+  stepHistory?: string[];
+  onStepClick?: (stepId: string) => void;
+}
+
+interface NodePosition {
+  x: number;
+  y: number;
+  layer: number;
+}
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 36;
+const H_GAP = 20;
+const V_GAP = 40;
+const PADDING = 12;
+// Room on the right for edges that loop back up the graph
+const LOOP_MARGIN = 48;
+const MAX_LABEL_LENGTH = 20;
+
+/**
+ * Places steps in layers by their distance from the first step
+ * Unreachable steps go in a layer of their own, and the end node goes last
+ */
+function layoutGraph(sop: SOP) {
+  const stepsById = new Map(sop.steps.map((s) => [s.id, s]));
+  const layers = new Map<string, number>();
+
+  const first = sop.steps[0];
+  const queue: string[] = first ? [first.id] : [];
+  if (first) layers.set(first.id, 0);
+  while (queue.length > 0) {
+    const stepId = queue.shift()!;
+    const step = stepsById.get(stepId);
+    const targets = !step?.nextStep ? [] : Array.isArray(step.nextStep) ? step.nextStep : [step.nextStep];
+    for (const target of targets) {
+      if (stepsById.has(target) && !layers.has(target)) {
+        layers.set(target, layers.get(stepId)! + 1);
+        queue.push(target);
+      }
+    }
+  }
+
+  const reachable = getReachableStepIds(sop);
+  let layerCount = Math.max(-1, ...Array.from(layers.values())) + 1;
+  const unreachable = sop.steps.filter((s) => !reachable.has(s.id));
+  for (const step of unreachable) {
+    layers.set(step.id, layerCount);
+  }
+  if (unreachable.length > 0) layerCount++;
+  layers.set(DONE_STEP_ID, layerCount);
+  layerCount++;
+
+  // Nodes within a layer keep the order steps are listed in
+  const rows: string[][] = Array.from({ length: layerCount }, () => []);
+  for (const step of sop.steps) {
+    rows[layers.get(step.id)!].push(step.id);
+  }
+  rows[layerCount - 1].push(DONE_STEP_ID);
+
+  const widest = Math.max(...rows.map((row) => row.length));
+  const contentWidth = widest * NODE_WIDTH + (widest - 1) * H_GAP;
+  const positions = new Map<string, NodePosition>();
+  rows.forEach((row, layer) => {
+    const rowWidth = row.length * NODE_WIDTH + (row.length - 1) * H_GAP;
+    const offset = PADDING + (contentWidth - rowWidth) / 2;
+    row.forEach((id, index) => {
+      positions.set(id, {
+        x: offset + index * (NODE_WIDTH + H_GAP),
+        y: PADDING + layer * (NODE_HEIGHT + V_GAP),
+        layer,
+      });
+    });
+  });
+
+  return {
+    positions,
+    width: contentWidth + PADDING * 2 + LOOP_MARGIN,
+    height: layerCount * NODE_HEIGHT + (layerCount - 1) * V_GAP + PADDING * 2,
+  };
+}
+
+/**
+ * SVG path for an edge: downward edges curve between layers,
+ * edges back up the graph (or within a layer) loop around the right-hand side
+ */
+function getEdgePath(from: NodePosition, to: NodePosition, isSelfLoop: boolean): string {
+  if (isSelfLoop) {
+    const x = from.x + NODE_WIDTH;
+    const y = from.y + NODE_HEIGHT / 2;
+    return `M ${x} ${y - 8} C ${x + 30} ${y - 24}, ${x + 30} ${y + 24}, ${x} ${y + 8}`;
+  }
+
+  if (to.layer > from.layer) {
+    const x1 = from.x + NODE_WIDTH / 2;
+    const y1 = from.y + NODE_HEIGHT;
+    const x2 = to.x + NODE_WIDTH / 2;
+    const y2 = to.y;
+    return `M ${x1} ${y1} C ${x1} ${y1 + V_GAP / 2}, ${x2} ${y2 - V_GAP / 2}, ${x2} ${y2}`;
+  }
+
+  const x1 = from.x + NODE_WIDTH;
+  const y1 = from.y + NODE_HEIGHT / 2;
+  const x2 = to.x + NODE_WIDTH;
+  const y2 = to.y + NODE_HEIGHT / 2;
+  const bulge = 24 + Math.abs(from.layer - to.layer) * 8;
+  return `M ${x1} ${y1} C ${x1 + bulge} ${y1}, ${x2 + bulge} ${y2}, ${x2} ${y2}`;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+}
+
+export default function StepGraph({ sop, currentStepId, stepHistory = [], onStepClick }: StepGraphProps) {
+  if (sop.steps.length === 0) {
+    return null;
+  }
+
+  const { positions, width, height } = layoutGraph(sop);
+  const deadEnds = findDeadEnds(sop);
+  const deadEndsById = new Map(deadEnds.map((d) => [d.stepId, d]));
+  const visited = new Set(stepHistory);
+  const takenEdges = new Set(stepHistory.slice(1).map((stepId, i) => `${stepHistory[i]}->${stepId}`));
+
+  const edges = sop.steps.flatMap((step) => {
+    // A step without a next step ends the SOP
+    const targets = !step.nextStep ? [DONE_STEP_ID] : Array.isArray(step.nextStep) ? step.nextStep : [step.nextStep];
+    return targets
+      .filter((target) => positions.has(target))
+      .map((target) => ({ from: step.id, to: target, taken: takenEdges.has(`${step.id}->${target}`) }));
+  });
+
+  // Draw taken edges last so they sit on top
+  edges.sort((a, b) => Number(a.taken) - Number(b.taken));
+
+  const isDone = currentStepId === DONE_STEP_ID;
+  const donePosition = positions.get(DONE_STEP_ID)!;
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <svg width={width} height={height} className="block" role="img" aria-label={`Step graph for ${sop.displayName}`}>
+          <defs>
+            <marker id="step-graph-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" className="fill-foreground-muted" />
+            </marker>
+            <marker id="step-graph-arrow-taken" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" className="fill-action" />
+            </marker>
+          </defs>
+
+          {edges.map((edge) => (
+            <path
+              key={`${edge.from}->${edge.to}`}
+              d={getEdgePath(positions.get(edge.from)!, positions.get(edge.to)!, edge.from === edge.to)}
+              fill="none"
+              strokeWidth={edge.taken ? 2 : 1}
+              className={edge.taken ? 'stroke-action' : 'stroke-foreground-muted opacity-60'}
+              markerEnd={`url(#step-graph-arrow${edge.taken ? '-taken' : ''})`}
+            />
+          ))}
+
+          {sop.steps.map((step) => {
+            const position = positions.get(step.id)!;
+            const isCurrent = step.id === currentStepId;
+            const deadEnd = deadEndsById.get(step.id);
+            const title = step.userFacingTitle || step.assistantFacingTitle;
+            const tooltip = [
+              `${step.stepNumber}. ${title} (${step.id})`,
+              deadEnd?.missingTargets.length ? `Next step not found: ${deadEnd.missingTargets.join(', ')}` : '',
+              deadEnd && !deadEnd.canFinish ? 'Dead end: the SOP can never finish from this step' : '',
+            ].filter(Boolean).join('\n');
+
+            let rectClassName = 'fill-background stroke-border';
+            if (isCurrent) {
+              rectClassName = 'fill-action stroke-action';
+            } else if (visited.has(step.id)) {
+              rectClassName = 'fill-background-secondary stroke-action';
+            }
+            if (deadEnd && !isCurrent) {
+              rectClassName = `${rectClassName.split(' ')[0]} stroke-red-500`;
+            }
+
+            return (
+              <g
+                key={step.id}
+                transform={`translate(${position.x}, ${position.y})`}
+                onClick={() => onStepClick?.(step.id)}
+                className={onStepClick ? 'cursor-pointer' : undefined}
+              >
+                <title>{tooltip}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={6}
+                  strokeWidth={isCurrent || deadEnd ? 2 : 1}
+                  strokeDasharray={deadEnd ? '4 2' : undefined}
+                  className={rectClassName}
+                />
+                <text
+                  x={NODE_WIDTH / 2}
+                  y={NODE_HEIGHT / 2}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  className={`text-xs ${isCurrent ? 'fill-white font-semibold' : 'fill-foreground'}`}
+                >
+                  {deadEnd ? '⚠ ' : ''}{step.stepNumber}. {truncate(title)}
+                </text>
+              </g>
+            );
+          })}
+
+          <g transform={`translate(${donePosition.x}, ${donePosition.y})`}>
+            <rect
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={NODE_HEIGHT / 2}
+              strokeWidth={isDone ? 2 : 1}
+              className={isDone ? 'fill-emerald-500 stroke-emerald-500' : 'fill-background-secondary stroke-border'}
+            />
+            <text
+              x={NODE_WIDTH / 2}
+              y={NODE_HEIGHT / 2}
+              textAnchor="middle"
+              dominantBaseline="central"
+              className={`text-xs ${isDone ? 'fill-white font-semibold' : 'fill-foreground-muted'}`}
+            >
+              {isDone ? '✓ Complete' : 'End'}
+            </text>
+          </g>
+        </svg>
+      </div>
+
+      {deadEnds.length > 0 && (
+        <div className="p-2 rounded border border-red-500 text-xs space-y-1">
+          <p className="font-medium text-red-500">Dead ends</p>
+          {deadEnds.map((deadEnd) => (
+            <p key={deadEnd.stepId} className="text-foreground">
+              <span className="font-mono">{deadEnd.stepId}</span>
+              {deadEnd.missingTargets.length > 0 && (
+                <span className="text-foreground-muted"> points to missing step {deadEnd.missingTargets.join(', ')}.</span>
+              )}
+              {!deadEnd.canFinish && (
+                <span className="text-foreground-muted"> can never reach the end of the SOP.</span>
+              )}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
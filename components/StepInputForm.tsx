@@ -0,0 +1,162 @@
+'use client';
+
+import { useState } from 'react';
+import type { InputField, SOPStep, StepInputValue } from '@/lib/types/sop';
+import { validateStepInputs } from '@/lib/utils/step-inputs';
+
+interface StepInputFormProps {
+  step: SOPStep;
+  onSubmit: (values: Record<string, StepInputValue>, files: File[]) => void;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'w-full bg-background border border-input-border rounded-lg px-3 py-2 text-sm text-foreground placeholder-foreground-muted focus:outline-none focus:ring-2 focus:ring-action disabled:opacity-50';
+
+export default function StepInputForm({ step, onSubmit, disabled }: StepInputFormProps) {
+  const fields = step.inputFields || [];
+  const [values, setValues] = useState<Record<string, unknown>>({});
+  const [files, setFiles] = useState<Record<string, File>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const setValue = (fieldId: string, value: unknown) => {
+    setValues((prev) => ({ ...prev, [fieldId]: value }));
+    // Clear the field's error as soon as the user edits it
+    if (errors[fieldId]) {
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[fieldId];
+        return next;
+      });
+    }
+  };
+
+  const handleFileChange = (field: InputField, file: File | undefined) => {
+    setFiles((prev) => {
+      const next = { ...prev };
+      if (file) {
+        next[field.id] = file;
+      } else {
+        delete next[field.id];
+      }
+      return next;
+    });
+    setValue(field.id, file ? file.name : undefined);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (disabled) return;
+
+    const validation = validateStepInputs(fields, values);
+    if (!validation.valid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    onSubmit(validation.values, Object.values(files));
+  };
+
+  const renderField = (field: InputField) => {
+    const value = values[field.id];
+
+    switch (field.type) {
+      case 'checkbox':
+        return (
+          <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={value === true}
+              onChange={(e) => setValue(field.id, e.target.checked)}
+              disabled={disabled}
+              className="accent-[var(--action-color)]"
+            />
+            {field.label}
+            {field.required && <span className="text-red-400">*</span>}
+          </label>
+        );
+      case 'select':
+        return (
+          <select
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setValue(field.id, e.target.value)}
+            disabled={disabled}
+            className={inputClassName}
+          >
+            <option value="">{field.placeholder || 'Select an option'}</option>
+            {(field.options || []).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case 'file':
+        return (
+          <input
+            type="file"
+            accept={field.validation?.accept}
+            onChange={(e) => handleFileChange(field, e.target.files?.[0])}
+            disabled={disabled}
+            className="w-full text-sm text-foreground-muted file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-background-tertiary file:text-foreground"
+          />
+        );
+      case 'number':
+      case 'date':
+      case 'text':
+      default:
+        return (
+          <input
+            type={field.type === 'text' ? 'text' : field.type}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setValue(field.id, e.target.value)}
+            placeholder={field.placeholder}
+            min={field.validation?.min}
+            max={field.validation?.max}
+            disabled={disabled}
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full rounded-lg border border-border bg-background-secondary px-4 py-4 space-y-4"
+    >
+      <div>
+        <p className="text-sm font-semibold text-foreground">
+          {step.userFacingTitle || step.assistantFacingTitle}
+        </p>
+        <p className="text-xs text-foreground-muted mt-0.5">Fill in the details below to continue</p>
+      </div>
+
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-1">
+          {field.type !== 'checkbox' && (
+            <label className="block text-xs font-medium text-foreground-muted">
+              {field.label}
+              {field.required && <span className="text-red-400 ml-0.5">*</span>}
+            </label>
+          )}
+          {renderField(field)}
+          {field.description && (
+            <p className="text-xs text-foreground-muted">{field.description}</p>
+          )}
+          {errors[field.id] && <p className="text-xs text-red-400">{errors[field.id]}</p>}
+        </div>
+      ))}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={disabled}
+          className="px-4 py-2 rounded-lg bg-action hover:bg-primary-hover disabled:bg-background-tertiary disabled:cursor-not-allowed text-white text-sm font-medium transition-colors duration-200"
+        >
+          Submit
+        </button>
+      </div>
+    </form>
+  );
+}
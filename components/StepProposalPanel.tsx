@@ -0,0 +1,44 @@
+'use client';
+
+import { ArrowRight } from 'lucide-react';
+import type { StepTransitionProposal } from '@/lib/types/sop';
+
+interface StepProposalPanelProps {
+  proposal: StepTransitionProposal;
+  // Title of the proposed step, or of finishing the SOP
+  targetTitle: string;
+  onAnswer: (answer: 'move' | 'stay') => void;
+}
+
+export default function StepProposalPanel({ proposal, targetTitle, onAnswer }: StepProposalPanelProps) {
+  return (
+    <div className="w-full rounded-lg border border-border bg-background-secondary px-4 py-3 flex items-center justify-between gap-4">
+      <div className="min-w-0">
+        <p className="text-sm text-foreground">
+          Move to <span className="font-semibold">{targetTitle}</span>?
+        </p>
+        {proposal.rationale && (
+          <p className="text-xs text-foreground-muted mt-0.5">
+            {proposal.rationale}
+            {proposal.confidence !== undefined && ` (${Math.round(proposal.confidence * 100)}% sure)`}
+          </p>
+        )}
+      </div>
+      <div className="flex-shrink-0 flex gap-2">
+        <button
+          onClick={() => onAnswer('stay')}
+          className="px-4 py-2 rounded-lg border border-border text-sm text-foreground hover:bg-background-tertiary transition-colors duration-200"
+        >
+          Stay
+        </button>
+        <button
+          onClick={() => onAnswer('move')}
+          className="flex items-center gap-1 px-4 py-2 rounded-lg bg-action hover:bg-primary-hover text-white text-sm font-medium transition-colors duration-200"
+        >
+          Move
+          <ArrowRight size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
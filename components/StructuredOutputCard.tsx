@@ -0,0 +1,128 @@
+'use client';
+
+import { Download } from 'lucide-react';
+
+interface StructuredOutputCardProps {
+  title: string;
+  output: Record<string, unknown>;
+}
+
+/**
+ * Turns a field name like client_name or clientName into "Client name"
+ */
+function formatLabel(name: string): string {
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Renders a value: lists of objects as tables, objects as nested fields, the rest as text
+ */
+function OutputValue({ value }: { value: unknown }) {
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every(isRecord)) {
+      const columns = Array.from(new Set(value.flatMap((row) => Object.keys(row))));
+      return (
+        <table className="w-full text-xs border border-border">
+          <thead className="bg-background-tertiary">
+            <tr>
+              {columns.map((column) => (
+                <th key={column} className="px-2 py-1 text-left font-medium text-foreground-muted">{formatLabel(column)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {value.map((row, i) => (
+              <tr key={i} className="border-t border-border">
+                {columns.map((column) => (
+                  <td key={column} className="px-2 py-1 align-top"><OutputValue value={row[column]} /></td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+    return <span>{value.map((item) => (isRecord(item) ? JSON.stringify(item) : String(item))).join(', ')}</span>;
+  }
+
+  if (isRecord(value)) {
+    return <OutputFields output={value} />;
+  }
+
+  if (value === undefined || value === null || value === '') {
+    return <span className="text-foreground-muted">—</span>;
+  }
+  if (typeof value === 'boolean') {
+    return <span>{value ? 'Yes' : 'No'}</span>;
+  }
+  return <span className="whitespace-pre-wrap">{String(value)}</span>;
+}
+
+function OutputFields({ output }: { output: Record<string, unknown> }) {
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {Object.entries(output).map(([name, value]) => (
+          <tr key={name} className="border-t border-border first:border-t-0">
+            <th className="py-1.5 pr-4 text-left align-top font-medium text-foreground-muted whitespace-nowrap">{formatLabel(name)}</th>
+            <td className="py-1.5 text-foreground"><OutputValue value={value} /></td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Converts the output to CSV, one row per top-level field
+ * Nested values are written as JSON
+ */
+function toCSV(output: Record<string, unknown>): string {
+  const escape = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  const rows = Object.entries(output).map(([name, value]) => {
+    const text = value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value ?? '');
+    return `${escape(name)},${escape(text)}`;
+  });
+  return ['field,value', ...rows].join('\n');
+}
+
+function download(content: string, filename: string, type: string) {
+  const url = window.URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+/**
+ * Shows the object a structured output step submitted
+ */
+export default function StructuredOutputCard({ title, output }: StructuredOutputCardProps) {
+  const filename = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'output';
+
+  return (
+    <div className="not-italic rounded-lg border border-border bg-background-secondary px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-foreground">{title}</p>
+        <div className="flex items-center gap-1 text-xs text-foreground-muted">
+          <Download size={12} />
+          <button onClick={() => download(JSON.stringify(output, null, 2), `${filename}.json`, 'application/json')} className="hover:text-foreground underline">
+            JSON
+          </button>
+          <button onClick={() => download(toCSV(output), `${filename}.csv`, 'text/csv')} className="hover:text-foreground underline">
+            CSV
+          </button>
+        </div>
+      </div>
+      <OutputFields output={output} />
+    </div>
+  );
+}
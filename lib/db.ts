@@ -1,6 +1,6 @@
 import Database from 'better-sqlite3';
 import path from 'path';
-import type { SOP, SOPRun, StepResult, SOPDocument } from './types/sop';
+import type { SOP, SOPRun, StepResult, OutputVerdict, RunVariable, StepApproval, StepInputValue, SOPDocument, SOPVersion, SOPVersionSummary, ManualTransition, StepTransition, StepTransitionProposal } from './types/sop';
 
 const dbPath = process.env.DB_PATH || path.join(process.cwd(), 'chat.db');
 const db = new Database(dbPath);
@@ -46,6 +46,11 @@ function migrateDatabase() {
     db.exec('ALTER TABLE messages ADD COLUMN file_attachments TEXT');
   }
 
+  if (!columnNames.includes('model')) {
+    console.log('Adding model column to messages table');
+    db.exec('ALTER TABLE messages ADD COLUMN model TEXT');
+  }
+
   if (!columnNames.includes('parent_message_id')) {
     console.log('Adding parent_message_id column to messages table');
     db.exec('ALTER TABLE messages ADD COLUMN parent_message_id INTEGER REFERENCES messages(id)');
@@ -59,6 +64,128 @@ function migrateDatabase() {
       }
     }
   }
+
+  // Record an initial version for SOPs saved before version history existed
+  const unversionedSOPs = db.prepare(`
+    SELECT * FROM sops WHERE id NOT IN (SELECT DISTINCT sop_id FROM sop_versions)
+  `).all() as any[];
+  for (const row of unversionedSOPs) {
+    console.log(`Recording initial version for SOP ${row.id}`);
+    db.prepare(`
+      INSERT INTO sop_versions (sop_id, version_number, version, data, change_note, created_at)
+      VALUES (?, 1, ?, ?, 'Initial version', ?)
+    `).run(row.id, row.version, row.data, row.updated_at);
+  }
+
+  const sopTableInfo = db.pragma('table_info(sops)') as Array<{ name: string }>;
+  if (!sopTableInfo.some((col) => col.name === 'source_file')) {
+    console.log('Adding source_file column to sops table');
+    db.exec('ALTER TABLE sops ADD COLUMN source_file TEXT');
+  }
+
+  const runTableInfo = db.pragma('table_info(sop_runs)') as Array<{ name: string }>;
+  const runColumnNames = runTableInfo.map((col) => col.name);
+
+  if (!runColumnNames.includes('sop_version_id')) {
+    console.log('Adding sop_version_id column to sop_runs table');
+    db.exec('ALTER TABLE sop_runs ADD COLUMN sop_version_id INTEGER REFERENCES sop_versions(id)');
+
+    // Pin existing runs to the latest known version of their SOP
+    db.exec(`
+      UPDATE sop_runs SET sop_version_id = (
+        SELECT id FROM sop_versions
+        WHERE sop_versions.sop_id = sop_runs.sop_id
+        ORDER BY version_number DESC
+        LIMIT 1
+      )
+    `);
+  }
+
+  if (!runColumnNames.includes('step_history')) {
+    console.log('Adding step_history column to sop_runs table');
+    db.exec('ALTER TABLE sop_runs ADD COLUMN step_history TEXT');
+    // Earlier steps weren't recorded, so history starts at the current step
+    db.exec('UPDATE sop_runs SET step_history = json_array(current_step_id)');
+  }
+
+  if (!runColumnNames.includes('parent_run_id')) {
+    console.log('Adding parent_run_id column to sop_runs table');
+    db.exec('ALTER TABLE sop_runs ADD COLUMN parent_run_id INTEGER REFERENCES sop_runs(id)');
+  }
+
+  if (!runColumnNames.includes('manual_transition')) {
+    console.log('Adding manual_transition column to sop_runs table');
+    db.exec('ALTER TABLE sop_runs ADD COLUMN manual_transition JSON');
+  }
+
+  if (!runColumnNames.includes('transition_proposal')) {
+    console.log('Adding transition_proposal column to sop_runs table');
+    db.exec('ALTER TABLE sop_runs ADD COLUMN transition_proposal JSON');
+  }
+
+  if (!runColumnNames.includes('status_reason')) {
+    console.log('Adding status_reason column to sop_runs table');
+    db.exec('ALTER TABLE sop_runs ADD COLUMN status_reason TEXT');
+  }
+
+  if (!runColumnNames.includes('summary_document_id')) {
+    console.log('Adding summary_document_id column to sop_runs table');
+    db.exec('ALTER TABLE sop_runs ADD COLUMN summary_document_id INTEGER');
+  }
+
+  // Runs for messages are assigned after the sop_runs migrations, which the backfill relies on
+  if (!columnNames.includes('run_id')) {
+    console.log('Adding run_id column to messages table');
+    db.exec('ALTER TABLE messages ADD COLUMN run_id INTEGER REFERENCES sop_runs(id)');
+
+    // Chats held a single run until now, so existing messages belong to their chat's latest run
+    db.exec(`
+      UPDATE messages SET run_id = (
+        SELECT id FROM sop_runs
+        WHERE sop_runs.chat_id = messages.chat_id AND sop_runs.parent_run_id IS NULL
+        ORDER BY id DESC
+        LIMIT 1
+      )
+    `);
+  }
+
+  const chatTableInfo = db.pragma('table_info(chats)') as Array<{ name: string }>;
+  if (!chatTableInfo.some((col) => col.name === 'active_run_id')) {
+    console.log('Adding active_run_id column to chats table');
+    db.exec('ALTER TABLE chats ADD COLUMN active_run_id INTEGER');
+  }
+
+  const resultTableInfo = db.pragma('table_info(sop_step_results)') as Array<{ name: string }>;
+  const resultColumnNames = resultTableInfo.map((col) => col.name);
+
+  if (!resultColumnNames.includes('verdict')) {
+    console.log('Adding verdict column to sop_step_results table');
+    db.exec('ALTER TABLE sop_step_results ADD COLUMN verdict JSON');
+  }
+
+  if (!resultColumnNames.includes('document_id')) {
+    console.log('Adding document_id column to sop_step_results table');
+    db.exec('ALTER TABLE sop_step_results ADD COLUMN document_id INTEGER');
+  }
+
+  if (!resultColumnNames.includes('output_type')) {
+    console.log('Adding output_type column to sop_step_results table');
+    db.exec('ALTER TABLE sop_step_results ADD COLUMN output_type TEXT');
+  }
+
+  const aiDocumentTableInfo = db.pragma('table_info(ai_generated_documents)') as Array<{ name: string }>;
+  if (!aiDocumentTableInfo.some((col) => col.name === 'step_id')) {
+    console.log('Adding step_id column to ai_generated_documents table');
+    db.exec('ALTER TABLE ai_generated_documents ADD COLUMN step_id TEXT');
+  }
+
+  const documentTableInfo = db.pragma('table_info(sop_documents)') as Array<{ name: string }>;
+  const documentColumnNames = documentTableInfo.map((col) => col.name);
+
+  if (!documentColumnNames.includes('filename')) {
+    console.log('Adding filename column to sop_documents table');
+    db.exec('ALTER TABLE sop_documents ADD COLUMN filename TEXT');
+  }
 }
 
 // Initialize database schema
@@ -79,6 +206,7 @@ export function initializeDatabase() {
       user_id INTEGER NOT NULL,
       model TEXT NOT NULL,
       title TEXT,
+      active_run_id INTEGER,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
     )
@@ -97,7 +225,9 @@ export function initializeDatabase() {
       tool_output_location TEXT,
       metadata TEXT,
       file_attachments TEXT,
+      model TEXT,
       parent_message_id INTEGER,
+      run_id INTEGER,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (chat_id) REFERENCES chats(id) ON DELETE CASCADE,
       FOREIGN KEY (parent_message_id) REFERENCES messages(id)
@@ -113,23 +243,48 @@ export function initializeDatabase() {
       description TEXT,
       version TEXT,
       data JSON NOT NULL,
+      source_file TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `);
 
+  // Create SOP versions table (stores every saved revision of a SOP)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sop_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sop_id TEXT NOT NULL,
+      version_number INTEGER NOT NULL,
+      version TEXT,
+      data JSON NOT NULL,
+      author TEXT,
+      change_note TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (sop_id, version_number),
+      FOREIGN KEY (sop_id) REFERENCES sops(id) ON DELETE CASCADE
+    )
+  `);
+
   // Create SOP runs table (tracks individual SOP executions)
   db.exec(`
     CREATE TABLE IF NOT EXISTS sop_runs (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       chat_id INTEGER NOT NULL,
       sop_id TEXT NOT NULL,
+      sop_version_id INTEGER,
       current_step_id TEXT NOT NULL,
+      step_history TEXT,
+      parent_run_id INTEGER,
       status TEXT DEFAULT 'in_progress',
+      status_reason TEXT,
       started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       completed_at DATETIME,
+      manual_transition JSON,
+      transition_proposal JSON,
+      summary_document_id INTEGER,
       FOREIGN KEY (chat_id) REFERENCES chats(id) ON DELETE CASCADE,
-      FOREIGN KEY (sop_id) REFERENCES sops(id)
+      FOREIGN KEY (sop_id) REFERENCES sops(id),
+      FOREIGN KEY (sop_version_id) REFERENCES sop_versions(id)
     )
   `);
 
@@ -143,6 +298,54 @@ export function initializeDatabase() {
       ai_output TEXT,
       validation_status TEXT DEFAULT 'pending',
       validation_errors JSON,
+      verdict JSON,
+      document_id INTEGER,
+      output_type TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (run_id) REFERENCES sop_runs(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create run variables table (named values collected during a run)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sop_run_variables (
+      run_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      value JSON NOT NULL,
+      source TEXT NOT NULL,
+      step_id TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (run_id, name),
+      FOREIGN KEY (run_id) REFERENCES sop_runs(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create step approvals table (approve/reject decisions on steps that require approval)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sop_step_approvals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      step_id TEXT NOT NULL,
+      decision TEXT NOT NULL,
+      approver TEXT NOT NULL,
+      reason TEXT,
+      history_index INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (run_id) REFERENCES sop_runs(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create step transitions table (audit log of every step change in a run)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sop_step_transitions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      from_step_id TEXT NOT NULL,
+      to_step_id TEXT NOT NULL,
+      trigger TEXT NOT NULL,
+      rationale TEXT,
+      confidence REAL,
+      message_id INTEGER,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (run_id) REFERENCES sop_runs(id) ON DELETE CASCADE
     )
@@ -156,6 +359,7 @@ export function initializeDatabase() {
       document_id TEXT NOT NULL,
       content TEXT NOT NULL,
       content_type TEXT,
+      filename TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (run_id) REFERENCES sop_runs(id) ON DELETE CASCADE
     )
@@ -167,6 +371,7 @@ export function initializeDatabase() {
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       chat_id INTEGER NOT NULL,
       run_id INTEGER,
+      step_id TEXT,
       document_name TEXT NOT NULL,
       content TEXT NOT NULL,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -203,8 +408,9 @@ export interface Chat {
   user_id: number;
   model: string;
   title: string | null;
+  active_run_id?: number | null; // Top-level run the user switched to, if any
   created_at: string;
-  sop?: SOP | null; // Optional SOP associated with the latest run
+  sop?: SOP | null; // Optional SOP associated with the current run
 }
 
 export interface Message {
@@ -217,7 +423,9 @@ export interface Message {
   tool_name?: string | null; // Name of the tool that was called
   metadata?: string | null; // JSON string for extensible metadata (e.g., documentName, documentId)
   file_attachments?: string | null; // JSON string of file attachment metadata array
+  model?: string | null; // Model that generated an assistant message
   parent_message_id?: number | null;
+  run_id?: number | null; // Top-level SOP run the message was sent in; null for free-form chat
   created_at: string;
 }
 
@@ -225,6 +433,8 @@ export interface AIGeneratedDocument {
   id: number;
   chat_id: number;
   run_id?: number | null;
+  // Step the document was written for
+  step_id?: string | null;
   document_name: string;
   content: string;
   created_at: string;
@@ -234,7 +444,7 @@ export interface SOPDraft {
   id: number;
   chat_id: number;
   sop_data: SOP;
-  source_tool?: string; // 'display_sop_to_user', 'overwrite_sop', 'create_sop'
+  source_tool?: string; // 'display_sop_to_user', 'overwrite_sop', 'create_sop', 'sop_editor'
   created_at: string;
 }
 
@@ -279,8 +489,8 @@ export function getChatsForUser(userId: number): Chat[] {
 export function getChatsForUserWithSOPs(userId: number): Chat[] {
   const chats = getChatsForUser(userId);
   return chats.map((chat) => {
-    const sopRun = getLatestSOPRun(chat.id);
-    const sop = sopRun ? getSOP(sopRun.sopId) : null;
+    const sopRun = getCurrentSOPRun(chat.id);
+    const sop = sopRun ? getSOPForRun(sopRun) : null;
     return {
       ...chat,
       sop: sop || null,
@@ -298,13 +508,28 @@ export function updateChatTitle(chatId: number, title: string): void {
   stmt.run(title, chatId);
 }
 
+/**
+ * Get the username of the user who owns a chat
+ */
+export function getChatOwnerUsername(chatId: number): string | undefined {
+  const stmt = db.prepare(`
+    SELECT users.username FROM chats
+    JOIN users ON users.id = chats.user_id
+    WHERE chats.id = ?
+  `);
+  const row = stmt.get(chatId) as { username: string } | undefined;
+  return row?.username;
+}
+
 // Message operations
 export function saveMessage(
   chatId: number,
   role: 'user' | 'assistant' | 'tool',
   content: string,
   fileAttachments?: Array<{ file_id?: string; filename: string; file_type: string; size: number }>,
-  parentMessageId?: number
+  parentMessageId?: number,
+  model?: string,
+  runId?: number
 ): Message {
   const fileAttachmentsJson = fileAttachments ? JSON.stringify(fileAttachments) : null;
   
@@ -320,9 +545,9 @@ export function saveMessage(
   }
   
   const stmt = db.prepare(
-    'INSERT INTO messages (chat_id, role, content, file_attachments, parent_message_id) VALUES (?, ?, ?, ?, ?)'
+    'INSERT INTO messages (chat_id, role, content, file_attachments, parent_message_id, model, run_id) VALUES (?, ?, ?, ?, ?, ?, ?)'
   );
-  const result = stmt.run(chatId, role, content, fileAttachmentsJson, validParentId || null);
+  const result = stmt.run(chatId, role, content, fileAttachmentsJson, validParentId || null, model || null, runId ?? null);
   
   const selectStmt = db.prepare('SELECT * FROM messages WHERE id = ?');
   return selectStmt.get(result.lastInsertRowid) as Message;
@@ -348,7 +573,9 @@ export function getLastMessage(chatId: number): Message | undefined {
 export function saveToolCallMessage(
   chatId: number,
   toolCalls: any[],
-  parentMessageId?: number
+  parentMessageId?: number,
+  model?: string,
+  runId?: number
 ): Message {
   // Validate that parent message belongs to the same chat
   let validParentId: number | null = null;
@@ -362,10 +589,10 @@ export function saveToolCallMessage(
   }
   
   const stmt = db.prepare(
-    'INSERT INTO messages (chat_id, role, content, tool_calls, parent_message_id) VALUES (?, ?, ?, ?, ?)'
+    'INSERT INTO messages (chat_id, role, content, tool_calls, parent_message_id, model, run_id) VALUES (?, ?, ?, ?, ?, ?, ?)'
   );
   // Use empty string for content since tool calls are stored separately
-  const result = stmt.run(chatId, 'assistant', '', JSON.stringify(toolCalls), validParentId || null);
+  const result = stmt.run(chatId, 'assistant', '', JSON.stringify(toolCalls), validParentId || null, model || null, runId ?? null);
   
   const selectStmt = db.prepare('SELECT * FROM messages WHERE id = ?');
   return selectStmt.get(result.lastInsertRowid) as Message;
@@ -380,7 +607,8 @@ export function saveToolResultMessage(
   result: any,
   toolName?: string,
   metadata?: Record<string, any>,
-  parentMessageId?: number
+  parentMessageId?: number,
+  runId?: number
 ): Message {
   // Validate that parent message belongs to the same chat
   let validParentId: number | null = null;
@@ -394,7 +622,7 @@ export function saveToolResultMessage(
   }
   
   const stmt = db.prepare(
-    'INSERT INTO messages (chat_id, role, content, tool_call_id, tool_name, metadata, parent_message_id) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    'INSERT INTO messages (chat_id, role, content, tool_call_id, tool_name, metadata, parent_message_id, run_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
   );
   const resultRow = stmt.run(
     chatId,
@@ -403,7 +631,8 @@ export function saveToolResultMessage(
     toolCallId,
     toolName || null,
     metadata ? JSON.stringify(metadata) : null,
-    validParentId || null
+    validParentId || null,
+    runId ?? null
   );
   
   const selectStmt = db.prepare('SELECT * FROM messages WHERE id = ?');
@@ -416,23 +645,70 @@ export function saveToolResultMessage(
 
 /**
  * Save a SOP template to the database
+ * Every save also records a new entry in the SOP's version history
  */
-export function saveSOP(sop: SOP): void {
-  const stmt = db.prepare(`
-    INSERT OR REPLACE INTO sops (id, name, display_name, description, version, data, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-  `);
-  stmt.run(sop.id, sop.name, sop.displayName, sop.description, sop.version, JSON.stringify(sop));
+export function saveSOP(
+  sop: SOP,
+  options: { author?: string; changeNote?: string } = {}
+): SOPVersionSummary {
+  // sourceFile mirrors the source_file column and is not part of the definition
+  const definition: Partial<SOP> = { ...sop };
+  delete definition.sourceFile;
+  const data = JSON.stringify(definition);
+
+  const save = db.transaction(() => {
+    // Upsert rather than REPLACE so the row (and its version history) is never deleted
+    db.prepare(`
+      INSERT INTO sops (id, name, display_name, description, version, data, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        display_name = excluded.display_name,
+        description = excluded.description,
+        version = excluded.version,
+        data = excluded.data,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(sop.id, sop.name, sop.displayName, sop.description, sop.version, data);
+
+    const latest = db.prepare(
+      'SELECT MAX(version_number) as latest FROM sop_versions WHERE sop_id = ?'
+    ).get(sop.id) as { latest: number | null };
+
+    const result = db.prepare(`
+      INSERT INTO sop_versions (sop_id, version_number, version, data, author, change_note)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      sop.id,
+      (latest.latest || 0) + 1,
+      sop.version,
+      data,
+      options.author || null,
+      options.changeNote || null
+    );
+
+    return result.lastInsertRowid as number;
+  });
+
+  const versionId = save();
+  return getSOPVersionSummary(versionId)!;
+}
+
+function rowToSOP(row: { data: string; source_file: string | null }): SOP {
+  const sop = JSON.parse(row.data) as SOP;
+  if (row.source_file) {
+    sop.sourceFile = row.source_file;
+  }
+  return sop;
 }
 
 /**
  * Get a SOP template by ID
  */
 export function getSOP(sopId: string): SOP | undefined {
-  const stmt = db.prepare('SELECT data FROM sops WHERE id = ?');
-  const result = stmt.get(sopId) as { data: string } | undefined;
+  const stmt = db.prepare('SELECT data, source_file FROM sops WHERE id = ?');
+  const result = stmt.get(sopId) as { data: string; source_file: string | null } | undefined;
   if (result) {
-    return JSON.parse(result.data) as SOP;
+    return rowToSOP(result);
   }
   return undefined;
 }
@@ -441,9 +717,36 @@ export function getSOP(sopId: string): SOP | undefined {
  * Get all SOP templates
  */
 export function getAllSOPs(): SOP[] {
-  const stmt = db.prepare('SELECT data FROM sops ORDER BY created_at DESC');
-  const results = stmt.all() as { data: string }[];
-  return results.map(r => JSON.parse(r.data) as SOP);
+  const stmt = db.prepare('SELECT data, source_file FROM sops ORDER BY created_at DESC');
+  const results = stmt.all() as { data: string; source_file: string | null }[];
+  return results.map(rowToSOP);
+}
+
+/**
+ * Mark a SOP as managed by a definition file (or clear the mark with null)
+ * File-managed SOPs are read-only everywhere except the directory sync
+ */
+export function setSOPSourceFile(sopId: string, sourceFile: string | null): void {
+  const stmt = db.prepare('UPDATE sops SET source_file = ? WHERE id = ?');
+  stmt.run(sourceFile, sopId);
+}
+
+/**
+ * Get the IDs of all SOPs currently managed by definition files
+ */
+export function getFileManagedSOPIds(): string[] {
+  const stmt = db.prepare('SELECT id FROM sops WHERE source_file IS NOT NULL');
+  const results = stmt.all() as { id: string }[];
+  return results.map((r) => r.id);
+}
+
+/**
+ * Count the runs (in any status) that were started from a SOP
+ */
+export function countSOPRuns(sopId: string): number {
+  const stmt = db.prepare('SELECT COUNT(*) as count FROM sop_runs WHERE sop_id = ?');
+  const result = stmt.get(sopId) as { count: number };
+  return result.count;
 }
 
 /**
@@ -454,85 +757,290 @@ export function deleteSOP(sopId: string): void {
   stmt.run(sopId);
 }
 
+// ============================================================================
+// SOP Version Operations
+// ============================================================================
+
+function rowToSOPVersionSummary(row: any): SOPVersionSummary {
+  return {
+    id: row.id,
+    sopId: row.sop_id,
+    versionNumber: row.version_number,
+    version: row.version,
+    author: row.author || undefined,
+    changeNote: row.change_note || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function getSOPVersionSummary(versionId: number): SOPVersionSummary | undefined {
+  const stmt = db.prepare(`
+    SELECT id, sop_id, version_number, version, author, change_note, created_at
+    FROM sop_versions WHERE id = ?
+  `);
+  const row = stmt.get(versionId) as any;
+  return row ? rowToSOPVersionSummary(row) : undefined;
+}
+
 /**
- * Create a new SOP run
+ * List the saved versions of a SOP, newest first
  */
-export function createSOPRun(chatId: number, sopId: string, firstStepId: string): SOPRun {
+export function getSOPVersions(sopId: string): SOPVersionSummary[] {
   const stmt = db.prepare(`
-    INSERT INTO sop_runs (chat_id, sop_id, current_step_id, status)
-    VALUES (?, ?, ?, 'in_progress')
+    SELECT id, sop_id, version_number, version, author, change_note, created_at
+    FROM sop_versions
+    WHERE sop_id = ?
+    ORDER BY version_number DESC
   `);
-  const result = stmt.run(chatId, sopId, firstStepId);
-  
-  const selectStmt = db.prepare('SELECT * FROM sop_runs WHERE id = ?');
-  const row = selectStmt.get(result.lastInsertRowid) as any;
+  const rows = stmt.all(sopId) as any[];
+  return rows.map(rowToSOPVersionSummary);
+}
+
+/**
+ * Get a specific SOP version, including the SOP definition as it was saved
+ */
+export function getSOPVersion(versionId: number): SOPVersion | undefined {
+  const stmt = db.prepare('SELECT * FROM sop_versions WHERE id = ?');
+  const row = stmt.get(versionId) as any;
+  if (row) {
+    return {
+      ...rowToSOPVersionSummary(row),
+      sop: JSON.parse(row.data) as SOP,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Get the most recent version of a SOP
+ */
+export function getLatestSOPVersion(sopId: string): SOPVersionSummary | undefined {
+  const stmt = db.prepare(`
+    SELECT id, sop_id, version_number, version, author, change_note, created_at
+    FROM sop_versions
+    WHERE sop_id = ?
+    ORDER BY version_number DESC
+    LIMIT 1
+  `);
+  const row = stmt.get(sopId) as any;
+  return row ? rowToSOPVersionSummary(row) : undefined;
+}
+
+/**
+ * Get the SOP definition a run is following
+ * Runs are pinned to the version they started on, so later edits don't affect them
+ */
+export function getSOPForRun(run: SOPRun): SOP | undefined {
+  if (run.sopVersionId) {
+    const version = getSOPVersion(run.sopVersionId);
+    if (version) {
+      return version.sop;
+    }
+  }
+  return getSOP(run.sopId);
+}
+
+// ============================================================================
+// SOP Run Operations
+// ============================================================================
+
+function rowToSOPRun(row: any): SOPRun {
   return {
     id: row.id,
     chatId: row.chat_id,
     sopId: row.sop_id,
+    sopVersionId: row.sop_version_id ?? undefined,
     currentStepId: row.current_step_id,
-    status: row.status as 'in_progress' | 'completed' | 'paused',
+    stepHistory: row.step_history ? JSON.parse(row.step_history) : [row.current_step_id],
+    parentRunId: row.parent_run_id ?? undefined,
+    status: row.status as SOPRun['status'],
+    statusReason: row.status_reason ?? undefined,
     startedAt: row.started_at,
     completedAt: row.completed_at,
+    manualTransition: row.manual_transition ? JSON.parse(row.manual_transition) : undefined,
+    transitionProposal: row.transition_proposal ? JSON.parse(row.transition_proposal) : undefined,
+    summaryDocumentId: row.summary_document_id ?? undefined,
   };
 }
 
+/**
+ * Create a new SOP run, pinned to the SOP's current version
+ * Child runs of a sub-SOP step pass the run that invoked them as parentRunId
+ */
+export function createSOPRun(chatId: number, sopId: string, firstStepId: string, parentRunId?: number): SOPRun {
+  const latestVersion = getLatestSOPVersion(sopId);
+  const stmt = db.prepare(`
+    INSERT INTO sop_runs (chat_id, sop_id, sop_version_id, current_step_id, step_history, parent_run_id, status)
+    VALUES (?, ?, ?, ?, ?, ?, 'in_progress')
+  `);
+  const result = stmt.run(chatId, sopId, latestVersion?.id ?? null, firstStepId, JSON.stringify([firstStepId]), parentRunId ?? null);
+  
+  const selectStmt = db.prepare('SELECT * FROM sop_runs WHERE id = ?');
+  const row = selectStmt.get(result.lastInsertRowid) as any;
+  return rowToSOPRun(row);
+}
+
+/**
+ * Get a SOP run by ID
+ */
+export function getSOPRun(runId: number): SOPRun | undefined {
+  const row = db.prepare('SELECT * FROM sop_runs WHERE id = ?').get(runId) as any;
+  return row ? rowToSOPRun(row) : undefined;
+}
+
+/**
+ * Get the in-progress child run a run is waiting on, if any
+ */
+function getActiveChildRun(runId: number): SOPRun | undefined {
+  const row = db.prepare(`
+    SELECT * FROM sop_runs
+    WHERE parent_run_id = ? AND status = 'in_progress'
+    ORDER BY id DESC
+    LIMIT 1
+  `).get(runId) as any;
+  return row ? rowToSOPRun(row) : undefined;
+}
+
+/**
+ * Get a run followed by its chain of in-progress child runs, outermost first
+ */
+export function getSOPRunStack(run: SOPRun): SOPRun[] {
+  const stack = [run];
+  let child = getActiveChildRun(run.id);
+  while (child) {
+    stack.push(child);
+    child = getActiveChildRun(child.id);
+  }
+  return stack;
+}
+
+/**
+ * Get the top-level run the user switched to in a chat, if any
+ */
+function getSelectedSOPRun(chatId: number): SOPRun | undefined {
+  const row = db.prepare(`
+    SELECT sop_runs.* FROM chats
+    JOIN sop_runs ON sop_runs.id = chats.active_run_id
+    WHERE chats.id = ?
+  `).get(chatId) as any;
+  return row ? rowToSOPRun(row) : undefined;
+}
+
 /**
  * Get the active SOP run for a chat
+ * This is the selected top-level run while it is in progress; chats without a selection
+ * fall back to their latest in-progress run. While a sub-SOP is running this is the innermost child run
  */
 export function getActiveSOPRun(chatId: number): SOPRun | undefined {
+  const selected = getSelectedSOPRun(chatId);
+  if (selected) {
+    if (selected.status !== 'in_progress') return undefined;
+    const stack = getSOPRunStack(selected);
+    return stack[stack.length - 1];
+  }
+
   const stmt = db.prepare(`
     SELECT * FROM sop_runs 
-    WHERE chat_id = ? AND status = 'in_progress'
-    ORDER BY started_at DESC
+    WHERE chat_id = ? AND status = 'in_progress' AND parent_run_id IS NULL
+    ORDER BY started_at DESC, id DESC
     LIMIT 1
   `);
   const row = stmt.get(chatId) as any;
-  if (row) {
-    return {
-      id: row.id,
-      chatId: row.chat_id,
-      sopId: row.sop_id,
-      currentStepId: row.current_step_id,
-      status: row.status as 'in_progress' | 'completed' | 'paused',
-      startedAt: row.started_at,
-      completedAt: row.completed_at,
-    };
-  }
-  return undefined;
+  if (!row) return undefined;
+
+  const stack = getSOPRunStack(rowToSOPRun(row));
+  return stack[stack.length - 1];
 }
 
 /**
- * Get the most recent SOP run for a chat (including completed runs)
+ * Get the top-level run a chat is on (including completed runs): the selected one, otherwise the latest
+ * Child runs of sub-SOP steps are reached through getSOPRunStack
+ */
+export function getCurrentSOPRun(chatId: number): SOPRun | undefined {
+  return getSelectedSOPRun(chatId) ?? getLatestSOPRun(chatId);
+}
+
+/**
+ * Get every top-level SOP run in a chat, oldest first
+ */
+export function getChatSOPRuns(chatId: number): SOPRun[] {
+  const rows = db.prepare(`
+    SELECT * FROM sop_runs
+    WHERE chat_id = ? AND parent_run_id IS NULL
+    ORDER BY started_at ASC, id ASC
+  `).all(chatId) as any[];
+  return rows.map(rowToSOPRun);
+}
+
+/**
+ * Make a top-level run the one the chat's messages go to
+ */
+export function setChatActiveRun(chatId: number, runId: number): void {
+  const stmt = db.prepare('UPDATE chats SET active_run_id = ? WHERE id = ?');
+  stmt.run(runId, chatId);
+}
+
+/**
+ * Get the most recent top-level SOP run for a chat (including completed runs)
+ * Child runs of sub-SOP steps are reached through getSOPRunStack
  */
 export function getLatestSOPRun(chatId: number): SOPRun | undefined {
   const stmt = db.prepare(`
     SELECT * FROM sop_runs 
-    WHERE chat_id = ?
-    ORDER BY started_at DESC
+    WHERE chat_id = ? AND parent_run_id IS NULL
+    ORDER BY started_at DESC, id DESC
     LIMIT 1
   `);
   const row = stmt.get(chatId) as any;
-  if (row) {
-    return {
-      id: row.id,
-      chatId: row.chat_id,
-      sopId: row.sop_id,
-      currentStepId: row.current_step_id,
-      status: row.status as 'in_progress' | 'completed' | 'paused',
-      startedAt: row.started_at,
-      completedAt: row.completed_at,
-    };
-  }
-  return undefined;
+  return row ? rowToSOPRun(row) : undefined;
 }
 
 /**
- * Update the current step of a SOP run
+ * Update the current step of a SOP run, recording it in the run's step history
  */
 export function updateSOPRunStep(runId: number, stepId: string): void {
-  const stmt = db.prepare('UPDATE sop_runs SET current_step_id = ? WHERE id = ?');
-  stmt.run(stepId, runId);
+  const row = db.prepare('SELECT current_step_id, step_history FROM sop_runs WHERE id = ?').get(runId) as any;
+  if (!row) return;
+
+  const history: string[] = row.step_history ? JSON.parse(row.step_history) : [row.current_step_id];
+  if (history[history.length - 1] !== stepId) {
+    history.push(stepId);
+  }
+
+  const stmt = db.prepare('UPDATE sop_runs SET current_step_id = ?, step_history = ? WHERE id = ?');
+  stmt.run(stepId, JSON.stringify(history), runId);
+}
+
+/**
+ * Record a manual step change for the model to be told about, or clear it with null
+ */
+export function setManualTransition(runId: number, transition: ManualTransition | null): void {
+  const stmt = db.prepare('UPDATE sop_runs SET manual_transition = ? WHERE id = ?');
+  stmt.run(transition ? JSON.stringify(transition) : null, runId);
+}
+
+/**
+ * Hold a step change for the user to confirm, or clear it with null
+ */
+export function setTransitionProposal(runId: number, proposal: StepTransitionProposal | null): void {
+  const stmt = db.prepare('UPDATE sop_runs SET transition_proposal = ? WHERE id = ?');
+  stmt.run(proposal ? JSON.stringify(proposal) : null, runId);
+}
+
+/**
+ * Link a completed run to the generated document that summarizes it
+ */
+export function setRunSummaryDocument(runId: number, documentId: number): void {
+  const stmt = db.prepare('UPDATE sop_runs SET summary_document_id = ? WHERE id = ?');
+  stmt.run(documentId, runId);
+}
+
+/**
+ * Pause, resume or cancel a SOP run, recording why
+ */
+export function setSOPRunStatus(runId: number, status: 'in_progress' | 'paused' | 'cancelled', reason?: string): void {
+  const stmt = db.prepare('UPDATE sop_runs SET status = ?, status_reason = ? WHERE id = ?');
+  stmt.run(status, reason ?? null, runId);
 }
 
 /**
@@ -543,6 +1051,23 @@ export function completeSOPRun(runId: number): void {
   stmt.run('completed', runId);
 }
 
+function rowToStepResult(row: any): StepResult {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    stepId: row.step_id,
+    userInputs: JSON.parse(row.user_inputs || '{}'),
+    aiOutput: row.ai_output,
+    validationStatus: row.validation_status as 'pending' | 'valid' | 'invalid',
+    validationErrors: row.validation_errors ? JSON.parse(row.validation_errors) : undefined,
+    verdict: row.verdict ? JSON.parse(row.verdict) : undefined,
+    documentId: row.document_id ?? undefined,
+    structuredOutput: row.output_type === 'structured' ? JSON.parse(row.ai_output) : undefined,
+    formSubmission: row.output_type === 'form' ? true : undefined,
+    createdAt: row.created_at,
+  };
+}
+
 /**
  * Save a step result
  */
@@ -559,17 +1084,78 @@ export function saveStepResult(
   const result = stmt.run(runId, stepId, JSON.stringify(userInputs), aiOutput);
   
   const selectStmt = db.prepare('SELECT * FROM sop_step_results WHERE id = ?');
-  const row = selectStmt.get(result.lastInsertRowid) as any;
-  return {
-    id: row.id,
-    runId: row.run_id,
-    stepId: row.step_id,
-    userInputs: JSON.parse(row.user_inputs || '{}'),
-    aiOutput: row.ai_output,
-    validationStatus: row.validation_status as 'pending' | 'valid' | 'invalid',
-    validationErrors: row.validation_errors ? JSON.parse(row.validation_errors) : undefined,
-    createdAt: row.created_at,
-  };
+  return rowToStepResult(selectStmt.get(result.lastInsertRowid));
+}
+
+/**
+ * Save the values submitted through a step's input form
+ * The submission is recorded even when it has no values, so the form is no longer pending
+ */
+export function saveStepFormSubmission(
+  runId: number,
+  stepId: string,
+  values: Record<string, StepInputValue>
+): StepResult {
+  const stmt = db.prepare(`
+    INSERT INTO sop_step_results (run_id, step_id, user_inputs, ai_output, validation_status, output_type)
+    VALUES (?, ?, ?, '', 'pending', 'form')
+  `);
+  const result = stmt.run(runId, stepId, JSON.stringify(values));
+
+  const selectStmt = db.prepare('SELECT * FROM sop_step_results WHERE id = ?');
+  return rowToStepResult(selectStmt.get(result.lastInsertRowid));
+}
+
+/**
+ * Save the judge's verdict on a document written during a step
+ * Failed criteria are stored as validation errors
+ */
+export function saveStepOutputVerdict(
+  runId: number,
+  stepId: string,
+  documentId: number,
+  content: string,
+  verdict: OutputVerdict
+): StepResult {
+  const validationErrors = verdict.criteria
+    .filter((c) => !c.passed)
+    .map((c) => `${c.criterion}: ${c.feedback}`);
+
+  const stmt = db.prepare(`
+    INSERT INTO sop_step_results (run_id, step_id, user_inputs, ai_output, validation_status, validation_errors, verdict, document_id)
+    VALUES (?, ?, '{}', ?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    runId,
+    stepId,
+    content,
+    verdict.passed ? 'valid' : 'invalid',
+    validationErrors.length > 0 ? JSON.stringify(validationErrors) : null,
+    JSON.stringify(verdict),
+    documentId
+  );
+
+  const selectStmt = db.prepare('SELECT * FROM sop_step_results WHERE id = ?');
+  return rowToStepResult(selectStmt.get(result.lastInsertRowid));
+}
+
+/**
+ * Save the validated object submitted for a structured output step
+ * The object is stored as JSON in ai_output
+ */
+export function saveStructuredStepOutput(
+  runId: number,
+  stepId: string,
+  output: Record<string, unknown>
+): StepResult {
+  const stmt = db.prepare(`
+    INSERT INTO sop_step_results (run_id, step_id, user_inputs, ai_output, validation_status, output_type)
+    VALUES (?, ?, '{}', ?, 'valid', 'structured')
+  `);
+  const result = stmt.run(runId, stepId, JSON.stringify(output));
+
+  const selectStmt = db.prepare('SELECT * FROM sop_step_results WHERE id = ?');
+  return rowToStepResult(selectStmt.get(result.lastInsertRowid));
 }
 
 /**
@@ -578,77 +1164,224 @@ export function saveStepResult(
 export function getStepResults(runId: number): StepResult[] {
   const stmt = db.prepare('SELECT * FROM sop_step_results WHERE run_id = ? ORDER BY created_at ASC');
   const results = stmt.all(runId) as any[];
-  return results.map(row => ({
+  return results.map(rowToStepResult);
+}
+
+function rowToRunVariable(row: any): RunVariable {
+  return {
+    runId: row.run_id,
+    name: row.name,
+    value: JSON.parse(row.value),
+    source: row.source as RunVariable['source'],
+    stepId: row.step_id ?? undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Set a run variable, replacing any earlier value
+ */
+export function setRunVariable(
+  runId: number,
+  name: string,
+  value: StepInputValue,
+  source: RunVariable['source'],
+  stepId?: string
+): RunVariable {
+  db.prepare(`
+    INSERT INTO sop_run_variables (run_id, name, value, source, step_id, updated_at)
+    VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT (run_id, name) DO UPDATE SET
+      value = excluded.value, source = excluded.source, step_id = excluded.step_id, updated_at = excluded.updated_at
+  `).run(runId, name, JSON.stringify(value), source, stepId ?? null);
+
+  const row = db.prepare('SELECT * FROM sop_run_variables WHERE run_id = ? AND name = ?').get(runId, name);
+  return rowToRunVariable(row);
+}
+
+/**
+ * Get all variables for a run
+ */
+export function getRunVariables(runId: number): RunVariable[] {
+  const rows = db.prepare('SELECT * FROM sop_run_variables WHERE run_id = ? ORDER BY name ASC').all(runId) as any[];
+  return rows.map(rowToRunVariable);
+}
+
+function rowToStepApproval(row: any): StepApproval {
+  return {
     id: row.id,
     runId: row.run_id,
     stepId: row.step_id,
-    userInputs: JSON.parse(row.user_inputs || '{}'),
-    aiOutput: row.ai_output,
-    validationStatus: row.validation_status as 'pending' | 'valid' | 'invalid',
-    validationErrors: row.validation_errors ? JSON.parse(row.validation_errors) : undefined,
+    decision: row.decision as StepApproval['decision'],
+    approver: row.approver,
+    reason: row.reason ?? undefined,
+    historyIndex: row.history_index,
     createdAt: row.created_at,
-  }));
+  };
 }
 
 /**
- * Save a SOP document
+ * Record an approve/reject decision on the run's current visit to a step
  */
-export function saveSOPDocument(runId: number, documentId: string, content: string, contentType: string = 'text'): SOPDocument {
-  const stmt = db.prepare(`
-    INSERT INTO sop_documents (run_id, document_id, content, content_type)
-    VALUES (?, ?, ?, ?)
-  `);
-  const result = stmt.run(runId, documentId, content, contentType);
-  
-  const selectStmt = db.prepare('SELECT * FROM sop_documents WHERE id = ?');
-  const row = selectStmt.get(result.lastInsertRowid) as any;
+export function saveStepApproval(
+  runId: number,
+  stepId: string,
+  historyIndex: number,
+  decision: StepApproval['decision'],
+  approver: string,
+  reason?: string
+): StepApproval {
+  const result = db.prepare(`
+    INSERT INTO sop_step_approvals (run_id, step_id, decision, approver, reason, history_index)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(runId, stepId, decision, approver, reason ?? null, historyIndex);
+
+  const row = db.prepare('SELECT * FROM sop_step_approvals WHERE id = ?').get(result.lastInsertRowid);
+  return rowToStepApproval(row);
+}
+
+function rowToStepTransition(row: any): StepTransition {
   return {
     id: row.id,
     runId: row.run_id,
-    documentId: row.document_id,
-    content: row.content,
-    contentType: row.content_type,
+    sopId: row.sop_id,
+    fromStepId: row.from_step_id,
+    toStepId: row.to_step_id,
+    trigger: row.trigger as StepTransition['trigger'],
+    rationale: row.rationale ?? undefined,
+    confidence: row.confidence ?? undefined,
+    messageId: row.message_id ?? undefined,
     createdAt: row.created_at,
   };
 }
 
 /**
- * Get documents for a SOP run
+ * Record a change of a run's step
  */
-export function getSOPDocuments(runId: number): SOPDocument[] {
-  const stmt = db.prepare('SELECT * FROM sop_documents WHERE run_id = ? ORDER BY created_at ASC');
-  const results = stmt.all(runId) as any[];
-  return results.map(row => ({
+export function recordStepTransition(
+  runId: number,
+  fromStepId: string,
+  toStepId: string,
+  trigger: StepTransition['trigger'],
+  details: { rationale?: string; confidence?: number; messageId?: number } = {}
+): StepTransition {
+  const result = db.prepare(`
+    INSERT INTO sop_step_transitions (run_id, from_step_id, to_step_id, trigger, rationale, confidence, message_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(runId, fromStepId, toStepId, trigger, details.rationale ?? null, details.confidence ?? null, details.messageId ?? null);
+
+  const row = db.prepare(`
+    SELECT t.*, r.sop_id FROM sop_step_transitions t JOIN sop_runs r ON r.id = t.run_id WHERE t.id = ?
+  `).get(result.lastInsertRowid);
+  return rowToStepTransition(row);
+}
+
+/**
+ * Get the step transitions of a single run, oldest first
+ */
+export function getRunStepTransitions(runId: number): StepTransition[] {
+  const rows = db.prepare(`
+    SELECT t.*, r.sop_id FROM sop_step_transitions t
+    JOIN sop_runs r ON r.id = t.run_id
+    WHERE t.run_id = ?
+    ORDER BY t.id ASC
+  `).all(runId) as any[];
+  return rows.map(rowToStepTransition);
+}
+
+/**
+ * Get the step transitions of every run in a chat, including sub-SOP runs, oldest first
+ */
+export function getChatStepTransitions(chatId: number): StepTransition[] {
+  const rows = db.prepare(`
+    SELECT t.*, r.sop_id FROM sop_step_transitions t
+    JOIN sop_runs r ON r.id = t.run_id
+    WHERE r.chat_id = ?
+    ORDER BY t.id ASC
+  `).all(chatId) as any[];
+  return rows.map(rowToStepTransition);
+}
+
+/**
+ * Get all approval decisions for a run, oldest first
+ */
+export function getStepApprovals(runId: number): StepApproval[] {
+  const rows = db.prepare('SELECT * FROM sop_step_approvals WHERE run_id = ? ORDER BY id ASC').all(runId) as any[];
+  return rows.map(rowToStepApproval);
+}
+
+function rowToSOPDocument(row: any): SOPDocument {
+  return {
     id: row.id,
     runId: row.run_id,
     documentId: row.document_id,
     content: row.content,
     contentType: row.content_type,
+    filename: row.filename ?? undefined,
     createdAt: row.created_at,
-  }));
+  };
+}
+
+/**
+ * Save a SOP document
+ * Saving again for the same documentId replaces it; the latest one is used
+ */
+export function saveSOPDocument(
+  runId: number,
+  documentId: string,
+  content: string,
+  contentType: string = 'text',
+  filename?: string
+): SOPDocument {
+  const stmt = db.prepare(`
+    INSERT INTO sop_documents (run_id, document_id, content, content_type, filename)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(runId, documentId, content, contentType, filename ?? null);
+  
+  const selectStmt = db.prepare('SELECT * FROM sop_documents WHERE id = ?');
+  return rowToSOPDocument(selectStmt.get(result.lastInsertRowid));
+}
+
+/**
+ * Get documents for a SOP run, keeping only the latest one for each documentId
+ */
+export function getSOPDocuments(runId: number): SOPDocument[] {
+  const stmt = db.prepare(`
+    SELECT * FROM sop_documents
+    WHERE id IN (SELECT MAX(id) FROM sop_documents WHERE run_id = ? GROUP BY document_id)
+    ORDER BY id ASC
+  `);
+  const results = stmt.all(runId) as any[];
+  return results.map(rowToSOPDocument);
 }
 
 /**
- * Get a specific document for a run
+ * Get the latest version of a specific document for a run
  */
 export function getSOPDocument(runId: number, documentId: string): SOPDocument | undefined {
-  const stmt = db.prepare('SELECT * FROM sop_documents WHERE run_id = ? AND document_id = ?');
+  const stmt = db.prepare('SELECT * FROM sop_documents WHERE run_id = ? AND document_id = ? ORDER BY id DESC LIMIT 1');
   const row = stmt.get(runId, documentId) as any;
-  if (row) {
-    return {
-      id: row.id,
-      runId: row.run_id,
-      documentId: row.document_id,
-      content: row.content,
-      contentType: row.content_type,
-      createdAt: row.created_at,
-    };
+  return row ? rowToSOPDocument(row) : undefined;
+}
+
+/**
+ * Whether version string a is older than b, comparing dot-separated numbers (e.g. "1.0.0" < "1.1.0")
+ */
+function isOlderVersion(a: string, b: string): boolean {
+  const aParts = String(a).split('.').map((part) => parseInt(part, 10) || 0);
+  const bParts = String(b).split('.').map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff !== 0) return diff < 0;
   }
-  return undefined;
+  return false;
 }
 
 /**
- * Seed default SOPs into the database on first launch
+ * Seeds the built-in SOPs, and upgrades stored ones whose version is older than their template
+ * An upgrade is saved as a new version, so the replaced definition can still be restored;
+ * runs stay on the version they started on. SOPs managed by a definition file are left alone
  */
 export function seedDefaultSOPs(): void {
   try {
@@ -661,8 +1394,11 @@ export function seedDefaultSOPs(): void {
         // Check if SOP already exists
         const existing = getSOP(sop.id);
         if (!existing) {
-          saveSOP(sop);
+          saveSOP(sop, { changeNote: 'Initial version' });
           console.log(`Seeded SOP: ${sop.displayName}`);
+        } else if (!existing.sourceFile && isOlderVersion(existing.version, sop.version)) {
+          saveSOP({ ...sop, createdAt: existing.createdAt }, { changeNote: `Upgraded built-in SOP to version ${sop.version}` });
+          console.log(`Upgraded SOP ${sop.displayName} from ${existing.version} to ${sop.version}`);
         }
       } catch (error) {
         console.error(`Error seeding SOP ${sop.id}:`, error);
@@ -677,6 +1413,18 @@ export function seedDefaultSOPs(): void {
 // AI Generated Documents Operations
 // ============================================================================
 
+function rowToAIGeneratedDocument(row: any): AIGeneratedDocument {
+  return {
+    id: row.id,
+    chat_id: row.chat_id,
+    run_id: row.run_id,
+    step_id: row.step_id,
+    document_name: row.document_name,
+    content: row.content,
+    created_at: row.created_at,
+  };
+}
+
 /**
  * Save an AI-generated document
  */
@@ -684,24 +1432,17 @@ export function saveAIGeneratedDocument(
   chatId: number,
   documentName: string,
   content: string,
-  runId?: number
+  runId?: number,
+  stepId?: string
 ): AIGeneratedDocument {
   const stmt = db.prepare(`
-    INSERT INTO ai_generated_documents (chat_id, run_id, document_name, content)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO ai_generated_documents (chat_id, run_id, step_id, document_name, content)
+    VALUES (?, ?, ?, ?, ?)
   `);
-  const result = stmt.run(chatId, runId || null, documentName, content);
+  const result = stmt.run(chatId, runId || null, stepId ?? null, documentName, content);
   
   const selectStmt = db.prepare('SELECT * FROM ai_generated_documents WHERE id = ?');
-  const row = selectStmt.get(result.lastInsertRowid) as any;
-  return {
-    id: row.id,
-    chat_id: row.chat_id,
-    run_id: row.run_id,
-    document_name: row.document_name,
-    content: row.content,
-    created_at: row.created_at,
-  };
+  return rowToAIGeneratedDocument(selectStmt.get(result.lastInsertRowid));
 }
 
 /**
@@ -710,14 +1451,16 @@ export function saveAIGeneratedDocument(
 export function getAIGeneratedDocuments(chatId: number): AIGeneratedDocument[] {
   const stmt = db.prepare('SELECT * FROM ai_generated_documents WHERE chat_id = ? ORDER BY created_at ASC');
   const results = stmt.all(chatId) as any[];
-  return results.map(row => ({
-    id: row.id,
-    chat_id: row.chat_id,
-    run_id: row.run_id,
-    document_name: row.document_name,
-    content: row.content,
-    created_at: row.created_at,
-  }));
+  return results.map(rowToAIGeneratedDocument);
+}
+
+/**
+ * Get the latest AI-generated document written for a step of a run
+ */
+export function getLatestStepDocument(runId: number, stepId: string): AIGeneratedDocument | undefined {
+  const stmt = db.prepare('SELECT * FROM ai_generated_documents WHERE run_id = ? AND step_id = ? ORDER BY id DESC LIMIT 1');
+  const row = stmt.get(runId, stepId) as any;
+  return row ? rowToAIGeneratedDocument(row) : undefined;
 }
 
 /**
@@ -726,17 +1469,7 @@ export function getAIGeneratedDocuments(chatId: number): AIGeneratedDocument[] {
 export function getAIGeneratedDocument(documentId: number): AIGeneratedDocument | undefined {
   const stmt = db.prepare('SELECT * FROM ai_generated_documents WHERE id = ?');
   const row = stmt.get(documentId) as any;
-  if (row) {
-    return {
-      id: row.id,
-      chat_id: row.chat_id,
-      run_id: row.run_id,
-      document_name: row.document_name,
-      content: row.content,
-      created_at: row.created_at,
-    };
-  }
-  return undefined;
+  return row ? rowToAIGeneratedDocument(row) : undefined;
 }
 
 // SOP Draft operations
@@ -826,6 +1559,9 @@ function ensureDatabaseInitialized() {
     isInitialized = true;
     initializeDatabase();
     seedDefaultSOPs();
+    // Import here to avoid circular dependency
+    const { initializeSOPDirectory } = require('./sops/directory');
+    initializeSOPDirectory();
   } catch (error) {
     console.error('Error initializing database:', error);
     isInitialized = false; // Reset on error so it can be retried
@@ -5,6 +5,7 @@
 
 import OpenAI from 'openai';
 import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import type { ModelSettings, SOP, SOPStep } from '@/lib/types/sop';
 
 // ============================================================================
 // Client Initialization
@@ -27,6 +28,26 @@ export const openai = new OpenAI({
  */
 export const DEFAULT_MODEL = process.env.MODEL || 'gpt-5-nano';
 
+/**
+ * Cheap model for small helper calls like step decisions and chat titles
+ */
+export const CHEAP_MODEL = process.env.CHEAP_MODEL || 'gpt-4.1-mini';
+
+/**
+ * Model settings with the model always filled in
+ */
+export type ResolvedModelSettings = ModelSettings & { model: string };
+
+/**
+ * Resolves the completion settings for the current step
+ * Step settings override the SOP's, which override DEFAULT_MODEL
+ */
+export function resolveModelSettings(sop?: SOP, stepId?: string): ResolvedModelSettings {
+  const step = stepId ? sop?.steps.find((s) => s.id === stepId) : undefined;
+  const settings: ModelSettings = { ...sop?.modelSettings, ...step?.modelSettings };
+  return { ...settings, model: settings.model || DEFAULT_MODEL };
+}
+
 // ============================================================================
 // Tool Definitions
 // ============================================================================
@@ -61,6 +82,58 @@ export const writeDocumentTool: ChatCompletionTool = {
   },
 };
 
+/**
+ * Set variable tool for SOP workflows
+ * Stores a named fact for the run so later steps and templates can use it
+ */
+export const setVariableTool: ChatCompletionTool = {
+  type: 'function',
+  function: {
+    name: 'set_variable',
+    description: 'Records a fact gathered during this SOP run (e.g. the client name) as a run variable. Variables fill {{name}} placeholders in step descriptions and output format templates, and branch rules can check them. Setting a variable again replaces its value.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'The variable name, in snake_case (e.g. "client_name")',
+        },
+        value: {
+          type: 'string',
+          description: 'The value to store',
+        },
+      },
+      required: ['name', 'value'],
+    },
+  },
+};
+
+/**
+ * Name of the tool a structured output step submits its object with
+ * It isn't listed in providedTools; structured output steps always get it
+ */
+export const SUBMIT_STEP_OUTPUT_TOOL = 'submit_step_output';
+
+/**
+ * Builds the submit tool for a structured output step
+ * Its parameters are the step's output schema, so the model fills in exactly that object
+ */
+export function getSubmitStepOutputTool(step: SOPStep): ChatCompletionTool | null {
+  const schema = step.expectedOutput?.type === 'structured' ? step.expectedOutput.schema : undefined;
+  if (!schema) {
+    return null;
+  }
+
+  return {
+    type: 'function',
+    function: {
+      name: SUBMIT_STEP_OUTPUT_TOOL,
+      description: `Submits the structured output of the step "${step.assistantFacingTitle}"${step.expectedOutput.description ? `: ${step.expectedOutput.description}` : ''}. The object is checked against the step's schema and shown to the user as a table. Submitting again replaces the earlier output.`,
+      parameters: schema as Record<string, unknown>,
+    },
+  };
+}
+
 /**
  * Display SOP to user tool for SOP management (template)
  * Retrieves and displays an existing SOP
@@ -100,6 +173,10 @@ export const overwriteSOPTool: ChatCompletionTool = {
           type: 'string',
           description: 'REQUIRED: The complete modified SOP as a JSON string with all fields',
         },
+        changeNote: {
+          type: 'string',
+          description: 'Short summary of what changed and why, recorded in the SOP version history',
+        },
       },
       required: ['modifiedSOP'],
     },
@@ -151,6 +228,19 @@ export const deleteSOPTool: ChatCompletionTool = {
   },
 };
 
+/**
+ * Names of every tool the app knows how to execute
+ * SOP providedTools entries must come from this list
+ */
+export const REGISTERED_TOOLS: string[] = [
+  writeDocumentTool,
+  setVariableTool,
+  displaySOPTool,
+  overwriteSOPTool,
+  createSOPTool,
+  deleteSOPTool,
+].map((tool) => tool.function.name);
+
 // ============================================================================
 // Dynamic Tool Generation (with actual SOP IDs from database)
 // ============================================================================
@@ -177,6 +267,19 @@ export function getSopManagementTools(): ChatCompletionTool[] {
   return [displaySOPToolDynamic, deleteSOPToolDynamic];
 }
 
+/**
+ * Gets the definitions for the named tools, in registration order
+ * SOP management tools get dynamic descriptions; the submit tool is built from the step's schema
+ */
+export function getToolDefinitions(toolNames: string[], step?: SOPStep): ChatCompletionTool[] {
+  if (toolNames.length === 0) {
+    return [];
+  }
+  const submitTool = step && toolNames.includes(SUBMIT_STEP_OUTPUT_TOOL) ? getSubmitStepOutputTool(step) : null;
+  return [writeDocumentTool, setVariableTool, ...getAllSopManagementTools(), ...(submitTool ? [submitTool] : [])]
+    .filter((tool) => toolNames.includes(tool.function.name));
+}
+
 /**
  * Gets all SOP management tools with dynamic descriptions
  * This includes: display_sop_to_user, overwrite_sop, create_sop, delete_sop
@@ -3,8 +3,9 @@
  * Handles streaming responses from OpenAI with tool execution
  */
 
-import { openai } from '@/lib/openai';
+import { openai, type ResolvedModelSettings } from '@/lib/openai';
 import { executeSingleTool, convertToolResultsToMessages, type ToolCall, type ToolExecutionContext } from './tools';
+import { judgeWriteDocumentResult } from './outputJudge';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 
 export interface StreamData {
@@ -18,6 +19,7 @@ export interface StreamData {
   messagesToSave?: ChatCompletionMessageParam[]; // Tool call and result messages to persist
   documentName?: string;
   html?: string;
+  model?: string; // Model that produced the response (sent with 'done')
 }
 
 /**
@@ -116,7 +118,7 @@ function extractPartialHtmlFromWriteDocumentArgs(args: string | undefined): { ht
  * Yields content and tool calls as they arrive.
  */
 export async function* streamCompletionWithTools(
-  model: string,
+  settings: ResolvedModelSettings,
   messages: ChatCompletionMessageParam[],
   tools: any[]
 ): AsyncGenerator<{
@@ -125,11 +127,14 @@ export async function* streamCompletionWithTools(
   toolCalls?: ToolCall[];
   finishReason?: string;
 }> {
+  // The API rejects an empty tools list, so steps without tools omit it
   const completion = await openai.chat.completions.create({
-    model,
+    model: settings.model,
     messages,
-    tools,
-    tool_choice: 'auto',
+    ...(tools.length > 0 && { tools, tool_choice: 'auto' as const }),
+    // Only send optional settings that were configured; not every model accepts them
+    ...(settings.temperature !== undefined && { temperature: settings.temperature }),
+    ...(settings.reasoningEffort && { reasoning_effort: settings.reasoningEffort }),
     stream: true,
   });
 
@@ -216,23 +221,25 @@ export async function* streamFinalCompletion(
  * Orchestrates the entire streaming flow including tool execution
  */
 export async function* handleChatStream(
-  model: string,
+  settings: ResolvedModelSettings,
   initialMessages: ChatCompletionMessageParam[],
   tools: any[],
   toolContext?: ToolExecutionContext
 ): AsyncGenerator<StreamData> {
   const MAX_TOOL_ROUNDS = 3;
+  // Each revision the judge asks for gets its own extra round
+  let maxRounds = MAX_TOOL_ROUNDS;
   let conversationMessages = [...initialMessages];
   let toolStartEmitted = false;
   let lastDocumentPreview: string | null = null;
 
   // Allow multiple rounds of tool calls before a final user-facing answer.
-  for (let round = 1; round <= MAX_TOOL_ROUNDS; round++) {
+  for (let round = 1; round <= maxRounds; round++) {
     let lastRoundToolCalls: ToolCall[] | undefined;
     let lastRoundFinishReason: string | undefined;
 
     for await (const chunk of streamCompletionWithTools(
-      model,
+      settings,
       conversationMessages,
       tools
     )) {
@@ -289,6 +296,14 @@ export async function* handleChatStream(
       for (const toolCall of lastRoundToolCalls) {
         const executionResult = executeSingleTool(toolCall, toolContext);
 
+        // Grade written documents before the model sees the result, so it can revise
+        if (toolCall.function.name === 'write_document' && !executionResult.metadata?.blocked) {
+          const revisionRequested = await judgeWriteDocumentResult(executionResult, toolContext);
+          if (revisionRequested) {
+            maxRounds++;
+          }
+        }
+
         // Convert tool results to messages that should be saved to database
         const toolMessages = convertToolResultsToMessages(toolCall, executionResult);
 
@@ -316,6 +331,7 @@ export async function* handleChatStream(
   // Signal completion to the caller.
   yield {
     type: 'done',
+    model: settings.model,
   };
 }
 
@@ -7,6 +7,7 @@
 import { z } from 'zod';
 import createInstructor from '@instructor-ai/instructor';
 import OpenAI from 'openai';
+import { CHEAP_MODEL } from '@/lib/openai';
 import type { SOP } from '@/lib/types/sop';
 
 // Schema for the generated chat title
@@ -73,7 +74,7 @@ Rules:
 - Do NOT include step numbers or SOP IDs unless they are essential.`;
 
     const result = await client.chat.completions.create({
-      model: process.env.CHEAP_MODEL || 'gpt-4.1-mini',
+      model: CHEAP_MODEL,
       messages: [
         {
           role: 'user',
@@ -0,0 +1,186 @@
+/**
+ * Document slot service
+ * Maps uploads and pasted text to the SOP's declared userDocuments and stores
+ * them in sop_documents, using Instructor with a cheap model when the match isn't obvious
+ */
+
+import { z } from 'zod';
+import createInstructor from '@instructor-ai/instructor';
+import OpenAI from 'openai';
+import { CHEAP_MODEL } from '@/lib/openai';
+import { getSOPDocuments, saveSOPDocument } from '@/lib/db';
+import type { SOP, SOPDocument, SOPRun } from '@/lib/types/sop';
+
+/**
+ * A declared userDocuments entry
+ */
+export type DocumentSlot = SOP['userDocuments'][number];
+
+/**
+ * An uploaded file as stored in a message's file_attachments
+ */
+export interface UploadedAttachment {
+  filename: string;
+  file_type: string;
+  file_id?: string;
+  is_image?: boolean;
+  is_pdf?: boolean;
+  requires_text_extraction?: boolean;
+  extracted_text?: string;
+}
+
+// Pasted messages shorter than this are treated as conversation, not documents
+const MIN_PASTED_DOCUMENT_LENGTH = 500;
+
+// How much of each candidate the classifier sees
+const PREVIEW_LENGTH = 1500;
+
+interface Candidate {
+  filename?: string;
+  content: string;
+  contentType: 'text' | 'openai-file';
+  preview: string;
+}
+
+/**
+ * Declared slots that don't have a document yet
+ */
+export function getUnfilledSlots(sop: SOP, documents: SOPDocument[]): DocumentSlot[] {
+  const filled = new Set(documents.map((d) => d.documentId));
+  return (sop.userDocuments || []).filter((slot) => !filled.has(slot.id));
+}
+
+/**
+ * Required slots that don't have a document yet
+ */
+export function getMissingRequiredDocuments(sop: SOP, documents: SOPDocument[]): DocumentSlot[] {
+  return getUnfilledSlots(sop, documents).filter((slot) => slot.required);
+}
+
+/**
+ * Whether the run is held on the SOP's first step until required documents are provided
+ */
+export function isWaitingForDocuments(sop: SOP, run: SOPRun, documents: SOPDocument[]): boolean {
+  return run.currentStepId === sop.steps[0]?.id && getMissingRequiredDocuments(sop, documents).length > 0;
+}
+
+/**
+ * Turns the attachments and pasted text of a message into slot candidates
+ * Images aren't stored as documents
+ */
+function getCandidates(message: string, attachments: UploadedAttachment[]): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const attachment of attachments) {
+    if (attachment.extracted_text) {
+      candidates.push({
+        filename: attachment.filename,
+        content: attachment.extracted_text,
+        contentType: 'text',
+        preview: attachment.extracted_text.slice(0, PREVIEW_LENGTH),
+      });
+    } else if (attachment.is_pdf && attachment.file_id) {
+      candidates.push({
+        filename: attachment.filename,
+        content: attachment.file_id,
+        contentType: 'openai-file',
+        preview: '(PDF; contents not available for preview)',
+      });
+    }
+  }
+
+  if (message.trim().length >= MIN_PASTED_DOCUMENT_LENGTH) {
+    candidates.push({
+      content: message.trim(),
+      contentType: 'text',
+      preview: message.trim().slice(0, PREVIEW_LENGTH),
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Asks the cheap model which candidates fill which slots
+ * Returns candidate index -> slot ID; returns {} on failure
+ */
+async function classifyCandidates(candidates: Candidate[], slots: DocumentSlot[]): Promise<Record<number, string>> {
+  try {
+    const ClassificationSchema = z.object({
+      assignments: z.array(
+        z.object({
+          candidate: z.number().int().describe('Index of the candidate'),
+          documentId: z.string().describe('id of the document slot it fills'),
+        })
+      ),
+    });
+
+    const client = createInstructor({
+      client: new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      }),
+      mode: 'TOOLS',
+    });
+
+    const prompt = `A user is providing documents for a procedure. Decide which of the candidates below is which expected document. Only assign a candidate when it clearly is that document; a pasted candidate that is just a chat message is not a document. Each document and each candidate can be assigned at most once. Leave anything unclear unassigned.
+
+Expected documents:
+${slots.map((slot) => `- ${slot.id}: ${slot.name} — ${slot.description}`).join('\n')}
+
+Candidates:
+${candidates.map((c, i) => `[${i}] ${c.filename ? `File "${c.filename}"` : 'Pasted text'}\n${c.preview}`).join('\n\n')}`;
+
+    const result = await client.chat.completions.create({
+      model: CHEAP_MODEL,
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      response_model: {
+        schema: ClassificationSchema,
+        name: 'DocumentAssignments',
+      },
+    });
+
+    const slotIds = new Set(slots.map((slot) => slot.id));
+    const assignments: Record<number, string> = {};
+    for (const { candidate, documentId } of (result as z.infer<typeof ClassificationSchema>).assignments) {
+      if (candidates[candidate] && slotIds.has(documentId) && !Object.values(assignments).includes(documentId)) {
+        assignments[candidate] = documentId;
+      }
+    }
+    return assignments;
+  } catch (error) {
+    console.error('Error classifying documents:', error);
+    return {};
+  }
+}
+
+/**
+ * Stores a message's uploads and pasted text in the run's unfilled document slots
+ * A single upload with a single unfilled slot is stored directly; anything else is classified
+ * Returns the documents that were saved
+ */
+export async function fillDocumentSlots(
+  sop: SOP,
+  run: SOPRun,
+  message: string,
+  attachments: UploadedAttachment[]
+): Promise<SOPDocument[]> {
+  const slots = getUnfilledSlots(sop, getSOPDocuments(run.id));
+  const candidates = getCandidates(message, attachments);
+  if (slots.length === 0 || candidates.length === 0) {
+    return [];
+  }
+
+  const assignments = candidates.length === 1 && slots.length === 1 && candidates[0].filename
+    ? { 0: slots[0].id }
+    : await classifyCandidates(candidates, slots);
+
+  return Object.entries(assignments).map(([index, documentId]) => {
+    const candidate = candidates[Number(index)];
+    return saveSOPDocument(run.id, documentId, candidate.content, candidate.contentType, candidate.filename);
+  });
+}
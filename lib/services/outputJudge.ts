@@ -0,0 +1,172 @@
+/**
+ * Output judge service
+ * Grades documents written during a step against the step's acceptance criteria
+ * and its output format's requirements, using Instructor with a cheap model
+ */
+
+import { z } from 'zod';
+import createInstructor from '@instructor-ai/instructor';
+import OpenAI from 'openai';
+import { CHEAP_MODEL } from '@/lib/openai';
+import { getStepResults, saveStepOutputVerdict } from '@/lib/db';
+import type { OutputVerdict, SOP, SOPStep } from '@/lib/types/sop';
+import type { ToolExecutionContext, ToolExecutionResult } from './tools';
+
+/**
+ * How many times the model is asked to revise a document that fails its criteria
+ */
+export const MAX_OUTPUT_REVISIONS = Number(process.env.MAX_OUTPUT_REVISIONS ?? 2);
+
+// Schema for the judge's structured verdict
+const VerdictSchema = z.object({
+  criteria: z.array(
+    z.object({
+      criterion: z.string().describe('The criterion being graded, copied exactly'),
+      passed: z.boolean(),
+      feedback: z.string().describe('Why it passed, or exactly what must change to pass'),
+    })
+  ),
+  summary: z.string().describe('One or two sentences on the overall quality of the document'),
+});
+
+/**
+ * Collects the criteria a step's documents are graded against:
+ * the step's acceptanceCriteria followed by its output format's requirements
+ */
+export function getAcceptanceCriteria(sop: SOP, step: SOPStep): string[] {
+  const format = step.expectedOutput.format
+    ? (sop.assistantOutputFormats || []).find((f) => f.id === step.expectedOutput.format)
+    : undefined;
+  const criteria = [...(step.acceptanceCriteria || []), ...(format?.requirements || [])];
+  return Array.from(new Set(criteria.map((c) => c.trim()).filter(Boolean)));
+}
+
+/**
+ * Grades a document against the given criteria
+ * Returns null if the judge call fails, so a judge outage never blocks the step
+ */
+export async function judgeStepOutput(
+  sop: SOP,
+  step: SOPStep,
+  criteria: string[],
+  content: string
+): Promise<OutputVerdict | null> {
+  try {
+    const client = createInstructor({
+      client: new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      }),
+      mode: 'TOOLS',
+    });
+
+    const prompt = `You are reviewing a document written for one step of a standard operating procedure. Grade it strictly against each acceptance criterion. A criterion passes only if the document clearly satisfies it.
+
+SOP: ${sop.displayName}
+Step: ${step.assistantFacingTitle} (${step.id})
+Step description: ${step.description}
+${step.expectedOutput.description ? `Expected output: ${step.expectedOutput.description}\n` : ''}
+Acceptance criteria:
+${criteria.map((c, i) => `${i + 1}. ${c}`).join('\n')}
+
+Document:
+${content}
+
+Grade every criterion above, in order.`;
+
+    const result = await client.chat.completions.create({
+      model: CHEAP_MODEL,
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      response_model: {
+        schema: VerdictSchema,
+        name: 'OutputVerdict',
+      },
+    });
+
+    // Grade against our own criteria list so a skipped criterion counts as a failure
+    const graded = (result as z.infer<typeof VerdictSchema>).criteria;
+    const results = criteria.map((criterion, i) => {
+      const match = graded.find((g) => g.criterion.trim() === criterion) || graded[i];
+      return match
+        ? { criterion, passed: match.passed, feedback: match.feedback }
+        : { criterion, passed: false, feedback: 'The judge did not grade this criterion.' };
+    });
+
+    return {
+      passed: results.every((r) => r.passed),
+      criteria: results,
+      summary: (result as z.infer<typeof VerdictSchema>).summary,
+    };
+  } catch (error) {
+    console.error('Error judging step output:', error);
+    return null;
+  }
+}
+
+/**
+ * Counts the failed verdicts for a step since its last passing one
+ */
+function countConsecutiveFailures(runId: number, stepId: string): number {
+  const verdicts = getStepResults(runId).filter((r) => r.stepId === stepId && r.verdict);
+  let failures = 0;
+  for (let i = verdicts.length - 1; i >= 0 && !verdicts[i].verdict!.passed; i--) {
+    failures++;
+  }
+  return failures;
+}
+
+/**
+ * Judges a successful write_document call and records the verdict
+ * A failing document gets revision instructions in its tool result until
+ * MAX_OUTPUT_REVISIONS is reached. Returns whether a revision was requested
+ */
+export async function judgeWriteDocumentResult(
+  executionResult: ToolExecutionResult,
+  context?: ToolExecutionContext
+): Promise<boolean> {
+  const documentId = executionResult.metadata?.documentId;
+  const step = context?.sop?.steps.find((s) => s.id === executionResult.args?.stepId);
+  if (!documentId || !context?.sop || !step) {
+    return false;
+  }
+
+  const criteria = getAcceptanceCriteria(context.sop, step);
+  if (criteria.length === 0) {
+    return false;
+  }
+
+  const verdict = await judgeStepOutput(context.sop, step, criteria, executionResult.args.content);
+  if (!verdict) {
+    return false;
+  }
+
+  let failures = verdict.passed ? 0 : 1;
+  if (context.sopRunId) {
+    saveStepOutputVerdict(context.sopRunId, step.id, documentId, executionResult.args.content, verdict);
+    failures = countConsecutiveFailures(context.sopRunId, step.id);
+  }
+
+  executionResult.metadata = { ...executionResult.metadata, verdict };
+
+  if (verdict.passed) {
+    executionResult.result = `${executionResult.result}\n\nThe document passed all ${criteria.length} acceptance criteria.`;
+    return false;
+  }
+
+  const failed = verdict.criteria
+    .filter((c) => !c.passed)
+    .map((c) => `- ${c.criterion}: ${c.feedback}`)
+    .join('\n');
+
+  if (failures > MAX_OUTPUT_REVISIONS) {
+    executionResult.result = `${executionResult.result}\n\nThe document still fails these acceptance criteria and the revision limit has been reached:\n${failed}\n\nDo not call write_document again for this step. Tell the user which criteria were not met and ask how they would like to proceed.`;
+    return false;
+  }
+
+  executionResult.result = `${executionResult.result}\n\nThe document failed these acceptance criteria:\n${failed}\n\nRevise the document to address every failed criterion and call write_document again immediately with the complete revised document (revision ${failures} of ${MAX_OUTPUT_REVISIONS}).`;
+  return true;
+}
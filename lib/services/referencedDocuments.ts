@@ -0,0 +1,122 @@
+/**
+ * Referenced documents service
+ * Resolves a step's referencedDocuments to the run's user documents and earlier
+ * AI-generated documents, and fits them into a token budget for the prompt
+ */
+
+import { load } from 'cheerio';
+import { getLatestStepDocument, getSOPDocument } from '@/lib/db';
+import type { SOP, SOPStep } from '@/lib/types/sop';
+
+/**
+ * Approximate token budget for all of a step's referenced documents in the prompt
+ */
+export const REFERENCED_DOCUMENTS_TOKEN_BUDGET = Number(process.env.REFERENCED_DOCUMENTS_TOKEN_BUDGET ?? 12000);
+
+// Rough size of a token, used to turn the budget into characters
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * A referenced document resolved for the current run
+ */
+export interface ReferencedDocument {
+  // The referencedDocuments entry: a userDocuments id or a step id
+  ref: string;
+  // How the document viewer selects it: "user:<slot id>" or "generated:<document id>"
+  key: string;
+  name: string;
+  source: 'user' | 'generated';
+  // Plain text for the prompt
+  content: string;
+  // Set when content was cut down to fit the budget
+  excerpted?: boolean;
+}
+
+/**
+ * Converts a generated HTML document to plain text for the prompt
+ */
+function htmlToText(html: string): string {
+  const $ = load(html);
+  $('head, style, script').remove();
+  // Keep block elements on their own lines
+  $('p, div, h1, h2, h3, h4, h5, h6, li, tr, br').after('\n');
+  $('td, th').after('\t');
+  return $.root().text().replace(/\n\s*\n+/g, '\n\n').trim();
+}
+
+/**
+ * Resolves a step's referencedDocuments for a run
+ * Entries that match a userDocuments id use the document the user provided;
+ * entries that match a step id use the latest document written for that step.
+ * References with nothing to show yet are left out
+ */
+export function resolveReferencedDocuments(sop: SOP, step: SOPStep, runId: number): ReferencedDocument[] {
+  const resolved: ReferencedDocument[] = [];
+
+  for (const ref of step.referencedDocuments || []) {
+    const slot = (sop.userDocuments || []).find((d) => d.id === ref);
+    if (slot) {
+      const doc = getSOPDocument(runId, ref);
+      if (doc) {
+        resolved.push({
+          ref,
+          key: `user:${ref}`,
+          name: slot.name,
+          source: 'user',
+          content: doc.contentType === 'openai-file'
+            ? `(Uploaded as the PDF "${doc.filename}", which is attached to the user's message in the conversation.)`
+            : doc.content,
+        });
+      }
+      continue;
+    }
+
+    if (sop.steps.some((s) => s.id === ref)) {
+      const doc = getLatestStepDocument(runId, ref);
+      if (doc) {
+        resolved.push({
+          ref,
+          key: `generated:${doc.id}`,
+          name: doc.document_name,
+          source: 'generated',
+          content: htmlToText(doc.content),
+        });
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Cuts text down to maxChars, keeping the beginning and the end
+ */
+function excerpt(text: string, maxChars: number): string {
+  const headLength = Math.floor(maxChars * 0.7);
+  const tailLength = Math.max(maxChars - headLength, 0);
+  const omitted = text.length - headLength - tailLength;
+  return `${text.slice(0, headLength)}\n\n[... ${omitted} characters omitted ...]\n\n${tailLength > 0 ? text.slice(-tailLength) : ''}`;
+}
+
+/**
+ * Fits documents into the token budget
+ * Smaller documents are kept whole; larger ones share what is left as excerpts
+ */
+export function fitDocumentsToBudget(
+  documents: ReferencedDocument[],
+  budgetTokens: number = REFERENCED_DOCUMENTS_TOKEN_BUDGET
+): ReferencedDocument[] {
+  let remaining = budgetTokens * CHARS_PER_TOKEN;
+  const fitted = new Map<ReferencedDocument, ReferencedDocument>();
+
+  // Smallest first, so one huge document can't crowd out the rest
+  const bySize = [...documents].sort((a, b) => a.content.length - b.content.length);
+  bySize.forEach((doc, i) => {
+    const share = Math.floor(remaining / (bySize.length - i));
+    const fits = doc.content.length <= share;
+    fitted.set(doc, fits ? doc : { ...doc, content: excerpt(doc.content, share), excerpted: true });
+    remaining -= Math.min(doc.content.length, share);
+  });
+
+  return documents.map((doc) => fitted.get(doc)!);
+}
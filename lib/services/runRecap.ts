@@ -0,0 +1,138 @@
+/**
+ * Run recap service
+ * Uses Instructor with a cheap model to write the "welcome back" message
+ * shown when a paused SOP run is resumed
+ */
+
+import { z } from 'zod';
+import createInstructor from '@instructor-ai/instructor';
+import OpenAI from 'openai';
+import { CHEAP_MODEL } from '@/lib/openai';
+import { getStepResults, getRunVariables } from '@/lib/db';
+import type { SOP, SOPRun } from '@/lib/types/sop';
+import { formatVariableValue } from '@/lib/utils/templates';
+
+// Schema for the generated recap
+const RunRecapSchema = z.object({
+  recap: z.string().min(1, 'Recap must not be empty'),
+});
+
+/**
+ * A recap and the model that wrote it; model is absent for the plain fallback text
+ */
+export interface RunRecap {
+  text: string;
+  model?: string;
+}
+
+function getStepTitle(sop: SOP, stepId: string): string {
+  const step = sop.steps.find((s) => s.id === stepId);
+  return step ? step.userFacingTitle || step.assistantFacingTitle : stepId;
+}
+
+/**
+ * The recap used when the model can't be reached: where the run stands, without a summary of the conversation
+ */
+function getFallbackRecap(run: SOPRun, sop: SOP): RunRecap {
+  const stepIndex = sop.steps.findIndex((s) => s.id === run.currentStepId);
+  const position = stepIndex >= 0 ? ` (step ${stepIndex + 1} of ${sop.steps.length})` : '';
+  return {
+    text: `Welcome back! We're picking up "${sop.displayName}" where we left off, on "${getStepTitle(sop, run.currentStepId)}"${position}.`,
+  };
+}
+
+/**
+ * Generate a "welcome back, here's where we were" message for a resumed run
+ * Summarizes the steps done so far, what they produced and what the current step still needs,
+ * based on the run's history and the recent conversation.
+ *
+ * @param run - The run being resumed, on the step it was paused on
+ * @param sop - The SOP version the run follows
+ * @param history - Recent conversation messages in storage format (role/content)
+ * @returns The recap and the model that wrote it, falling back to a plain statement of the current step
+ */
+export async function generateRunRecap(
+  run: SOPRun,
+  sop: SOP,
+  history: Array<{ role: string; content: string | null }>
+): Promise<RunRecap> {
+  try {
+    if (!process.env.OPENAI_API_KEY) {
+      console.warn('OPENAI_API_KEY is not set; using a plain run recap.');
+      return getFallbackRecap(run, sop);
+    }
+
+    const client = createInstructor({
+      client: new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      }),
+      mode: 'TOOLS',
+    });
+
+    const recentMessages = history
+      .filter((m) => m.content && (m.role === 'user' || m.role === 'assistant'))
+      .slice(-10)
+      .map((m) => `${m.role.toUpperCase()}: ${m.content}`)
+      .join('\n');
+
+    const visitedSteps = Array.from(new Set(run.stepHistory))
+      .map((stepId) => `- ${getStepTitle(sop, stepId)}${stepId === run.currentStepId ? ' (current)' : ''}`)
+      .join('\n');
+
+    const outputs = getStepResults(run.id)
+      .filter((result) => result.aiOutput)
+      .map((result) => `- ${getStepTitle(sop, result.stepId)}: ${result.aiOutput.slice(0, 300)}`)
+      .join('\n');
+
+    const variables = getRunVariables(run.id)
+      .map((v) => `- ${v.name}: ${formatVariableValue(v.value)}`)
+      .join('\n');
+
+    const currentStep = sop.steps.find((s) => s.id === run.currentStepId);
+
+    const prompt = `You are helping a user pick up a paused process. Write a short "welcome back, here's where we were" message.
+
+Process: ${sop.displayName}
+Paused because: ${run.statusReason || '(no reason given)'}
+
+Steps so far:
+${visitedSteps}
+
+Recorded outputs:
+${outputs || '(none)'}
+
+Collected values:
+${variables || '(none)'}
+
+Current step: ${currentStep ? `${getStepTitle(sop, currentStep.id)}: ${currentStep.description}` : '(none)'}
+
+Recent conversation:
+${recentMessages || '(no messages yet)'}
+
+Rules:
+- Start by welcoming the user back.
+- In 2–4 sentences, recap what has been done and what the current step still needs from them.
+- End with a concrete question or prompt to continue the current step.
+- Address the user directly and don't mention step IDs.`;
+
+    const result = await client.chat.completions.create({
+      model: CHEAP_MODEL,
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      response_model: {
+        schema: RunRecapSchema,
+        name: 'RunRecap',
+      },
+    });
+
+    const recap = (result as z.infer<typeof RunRecapSchema>).recap.trim();
+    return recap ? { text: recap, model: CHEAP_MODEL } : getFallbackRecap(run, sop);
+  } catch (error) {
+    console.error('Error generating run recap:', error);
+    return getFallbackRecap(run, sop);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Run completion summary
+ * Writes a document listing what each step of a finished run produced,
+ * so the outcome can be reviewed without reading back through the chat
+ */
+
+import { getAIGeneratedDocuments, getRunVariables, getStepResults, saveAIGeneratedDocument, setRunSummaryDocument, type AIGeneratedDocument } from '@/lib/db';
+import type { SOP, SOPRun, StepResult } from '@/lib/types/sop';
+import { formatStepInputs } from '@/lib/utils/step-inputs';
+import { formatVariableValue } from '@/lib/utils/templates';
+import { DONE_STEP_ID } from '@/lib/utils/sop-graph';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders a structured output as a table of fields; nested values are shown as JSON
+ */
+function renderStructuredOutput(output: Record<string, unknown>): string {
+  const rows = Object.entries(output).map(([name, value]) => {
+    const text = value !== null && typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value ?? '');
+    return `<tr><th>${escapeHtml(name)}</th><td><pre>${escapeHtml(text)}</pre></td></tr>`;
+  });
+  return `<table>${rows.join('')}</table>`;
+}
+
+/**
+ * Renders what a step produced: its form inputs, structured output or recorded output, and its documents
+ */
+function renderStepOutputs(sop: SOP, stepId: string, results: StepResult[], documents: AIGeneratedDocument[]): string {
+  const step = sop.steps.find((s) => s.id === stepId);
+  const parts: string[] = [];
+
+  const inputs = Object.assign({}, ...results.map((result) => result.userInputs));
+  if (Object.keys(inputs).length > 0) {
+    parts.push(`<pre>${escapeHtml(formatStepInputs(step?.inputFields || [], inputs))}</pre>`);
+  }
+
+  const latest = results[results.length - 1];
+  if (latest?.structuredOutput) {
+    parts.push(renderStructuredOutput(latest.structuredOutput));
+  } else if (latest?.aiOutput) {
+    parts.push(`<p>${escapeHtml(latest.aiOutput)}</p>`);
+  }
+
+  if (documents.length > 0) {
+    parts.push(`<p>Documents:</p><ul>${documents.map((doc) => `<li>${escapeHtml(doc.document_name)}</li>`).join('')}</ul>`);
+  }
+
+  const title = step ? step.userFacingTitle || step.assistantFacingTitle : stepId;
+  return `<h2>${escapeHtml(title)}</h2>${parts.length > 0 ? parts.join('') : '<p>No recorded output.</p>'}`;
+}
+
+/**
+ * Builds the completion summary of a run as an HTML document
+ * Steps are listed in the order the run first visited them
+ */
+export function buildRunSummaryHtml(run: SOPRun, sop: SOP): string {
+  const results = getStepResults(run.id);
+  const documents = getAIGeneratedDocuments(run.chatId).filter((doc) => doc.run_id === run.id);
+  const visited = Array.from(new Set(run.stepHistory)).filter((stepId) => stepId !== DONE_STEP_ID);
+
+  const sections = visited.map((stepId) =>
+    renderStepOutputs(
+      sop,
+      stepId,
+      results.filter((result) => result.stepId === stepId),
+      documents.filter((doc) => doc.step_id === stepId)
+    )
+  );
+
+  // Documents written before step IDs were recorded can't be placed under a step
+  const unplaced = documents.filter((doc) => !doc.step_id || !visited.includes(doc.step_id));
+  if (unplaced.length > 0) {
+    sections.push(`<h2>Other documents</h2><ul>${unplaced.map((doc) => `<li>${escapeHtml(doc.document_name)}</li>`).join('')}</ul>`);
+  }
+
+  const variables = getRunVariables(run.id);
+  if (variables.length > 0) {
+    const rows = variables.map((v) => `<tr><th>${escapeHtml(v.name)}</th><td>${escapeHtml(formatVariableValue(v.value))}</td></tr>`);
+    sections.push(`<h2>Variables</h2><table>${rows.join('')}</table>`);
+  }
+
+  const completedAt = run.completedAt ? new Date(run.completedAt).toLocaleString('en-US') : new Date().toLocaleString('en-US');
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(sop.displayName)}: completion summary</title></head>
+<body>
+<h1>${escapeHtml(sop.displayName)}: completion summary</h1>
+<p>Completed ${escapeHtml(completedAt)} after ${visited.length} step${visited.length === 1 ? '' : 's'}.</p>
+${sections.join('\n')}
+</body>
+</html>`;
+}
+
+/**
+ * Saves the completion summary of a finished run as a generated document and links it to the run
+ */
+export function createRunSummary(run: SOPRun, sop: SOP): AIGeneratedDocument {
+  const document = saveAIGeneratedDocument(run.chatId, `${sop.displayName} – Completion summary`, buildRunSummaryHtml(run, sop), run.id);
+  setRunSummaryDocument(run.id, document.id);
+  return document;
+}
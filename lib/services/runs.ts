@@ -0,0 +1,357 @@
+/**
+ * SOP run service
+ * Starts runs and moves them between steps, including sub-SOP steps that
+ * run another SOP as a child run and hand control back when it finishes
+ */
+
+import {
+  getSOP,
+  getSOPRun,
+  getSOPForRun,
+  createSOPRun,
+  updateSOPRunStep,
+  completeSOPRun,
+  getRunVariables,
+  setRunVariable,
+  saveStepResult,
+  getStepResults,
+  getAIGeneratedDocuments,
+  getStepApprovals,
+  setManualTransition,
+  setTransitionProposal,
+  recordStepTransition,
+  setSOPRunStatus,
+  getSOPRunStack,
+  setChatActiveRun,
+  getRunStepTransitions,
+  getSOPDocuments,
+} from '@/lib/db';
+import { buildRuleContext, evaluateBranchRules, type StepHold } from '@/lib/services/stepManager';
+import { isWaitingForDocuments } from '@/lib/services/documentSlots';
+import { createRunSummary } from '@/lib/services/runSummary';
+import type { ManualTransition, SOP, SOPRun, SOPStep } from '@/lib/types/sop';
+import { isApprovalPending } from '@/lib/utils/approvals';
+import { isStructuredOutputPending } from '@/lib/utils/step-inputs';
+import { DONE_STEP_ID, getReachableStepIds } from '@/lib/utils/sop-graph';
+import { getPreviousStepId, MANUAL_TRANSITION_RATIONALES } from '@/lib/utils/step-history';
+
+/**
+ * How deeply sub-SOPs may nest, so SOPs that invoke each other can't recurse forever
+ */
+export const MAX_SUB_SOP_DEPTH = 5;
+
+/**
+ * The run that handles the conversation, with the SOP version it follows
+ */
+export interface ActiveRun {
+  run: SOPRun;
+  sop: SOP;
+}
+
+/**
+ * Counts how many runs sit above this one
+ */
+function getRunDepth(run: SOPRun): number {
+  let depth = 0;
+  let parentId = run.parentRunId;
+  while (parentId) {
+    depth++;
+    parentId = getSOPRun(parentId)?.parentRunId;
+  }
+  return depth;
+}
+
+/**
+ * Starts a child run for a sub-SOP step
+ * Returns null when the sub-SOP can't be started, leaving the parent on the step
+ */
+function enterSubSOP(parent: SOPRun, step: SOPStep): ActiveRun | null {
+  const childSOP = step.subSOP ? getSOP(step.subSOP) : undefined;
+  if (!childSOP || childSOP.steps.length === 0) {
+    console.error(`Step "${step.id}" invokes sub-SOP "${step.subSOP}", which does not exist or has no steps`);
+    return null;
+  }
+
+  if (getRunDepth(parent) + 1 > MAX_SUB_SOP_DEPTH) {
+    console.error(`Not starting sub-SOP "${childSOP.id}" from step "${step.id}": sub-SOPs are nested more than ${MAX_SUB_SOP_DEPTH} deep`);
+    return null;
+  }
+
+  const child = createSOPRun(parent.chatId, childSOP.id, childSOP.steps[0].id, parent.id);
+  if (process.env.NODE_ENV === 'development') {
+    console.log(`Started sub-SOP "${childSOP.id}" (run ${child.id}) from step "${step.id}" of run ${parent.id}`);
+  }
+
+  // The child's first step may itself be a sub-SOP step
+  return enterStep(child, getSOPForRun(child) || childSOP);
+}
+
+/**
+ * Handles arriving on the run's current step
+ */
+function enterStep(run: SOPRun, sop: SOP): ActiveRun {
+  const step = sop.steps.find((s) => s.id === run.currentStepId);
+  if (step?.subSOP) {
+    return enterSubSOP(run, step) || { run, sop };
+  }
+  return { run, sop };
+}
+
+/**
+ * Summarizes what a finished child run produced, for the parent's step result
+ */
+function describeChildOutputs(child: SOPRun, childSOP: SOP): string {
+  const documents = getAIGeneratedDocuments(child.chatId)
+    .filter((doc) => doc.run_id === child.id)
+    .map((doc) => doc.document_name);
+  return documents.length > 0
+    ? `Sub-SOP "${childSOP.displayName}" completed. Documents: ${documents.join(', ')}`
+    : `Sub-SOP "${childSOP.displayName}" completed.`;
+}
+
+/**
+ * Completes a finished child run and continues the parent
+ * The child's variables become parent variables and the parent's step result,
+ * then the parent moves to its next step if rules or a single target decide it
+ * and the step doesn't need approval first
+ */
+function returnToParent(child: SOPRun, childSOP: SOP): ActiveRun | null {
+  completeSOPRun(child.id);
+
+  const parent = child.parentRunId ? getSOPRun(child.parentRunId) : undefined;
+  const parentSOP = parent ? getSOPForRun(parent) : undefined;
+  if (!parent || !parentSOP) {
+    return null;
+  }
+
+  const outputs = Object.fromEntries(getRunVariables(child.id).map((v) => [v.name, v.value]));
+  for (const [name, value] of Object.entries(outputs)) {
+    setRunVariable(parent.id, name, value, 'sub_sop', parent.currentStepId);
+  }
+  saveStepResult(parent.id, parent.currentStepId, outputs, describeChildOutputs(child, childSOP));
+
+  const step = parentSOP.steps.find((s) => s.id === parent.currentStepId);
+  if (isApprovalPending(step, parent, getStepApprovals(parent.id))) {
+    return { run: parent, sop: parentSOP };
+  }
+
+  const targets = !step?.nextStep ? [DONE_STEP_ID] : Array.isArray(step.nextStep) ? step.nextStep : [step.nextStep];
+  const ruleMatch = step
+    ? evaluateBranchRules(step, buildRuleContext(getStepResults(parent.id), getRunVariables(parent.id)))
+    : null;
+  const nextStepId = ruleMatch?.stepId || (targets.length === 1 ? targets[0] : null);
+
+  // With several branches and no matching rule, the model picks the next step on the following turn
+  if (!nextStepId || nextStepId === 'stay_on_current_step') {
+    return { run: parent, sop: parentSOP };
+  }
+  recordStepTransition(parent.id, parent.currentStepId, nextStepId, ruleMatch ? 'rule' : 'sub_sop', {
+    rationale: ruleMatch
+      ? ruleMatch.description || `Branch rule matched: ${ruleMatch.condition}`
+      : `Sub-SOP "${childSOP.displayName}" completed`,
+  });
+  return applyStepTransition(parent, parentSOP, nextStepId);
+}
+
+/**
+ * Completes a top-level run that reached DONE and writes its completion summary
+ */
+function completeRun(run: SOPRun, sop: SOP): ActiveRun {
+  completeSOPRun(run.id);
+  const completed = getSOPRun(run.id) || run;
+  createRunSummary(completed, sop);
+  return { run: getSOPRun(run.id) || completed, sop };
+}
+
+/**
+ * Moves a run to a new step and returns the run that is active afterwards
+ * Entering a sub-SOP step starts its child run; a child reaching DONE
+ * returns control to its parent's next step, and a top-level run reaching DONE is completed
+ */
+export function applyStepTransition(run: SOPRun, sop: SOP, stepId: string): ActiveRun {
+  updateSOPRunStep(run.id, stepId);
+  const updated = getSOPRun(run.id) || { ...run, currentStepId: stepId };
+
+  if (stepId === DONE_STEP_ID) {
+    return updated.parentRunId ? returnToParent(updated, sop) || { run: updated, sop } : completeRun(updated, sop);
+  }
+  return enterStep(updated, sop);
+}
+
+/**
+ * Starts a new top-level run of a SOP in a chat and makes it the chat's active run
+ * If the first step is a sub-SOP step, its child run starts straight away
+ */
+export function startSOPRun(chatId: number, sop: SOP): { root: SOPRun; active: ActiveRun } {
+  const root = createSOPRun(chatId, sop.id, sop.steps[0].id);
+  setChatActiveRun(chatId, root.id);
+  return { root, active: enterStep(root, getSOPForRun(root) || sop) };
+}
+
+/**
+ * Lists the runs from the top-level run down to the given run, with their SOPs
+ */
+export function getRunAncestry(run: SOPRun): ActiveRun[] {
+  const ancestry: ActiveRun[] = [];
+  let current: SOPRun | undefined = run;
+  while (current) {
+    const sop = getSOPForRun(current);
+    if (sop) {
+      ancestry.unshift({ run: current, sop });
+    }
+    current = current.parentRunId ? getSOPRun(current.parentRunId) : undefined;
+  }
+  return ancestry;
+}
+
+/**
+ * Gets what is keeping the run on its current step, if anything
+ * Shared by step decisions and the step controls, so neither can leave a held step
+ */
+export function getStepHold(sop: SOP, run: SOPRun): StepHold | undefined {
+  const step = sop.steps.find((s) => s.id === run.currentStepId);
+  if (isWaitingForDocuments(sop, run, getSOPDocuments(run.id))) return 'documents';
+  if (isStructuredOutputPending(step, getStepResults(run.id))) return 'output';
+  if (isApprovalPending(step, run, getStepApprovals(run.id))) return 'approval';
+  return undefined;
+}
+
+/**
+ * Why each hold stops the step controls from moving the run forward
+ */
+const HOLD_ERRORS: Record<StepHold, string> = {
+  approval: 'The current step needs to be approved before the run can leave it',
+  documents: 'The run can\'t leave its first step until every required document is provided',
+  output: 'The current step\'s structured output has to be submitted before the run can leave it',
+};
+
+/**
+ * Result of moving a run by hand, with the step controls or by answering a step proposal
+ */
+export type ManualStepResult =
+  | { success: true; active: ActiveRun }
+  | { success: false; code: 'invalid' | 'conflict'; error: string };
+
+/**
+ * Moves a run with the step controls instead of a step decision
+ * - jump: to any step the SOP graph can reach from its first step
+ * - back: to the step the run came from
+ * - complete: to DONE, which hands a sub-SOP back to its parent
+ * Jump and complete respect the same holds as step decisions; back only revisits earlier work
+ * The change is recorded on the run that is active afterwards so the model is told on the next turn
+ */
+export function moveRunManually(
+  run: SOPRun,
+  sop: SOP,
+  action: ManualTransition['action'],
+  stepId?: string
+): ManualStepResult {
+  let toStepId: string | undefined;
+
+  if (action === 'jump') {
+    if (!stepId || !sop.steps.some((s) => s.id === stepId)) {
+      return { success: false, code: 'invalid', error: `Step "${stepId}" does not exist in SOP "${sop.id}"` };
+    }
+    if (!getReachableStepIds(sop).has(stepId)) {
+      return { success: false, code: 'invalid', error: `Step "${stepId}" can't be reached from the start of SOP "${sop.id}"` };
+    }
+    toStepId = stepId;
+  } else if (action === 'back') {
+    toStepId = getPreviousStepId(run, getRunStepTransitions(run.id));
+    if (!toStepId) {
+      return { success: false, code: 'conflict', error: 'The run is on its first step and has nowhere to go back to' };
+    }
+  } else {
+    toStepId = DONE_STEP_ID;
+  }
+
+  if (toStepId === run.currentStepId) {
+    return { success: false, code: 'conflict', error: `The run is already on step "${toStepId}"` };
+  }
+
+  const hold = action === 'back' ? undefined : getStepHold(sop, run);
+  if (hold) {
+    return { success: false, code: 'conflict', error: HOLD_ERRORS[hold] };
+  }
+
+  recordStepTransition(run.id, run.currentStepId, toStepId, 'manual', {
+    rationale: MANUAL_TRANSITION_RATIONALES[action],
+  });
+  const active = moveRun(run, sop, toStepId);
+  setManualTransition(active.run.id, { action, fromStepId: run.currentStepId, toStepId, sopId: sop.id });
+  return { success: true, active: { ...active, run: getSOPRun(active.run.id) || active.run } };
+}
+
+/**
+ * Moves a run outside a step decision, dropping any proposal the user didn't answer
+ */
+function moveRun(run: SOPRun, sop: SOP, toStepId: string): ActiveRun {
+  setTransitionProposal(run.id, null);
+  return applyStepTransition(run, sop, toStepId);
+}
+
+/**
+ * Answers the step change the model proposed with low confidence
+ * - move: applies it, recorded as the model's decision
+ * - stay: drops it and leaves the run where it is
+ */
+export function answerTransitionProposal(run: SOPRun, sop: SOP, answer: 'move' | 'stay'): ManualStepResult {
+  const proposal = run.transitionProposal;
+  if (!proposal || proposal.fromStepId !== run.currentStepId) {
+    return { success: false, code: 'conflict', error: 'There is no step change waiting to be confirmed' };
+  }
+
+  if (answer === 'stay') {
+    setTransitionProposal(run.id, null);
+    return { success: true, active: { run: getSOPRun(run.id) || run, sop } };
+  }
+
+  recordStepTransition(run.id, proposal.fromStepId, proposal.toStepId, 'llm', {
+    rationale: proposal.rationale ? `${proposal.rationale} (confirmed by the user)` : 'Confirmed by the user',
+    confidence: proposal.confidence,
+    messageId: proposal.messageId,
+  });
+  const active = moveRun(run, sop, proposal.toStepId);
+  return { success: true, active: { ...active, run: getSOPRun(active.run.id) || active.run } };
+}
+
+/**
+ * Result of pausing, resuming or cancelling a run
+ */
+export type RunStatusResult =
+  | { success: true; run: SOPRun }
+  | { success: false; code: 'conflict'; error: string };
+
+/**
+ * Pauses, resumes or cancels a top-level run
+ * - pause: an in-progress run stops being active, so the chat is free-form until it is resumed
+ * - resume: a paused run becomes active again on the exact step (and sub-SOP) it was paused on
+ * - cancel: an in-progress or paused run is abandoned along with its running sub-SOPs
+ */
+export function changeRunStatus(run: SOPRun, action: 'pause' | 'resume' | 'cancel', reason: string): RunStatusResult {
+  if (run.parentRunId) {
+    return { success: false, code: 'conflict', error: 'Only the top-level run can be paused, resumed or cancelled' };
+  }
+
+  if (action === 'pause') {
+    if (run.status !== 'in_progress') {
+      return { success: false, code: 'conflict', error: `The run is ${run.status.replace('_', ' ')}, not in progress` };
+    }
+    setSOPRunStatus(run.id, 'paused', reason);
+  } else if (action === 'resume') {
+    if (run.status !== 'paused') {
+      return { success: false, code: 'conflict', error: `The run is ${run.status.replace('_', ' ')}, not paused` };
+    }
+    setSOPRunStatus(run.id, 'in_progress', reason);
+  } else {
+    if (run.status !== 'in_progress' && run.status !== 'paused') {
+      return { success: false, code: 'conflict', error: `The run is already ${run.status}` };
+    }
+    for (const entry of getSOPRunStack(run)) {
+      setTransitionProposal(entry.id, null);
+      setSOPRunStatus(entry.id, 'cancelled', reason);
+    }
+  }
+
+  return { success: true, run: getSOPRun(run.id) || run };
+}
@@ -0,0 +1,278 @@
+/**
+ * SOP bundle service - handles exporting and importing SOPs as portable files
+ * A bundle holds one or more complete SOP definitions (including their
+ * assistantOutputFormats) plus version metadata, serialized as JSON or YAML.
+ * Many bundles can be packed into a single zip.
+ */
+
+import yaml from 'js-yaml';
+import JSZip from 'jszip';
+import { getSOP, getLatestSOPVersion } from '@/lib/db';
+import { createSOP, updateSOP } from '@/lib/services/sops';
+import { parseSOPMarkdown, formatSOPParseErrors } from '@/lib/sops/markdown';
+import type { LintIssue } from '@/lib/services/sopLinter';
+import type { SOP } from '@/lib/types/sop';
+
+export const SOP_BUNDLE_FORMAT = 'sop-bundle';
+export const SOP_BUNDLE_FORMAT_VERSION = 1;
+
+export type BundleFileFormat = 'json' | 'yaml';
+
+// Files that can hold SOP definitions: bundles/bare SOPs, or Markdown SOPs
+export const SOP_FILE_PATTERN = /\.(json|ya?ml|md|markdown|txt)$/i;
+const MARKDOWN_FILE_PATTERN = /\.(md|markdown|txt)$/i;
+
+/**
+ * A single exported SOP and where it came from
+ */
+export interface SOPBundleEntry {
+  sop: SOP;
+  metadata: {
+    // Version number on the exporting instance
+    versionNumber?: number;
+    author?: string;
+    changeNote?: string;
+    savedAt?: string;
+  };
+}
+
+/**
+ * The portable file format
+ */
+export interface SOPBundle {
+  format: typeof SOP_BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  sops: SOPBundleEntry[];
+}
+
+/**
+ * How to handle an imported SOP whose ID already exists
+ * - overwrite: save the import as a new version of the existing SOP
+ * - rename: import under a new, unused ID
+ * - skip: leave the existing SOP untouched
+ */
+export type ImportConflictStrategy = 'overwrite' | 'rename' | 'skip';
+
+/**
+ * Outcome of importing a single SOP
+ */
+export interface SOPImportResult {
+  // ID in the bundle
+  sourceId: string;
+  // ID the SOP was saved under (differs from sourceId when renamed)
+  sopId?: string;
+  status: 'created' | 'overwritten' | 'renamed' | 'skipped' | 'failed';
+  error?: string;
+  issues?: LintIssue[];
+}
+
+/**
+ * Builds a bundle for the given SOPs, attaching their latest version metadata
+ */
+export function buildSOPBundle(sops: SOP[]): SOPBundle {
+  return {
+    format: SOP_BUNDLE_FORMAT,
+    formatVersion: SOP_BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sops: sops.map((sop) => {
+      const version = getLatestSOPVersion(sop.id);
+      // Where the SOP lives on this instance isn't portable
+      const definition = { ...sop };
+      delete definition.sourceFile;
+      return {
+        sop: definition,
+        metadata: {
+          versionNumber: version?.versionNumber,
+          author: version?.author,
+          changeNote: version?.changeNote,
+          savedAt: version?.createdAt,
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * Serializes a bundle as JSON or YAML
+ */
+export function serializeSOPBundle(bundle: SOPBundle, format: BundleFileFormat): string {
+  if (format === 'yaml') {
+    // Long HTML templates read better without line folding
+    return yaml.dump(bundle, { lineWidth: -1, noRefs: true });
+  }
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * File extension and content type for a bundle format
+ */
+export function getBundleFileInfo(format: BundleFileFormat): { extension: string; contentType: string } {
+  return format === 'yaml'
+    ? { extension: 'yaml', contentType: 'application/yaml' }
+    : { extension: 'json', contentType: 'application/json' };
+}
+
+/**
+ * Packs one bundle file per SOP into a zip archive
+ */
+export async function createSOPBundleZip(sops: SOP[], format: BundleFileFormat): Promise<Buffer> {
+  const zip = new JSZip();
+  const { extension } = getBundleFileInfo(format);
+
+  for (const sop of sops) {
+    zip.file(`${sop.id}.sop.${extension}`, serializeSOPBundle(buildSOPBundle([sop]), format));
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Parses bundle file contents (JSON or YAML)
+ * A bare SOP object is also accepted and treated as a single-SOP bundle
+ */
+export function parseSOPBundle(content: string): { entries: SOPBundleEntry[]; error?: string } {
+  let parsed: any;
+  try {
+    // YAML is a superset of JSON, so one parser handles both
+    parsed = yaml.load(content);
+  } catch (error) {
+    return { entries: [], error: `Could not parse file: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return { entries: [], error: 'File does not contain a SOP bundle' };
+  }
+
+  if (parsed.format === SOP_BUNDLE_FORMAT) {
+    if (typeof parsed.formatVersion === 'number' && parsed.formatVersion > SOP_BUNDLE_FORMAT_VERSION) {
+      return { entries: [], error: `Unsupported bundle format version ${parsed.formatVersion}` };
+    }
+    if (!Array.isArray(parsed.sops)) {
+      return { entries: [], error: 'Bundle is missing its sops list' };
+    }
+    return {
+      entries: parsed.sops
+        .filter((entry: any) => entry && typeof entry === 'object' && entry.sop)
+        .map((entry: any) => ({ sop: entry.sop, metadata: entry.metadata || {} })),
+    };
+  }
+
+  if (Array.isArray(parsed.steps)) {
+    return { entries: [{ sop: parsed as SOP, metadata: {} }] };
+  }
+
+  return { entries: [], error: 'File does not contain a SOP bundle' };
+}
+
+/**
+ * Parses a SOP definition file, picking the parser from its extension
+ * Markdown and text files use the Markdown SOP dialect; anything else is read as a bundle
+ */
+export function parseSOPDefinitionFile(filename: string, content: string): { entries: SOPBundleEntry[]; error?: string } {
+  if (!MARKDOWN_FILE_PATTERN.test(filename)) {
+    return parseSOPBundle(content);
+  }
+
+  const result = parseSOPMarkdown(content);
+  if (!result.sop) {
+    return { entries: [], error: `Could not parse Markdown SOP:\n${formatSOPParseErrors(result.errors)}` };
+  }
+  return { entries: [{ sop: result.sop, metadata: {} }] };
+}
+
+/**
+ * Reads bundle entries from an uploaded file (JSON, YAML, Markdown or a zip of any of them)
+ */
+export async function readSOPBundleFile(
+  filename: string,
+  data: Buffer
+): Promise<{ entries: SOPBundleEntry[]; errors: string[] }> {
+  const entries: SOPBundleEntry[] = [];
+  const errors: string[] = [];
+
+  if (filename.toLowerCase().endsWith('.zip')) {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(data);
+    } catch {
+      return { entries, errors: [`${filename}: not a valid zip archive`] };
+    }
+
+    const files = Object.values(zip.files).filter(
+      (file) => !file.dir && SOP_FILE_PATTERN.test(file.name) && !file.name.startsWith('__MACOSX/')
+    );
+    for (const file of files) {
+      const result = parseSOPDefinitionFile(file.name, await file.async('string'));
+      if (result.error) {
+        errors.push(`${file.name}: ${result.error}`);
+      }
+      entries.push(...result.entries);
+    }
+    return { entries, errors };
+  }
+
+  const result = parseSOPDefinitionFile(filename, data.toString('utf-8'));
+  if (result.error) {
+    errors.push(`${filename}: ${result.error}`);
+  }
+  entries.push(...result.entries);
+  return { entries, errors };
+}
+
+/**
+ * Finds an unused SOP ID based on the given one
+ */
+function findAvailableSOPId(sopId: string): string {
+  let candidate = `${sopId}-imported`;
+  let counter = 2;
+  while (getSOP(candidate)) {
+    candidate = `${sopId}-imported-${counter}`;
+    counter++;
+  }
+  return candidate;
+}
+
+/**
+ * Imports bundle entries, running the same validation as create_sop
+ */
+export function importSOPBundle(
+  entries: SOPBundleEntry[],
+  onConflict: ImportConflictStrategy,
+  author?: string
+): SOPImportResult[] {
+  return entries.map((entry) => {
+    const sop: any = entry.sop;
+    const sourceId = typeof sop?.id === 'string' ? sop.id : '';
+    const changeNote = entry.metadata.versionNumber
+      ? `Imported (source version ${entry.metadata.versionNumber})`
+      : 'Imported';
+
+    if (!sourceId || !getSOP(sourceId)) {
+      const result = createSOP(sop, { author, changeNote });
+      return result.success
+        ? { sourceId, sopId: sourceId, status: 'created', issues: result.issues }
+        : { sourceId, status: 'failed', error: result.error, issues: result.issues };
+    }
+
+    if (onConflict === 'skip') {
+      return { sourceId, sopId: sourceId, status: 'skipped' };
+    }
+
+    if (onConflict === 'overwrite') {
+      const result = updateSOP(sourceId, sop, { author, changeNote });
+      return result.success
+        ? { sourceId, sopId: sourceId, status: 'overwritten', issues: result.issues }
+        : { sourceId, status: 'failed', error: result.error, issues: result.issues };
+    }
+
+    const newId = findAvailableSOPId(sourceId);
+    const result = createSOP(
+      { ...sop, id: newId, displayName: `${sop.displayName || sourceId} (imported)` },
+      { author, changeNote: `${changeNote} from "${sourceId}"` }
+    );
+    return result.success
+      ? { sourceId, sopId: newId, status: 'renamed', issues: result.issues }
+      : { sourceId, status: 'failed', error: result.error, issues: result.issues };
+  });
+}
@@ -0,0 +1,447 @@
+/**
+ * SOP Linter Service
+ * Statically checks a SOP definition for structural problems, broken references
+ * and flow issues so broken SOPs are caught at save time instead of mid-run
+ */
+
+import { REGISTERED_TOOLS } from '@/lib/openai';
+import type { SOP, SOPStep } from '@/lib/types/sop';
+import { validateCondition } from '@/lib/utils/conditions';
+import { checkSchemaDefinition } from '@/lib/utils/json-schema';
+import { getSOPPlaceholderNames } from '@/lib/utils/templates';
+import {
+  DONE_STEP_ID,
+  findCyclesWithoutExit,
+  getReachableStepIds,
+} from '@/lib/utils/sop-graph';
+
+/**
+ * A single problem found in a SOP
+ * Errors block saving; warnings are reported but the SOP can still be saved
+ */
+export interface LintIssue {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  stepId?: string;
+}
+
+/**
+ * Result of linting a SOP
+ */
+export interface LintResult {
+  valid: boolean;
+  issues: LintIssue[];
+}
+
+/**
+ * Checks the top-level fields and step identity, which the other checks rely on
+ * Returns whether the steps are well-formed enough for graph and reference checks
+ */
+function lintStructure(sop: any, issues: LintIssue[]): boolean {
+  if (!sop.id || typeof sop.id !== 'string') {
+    issues.push({ severity: 'error', code: 'missing-id', message: 'SOP must have a valid id field (string in kebab-case like "my-sop").' });
+  } else if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(sop.id)) {
+    issues.push({ severity: 'warning', code: 'id-format', message: `SOP id "${sop.id}" should be kebab-case (e.g. "my-sop").` });
+  }
+
+  if (!sop.name || typeof sop.name !== 'string') {
+    issues.push({ severity: 'error', code: 'missing-name', message: 'SOP must have a valid name field (string in snake_case like "my_sop").' });
+  }
+
+  if (!sop.displayName || typeof sop.displayName !== 'string') {
+    issues.push({ severity: 'error', code: 'missing-display-name', message: 'SOP must have a valid displayName field (human-readable string like "My SOP").' });
+  }
+
+  if (!sop.steps || !Array.isArray(sop.steps) || sop.steps.length === 0) {
+    issues.push({ severity: 'error', code: 'missing-steps', message: 'SOP must have a steps array with at least one step. Every step needs an id, stepNumber, assistantFacingTitle, and description.' });
+    return false;
+  }
+
+  let stepsWellFormed = true;
+  const stepIds = new Set<string>();
+  for (const step of sop.steps) {
+    if (!step || typeof step !== 'object') {
+      issues.push({ severity: 'error', code: 'invalid-step', message: 'Every entry in steps must be an object.' });
+      stepsWellFormed = false;
+      continue;
+    }
+
+    if (!step.id || typeof step.id !== 'string') {
+      issues.push({ severity: 'error', code: 'missing-step-id', message: 'Step is missing a valid id field (should be kebab-case like "step-1"). Every step needs a unique id.' });
+      stepsWellFormed = false;
+    } else if (stepIds.has(step.id)) {
+      issues.push({ severity: 'error', code: 'duplicate-step-id', message: `Duplicate step id found: "${step.id}". Each step must have a unique id.`, stepId: step.id });
+    } else {
+      stepIds.add(step.id);
+    }
+
+    if (typeof step.stepNumber !== 'number') {
+      issues.push({ severity: 'error', code: 'invalid-step-number', message: `Step "${step.id || '?'}" must have a numeric stepNumber field (e.g., 1, 2, 3).`, stepId: step.id });
+    }
+
+    if (!step.expectedOutput || typeof step.expectedOutput !== 'object') {
+      issues.push({ severity: 'warning', code: 'missing-expected-output', message: `Step "${step.id || '?'}" has no expectedOutput.`, stepId: step.id });
+    }
+  }
+
+  return stepsWellFormed;
+}
+
+/**
+ * Checks nextStep and branch rule targets point at real steps
+ */
+function lintTransitions(sop: SOP, stepIds: Set<string>, issues: LintIssue[]): void {
+  for (const step of sop.steps) {
+    const targets = !step.nextStep ? [] : Array.isArray(step.nextStep) ? step.nextStep : [step.nextStep];
+
+    for (const target of targets) {
+      if (target !== DONE_STEP_ID && !stepIds.has(target)) {
+        issues.push({
+          severity: 'error',
+          code: 'unknown-next-step',
+          message: `Step "${step.id}" has nextStep "${target}", which does not match any step id. Use an existing step id or "${DONE_STEP_ID}".`,
+          stepId: step.id,
+        });
+      }
+    }
+
+    lintBranchRules(step, targets, stepIds, issues);
+  }
+}
+
+/**
+ * Checks branch rule conditions parse and target one of the step's next steps
+ */
+function lintBranchRules(step: SOPStep, targets: string[], stepIds: Set<string>, issues: LintIssue[]): void {
+  if (!step.branchRules) return;
+
+  if (!Array.isArray(step.branchRules)) {
+    issues.push({ severity: 'error', code: 'invalid-branch-rules', message: `Step "${step.id}" has branchRules that is not an array.`, stepId: step.id });
+    return;
+  }
+
+  for (const rule of step.branchRules) {
+    if (typeof rule?.condition !== 'string') {
+      issues.push({ severity: 'error', code: 'invalid-branch-condition', message: `Step "${step.id}" has a branch rule without a condition string.`, stepId: step.id });
+      continue;
+    }
+
+    const conditionError = validateCondition(rule.condition);
+    if (conditionError) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid-branch-condition',
+        message: `Step "${step.id}" has an invalid branch rule condition "${rule.condition}": ${conditionError}.`,
+        stepId: step.id,
+      });
+    }
+
+    if (!targets.includes(rule.nextStep)) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid-branch-target',
+        message: `Step "${step.id}" has a branch rule targeting "${rule.nextStep}", which is not listed in its nextStep.`,
+        stepId: step.id,
+      });
+    }
+
+    // Conditions can only see results of steps that exist
+    for (const match of Array.from(rule.condition.matchAll(/stepResults\.([A-Za-z0-9_-]+)/g))) {
+      if (!stepIds.has(match[1])) {
+        issues.push({
+          severity: 'warning',
+          code: 'unknown-condition-step',
+          message: `Step "${step.id}" has a branch rule condition referring to unknown step "${match[1]}".`,
+          stepId: step.id,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Checks every step can be reached and the SOP can always finish
+ */
+function lintFlow(sop: SOP, issues: LintIssue[]): void {
+  const reachable = getReachableStepIds(sop);
+  for (const step of sop.steps) {
+    if (!reachable.has(step.id)) {
+      issues.push({
+        severity: 'warning',
+        code: 'unreachable-step',
+        message: `Step "${step.id}" can never be reached from the first step "${sop.steps[0].id}".`,
+        stepId: step.id,
+      });
+    }
+  }
+
+  for (const cycle of findCyclesWithoutExit(sop)) {
+    issues.push({
+      severity: 'error',
+      code: 'cycle-without-exit',
+      message: `Steps ${[...cycle, cycle[0]].map((id) => `"${id}"`).join(' → ')} form a loop with no way to reach the end of the SOP. Add a branch out of the loop or "${DONE_STEP_ID}".`,
+      stepId: cycle[0],
+    });
+  }
+}
+
+/**
+ * Checks references from steps to formats, documents, sub-SOPs and tools
+ */
+function lintReferences(sop: SOP, issues: LintIssue[]): void {
+  const formatIds = new Set((Array.isArray(sop.assistantOutputFormats) ? sop.assistantOutputFormats : []).map((f) => f?.id));
+  const documentIds = new Set((Array.isArray(sop.userDocuments) ? sop.userDocuments : []).map((d) => d?.id));
+
+  if (sop.assistantOutputFormats !== undefined && !Array.isArray(sop.assistantOutputFormats)) {
+    issues.push({ severity: 'error', code: 'invalid-output-formats', message: 'SOP assistantOutputFormats must be an array.' });
+  }
+  if (sop.providedTools !== undefined && !Array.isArray(sop.providedTools)) {
+    issues.push({ severity: 'error', code: 'invalid-provided-tools', message: 'SOP providedTools must be an array of tool names.' });
+  }
+  const providedTools: string[] = Array.isArray(sop.providedTools) ? sop.providedTools : [];
+
+  for (const step of sop.steps) {
+    const format = step.expectedOutput?.format;
+    if (format && !formatIds.has(format)) {
+      issues.push({
+        severity: 'error',
+        code: 'unknown-format',
+        message: `Step "${step.id}" uses expectedOutput.format "${format}", which does not match any assistantOutputFormats id.`,
+        stepId: step.id,
+      });
+    }
+
+    if (step.referencedDocuments !== undefined && !Array.isArray(step.referencedDocuments)) {
+      issues.push({ severity: 'error', code: 'invalid-referenced-documents', message: `Step "${step.id}" has referencedDocuments that is not an array.`, stepId: step.id });
+    }
+
+    // A reference is either a user document or the document an earlier step writes
+    for (const documentId of Array.isArray(step.referencedDocuments) ? step.referencedDocuments : []) {
+      if (!documentIds.has(documentId) && !sop.steps.some((s) => s.id === documentId)) {
+        issues.push({
+          severity: 'warning',
+          code: 'undeclared-document',
+          message: `Step "${step.id}" references document "${documentId}", which is neither declared in userDocuments nor a step id.`,
+          stepId: step.id,
+        });
+      }
+    }
+
+    if (step.inputFields !== undefined && !Array.isArray(step.inputFields)) {
+      issues.push({ severity: 'error', code: 'invalid-input-fields', message: `Step "${step.id}" has inputFields that is not an array.`, stepId: step.id });
+    }
+
+    const fieldIds = new Set<string>();
+    for (const field of Array.isArray(step.inputFields) ? step.inputFields : []) {
+      if (!field || typeof field !== 'object') {
+        issues.push({ severity: 'error', code: 'invalid-input-field', message: `Step "${step.id}" has an input field that is not an object.`, stepId: step.id });
+        continue;
+      }
+      if (fieldIds.has(field.id)) {
+        issues.push({ severity: 'error', code: 'duplicate-field-id', message: `Step "${step.id}" has duplicate input field id "${field.id}".`, stepId: step.id });
+      }
+      fieldIds.add(field.id);
+      if (field.type === 'select' && (!field.options || field.options.length === 0)) {
+        issues.push({ severity: 'warning', code: 'select-without-options', message: `Step "${step.id}" has select field "${field.id}" with no options.`, stepId: step.id });
+      }
+    }
+
+    if (step.subSOP !== undefined) {
+      if (typeof step.subSOP !== 'string' || !step.subSOP.trim()) {
+        issues.push({ severity: 'error', code: 'invalid-sub-sop', message: `Step "${step.id}" has a subSOP that is not a SOP id.`, stepId: step.id });
+      } else if (step.subSOP === sop.id) {
+        issues.push({ severity: 'error', code: 'self-sub-sop', message: `Step "${step.id}" invokes its own SOP "${sop.id}" as a sub-SOP.`, stepId: step.id });
+      }
+    }
+
+    const schema = step.expectedOutput?.schema;
+    if (schema !== undefined) {
+      const problems = checkSchemaDefinition(schema);
+      if (problems.length > 0) {
+        issues.push({ severity: 'error', code: 'invalid-output-schema', message: `Step "${step.id}" has an invalid output schema: ${problems.join('; ')}.`, stepId: step.id });
+      } else if (schema.type !== 'object') {
+        issues.push({ severity: 'error', code: 'invalid-output-schema', message: `Step "${step.id}" output schema must have type "object" at the top level.`, stepId: step.id });
+      }
+      if (step.expectedOutput.type !== 'structured') {
+        issues.push({ severity: 'warning', code: 'unused-output-schema', message: `Step "${step.id}" has an output schema but its expectedOutput.type is "${step.expectedOutput.type}", so the schema is ignored.`, stepId: step.id });
+      }
+    } else if (step.expectedOutput?.type === 'structured') {
+      issues.push({ severity: 'warning', code: 'missing-output-schema', message: `Step "${step.id}" expects structured output but has no expectedOutput.schema, so its output is not collected or checked.`, stepId: step.id });
+    }
+
+    if (step.requiresApproval !== undefined && typeof step.requiresApproval !== 'boolean') {
+      issues.push({ severity: 'error', code: 'invalid-requires-approval', message: `Step "${step.id}" requiresApproval must be true or false.`, stepId: step.id });
+    }
+
+    if (step.acceptanceCriteria !== undefined) {
+      const criteria: unknown = step.acceptanceCriteria;
+      if (!Array.isArray(criteria) || criteria.some((c) => typeof c !== 'string' || !c.trim())) {
+        issues.push({
+          severity: 'error',
+          code: 'invalid-acceptance-criteria',
+          message: `Step "${step.id}" acceptanceCriteria must be a list of non-empty strings.`,
+          stepId: step.id,
+        });
+      } else if (criteria.length > 0 && !(Array.isArray(step.allowedTools) ? step.allowedTools : providedTools).includes('write_document')) {
+        issues.push({
+          severity: 'warning',
+          code: 'unjudged-acceptance-criteria',
+          message: `Step "${step.id}" has acceptanceCriteria, but they are only checked on documents written with write_document, which this step cannot call.`,
+          stepId: step.id,
+        });
+      }
+    }
+  }
+
+  for (const tool of providedTools) {
+    if (!REGISTERED_TOOLS.includes(tool)) {
+      issues.push({
+        severity: 'error',
+        code: 'unknown-tool',
+        message: `providedTools includes "${tool}", which is not a registered tool. Available tools: ${REGISTERED_TOOLS.join(', ')}.`,
+      });
+    }
+  }
+
+  // Steps can only narrow the SOP's tools, never add to them
+  for (const step of sop.steps) {
+    if (step.allowedTools === undefined) continue;
+    if (!Array.isArray(step.allowedTools)) {
+      issues.push({ severity: 'error', code: 'invalid-allowed-tools', message: `Step "${step.id}" has allowedTools that is not an array.`, stepId: step.id });
+      continue;
+    }
+    for (const tool of step.allowedTools) {
+      if (!providedTools.includes(tool)) {
+        issues.push({
+          severity: 'error',
+          code: 'tool-not-provided',
+          message: `Step "${step.id}" allows tool "${tool}", which is not in the SOP's providedTools.`,
+          stepId: step.id,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Checks declared variables and that {{name}} placeholders can be filled
+ */
+function lintVariables(sop: SOP, issues: LintIssue[]): void {
+  const declared = new Set<string>();
+
+  if (sop.variables !== undefined) {
+    if (!Array.isArray(sop.variables)) {
+      issues.push({ severity: 'error', code: 'invalid-variables', message: 'SOP variables must be an array of { name, description } objects.' });
+    } else {
+      for (const variable of sop.variables) {
+        if (typeof variable?.name !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(variable.name)) {
+          issues.push({ severity: 'error', code: 'invalid-variable-name', message: `SOP variable "${variable?.name ?? '?'}" needs a name of letters, numbers and underscores (e.g. "client_name").` });
+          continue;
+        }
+        if (declared.has(variable.name)) {
+          issues.push({ severity: 'error', code: 'duplicate-variable', message: `SOP declares variable "${variable.name}" more than once.` });
+        }
+        declared.add(variable.name);
+        if (typeof variable.description !== 'string' || !variable.description.trim()) {
+          issues.push({ severity: 'warning', code: 'missing-variable-description', message: `SOP variable "${variable.name}" has no description, so it can't be extracted from the conversation.` });
+        }
+      }
+    }
+  }
+
+  // set_variable can fill any placeholder, so only warn when nothing else could
+  if (Array.isArray(sop.providedTools) && sop.providedTools.includes('set_variable')) return;
+
+  const fieldIds = new Set(sop.steps.flatMap((step) => (Array.isArray(step.inputFields) ? step.inputFields : []).map((field) => field?.id)));
+  for (const name of getSOPPlaceholderNames(sop)) {
+    if (!declared.has(name) && !fieldIds.has(name)) {
+      issues.push({
+        severity: 'warning',
+        code: 'unknown-variable',
+        message: `Placeholder "{{${name}}}" is not a declared variable or an input field id, so it will never be filled in. Declare it in variables or provide the set_variable tool.`,
+      });
+    }
+  }
+}
+
+const REASONING_EFFORTS = ['low', 'medium', 'high'];
+
+/**
+ * Checks model settings on the SOP or a step have usable values
+ */
+function lintModelSettings(settings: any, owner: string, issues: LintIssue[], stepId?: string): void {
+  if (settings === undefined) return;
+
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    issues.push({ severity: 'error', code: 'invalid-model-settings', message: `${owner} has modelSettings that is not an object.`, stepId });
+    return;
+  }
+
+  if (settings.model !== undefined && (typeof settings.model !== 'string' || !settings.model.trim())) {
+    issues.push({ severity: 'error', code: 'invalid-model', message: `${owner} has a modelSettings.model that is not a model name.`, stepId });
+  }
+
+  if (settings.temperature !== undefined && (typeof settings.temperature !== 'number' || settings.temperature < 0 || settings.temperature > 2)) {
+    issues.push({ severity: 'error', code: 'invalid-temperature', message: `${owner} has a modelSettings.temperature outside 0-2.`, stepId });
+  }
+
+  if (settings.reasoningEffort !== undefined && !REASONING_EFFORTS.includes(settings.reasoningEffort)) {
+    issues.push({
+      severity: 'error',
+      code: 'invalid-reasoning-effort',
+      message: `${owner} has modelSettings.reasoningEffort "${settings.reasoningEffort}". Use one of: ${REASONING_EFFORTS.join(', ')}.`,
+      stepId,
+    });
+  }
+
+  if (settings.temperature !== undefined && settings.reasoningEffort !== undefined) {
+    issues.push({
+      severity: 'warning',
+      code: 'temperature-with-reasoning',
+      message: `${owner} sets both temperature and reasoningEffort; reasoning models usually reject a custom temperature.`,
+      stepId,
+    });
+  }
+}
+
+/**
+ * Lints a SOP definition
+ * Accepts untrusted input (e.g. parsed model output), so it checks structure first
+ */
+export function lintSOP(sop: any): LintResult {
+  const issues: LintIssue[] = [];
+
+  if (!sop || typeof sop !== 'object' || Array.isArray(sop)) {
+    issues.push({ severity: 'error', code: 'invalid-sop', message: 'SOP must be a JSON object.' });
+    return { valid: false, issues };
+  }
+
+  // Graph and reference checks need well-formed steps
+  if (lintStructure(sop, issues)) {
+    const stepIds = new Set<string>(sop.steps.map((s: SOPStep) => s.id));
+    lintTransitions(sop, stepIds, issues);
+    lintFlow(sop, issues);
+    lintReferences(sop, issues);
+    lintVariables(sop, issues);
+    for (const step of sop.steps) {
+      lintModelSettings(step.modelSettings, `Step "${step.id}"`, issues, step.id);
+    }
+  }
+  lintModelSettings(sop.modelSettings, 'SOP', issues);
+
+  return {
+    valid: !issues.some((issue) => issue.severity === 'error'),
+    issues,
+  };
+}
+
+/**
+ * Formats lint issues as a bulleted list, errors first
+ */
+export function formatLintIssues(issues: LintIssue[]): string {
+  return [...issues]
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+    .map((issue) => `- [${issue.severity}] ${issue.message}`)
+    .join('\n');
+}
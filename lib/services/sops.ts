@@ -0,0 +1,249 @@
+/**
+ * SOP service - handles creating, updating and deleting SOP templates
+ * Shared by the SOP management tools and the REST API so both apply the same
+ * validation and built-in protection
+ */
+
+import { getSOP, saveSOP, deleteSOP, countSOPRuns } from '@/lib/db';
+import { lintSOP, type LintIssue } from '@/lib/services/sopLinter';
+import type { SOP, SOPVersionSummary } from '@/lib/types/sop';
+
+/**
+ * Built-in SOP IDs that cannot be deleted
+ * These are the SOPs that are loaded by default and should be protected
+ */
+export const BUILT_IN_SOPS = ['pdf-summary', 'content-plan', 'sop-management'];
+
+/**
+ * Why a SOP operation was rejected
+ * - invalid: the SOP failed linting or the input was malformed
+ * - not_found: no SOP with the given ID exists
+ * - conflict: a SOP with the given ID already exists
+ * - protected: built-in SOPs cannot be deleted
+ * - in_use: the SOP has runs and cannot be deleted
+ * - read_only: the SOP is managed by a definition file in SOP_DIRECTORY
+ */
+export type SOPErrorCode = 'invalid' | 'not_found' | 'conflict' | 'protected' | 'in_use' | 'read_only';
+
+/**
+ * HTTP status for each error code, used by the REST API
+ */
+export const SOP_ERROR_STATUS: Record<SOPErrorCode, number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409,
+  protected: 403,
+  in_use: 409,
+  read_only: 403,
+};
+
+/**
+ * Result of a SOP write operation
+ */
+export type SOPOperationResult =
+  | {
+      success: true;
+      sop: SOP;
+      // Version created by the save (absent for deletes)
+      version?: SOPVersionSummary;
+      // Lint warnings that did not block the save
+      issues: LintIssue[];
+    }
+  | {
+      success: false;
+      code: SOPErrorCode;
+      error: string;
+      issues?: LintIssue[];
+    };
+
+/**
+ * Who made a change and why, recorded in the SOP version history
+ */
+export interface SOPChangeOptions {
+  author?: string;
+  changeNote?: string;
+}
+
+/**
+ * Rejection for changes to a SOP that is managed by a definition file
+ */
+function readOnlyError(sop: SOP): SOPOperationResult {
+  return {
+    success: false,
+    code: 'read_only',
+    error: `SOP "${sop.id}" is managed by the definition file ${sop.sourceFile} and can only be changed by editing that file`,
+  };
+}
+
+/**
+ * Lints and saves a SOP definition, recording a new version
+ */
+function lintAndSave(sop: any, options: SOPChangeOptions): SOPOperationResult {
+  // Only the directory sync may mark SOPs as file-managed
+  delete sop.sourceFile;
+
+  const lintResult = lintSOP(sop);
+  if (!lintResult.valid) {
+    return {
+      success: false,
+      code: 'invalid',
+      error: 'SOP validation failed',
+      issues: lintResult.issues,
+    };
+  }
+
+  // The linter can't see other SOPs, so sub-SOP references are checked here.
+  // Missing ones are only a warning: SOPs that invoke each other are saved one at a time
+  for (const step of (sop as SOP).steps) {
+    if (step.subSOP && !getSOP(step.subSOP)) {
+      lintResult.issues.push({
+        severity: 'warning',
+        code: 'unknown-sub-sop',
+        message: `Step "${step.id}" invokes sub-SOP "${step.subSOP}", which does not exist yet. Until it does, reaching the step will not start a sub-SOP.`,
+        stepId: step.id,
+      });
+    }
+  }
+
+  const version = saveSOP(sop as SOP, options);
+  return {
+    success: true,
+    sop: sop as SOP,
+    version,
+    issues: lintResult.issues,
+  };
+}
+
+/**
+ * Creates a new SOP
+ * Fails with conflict if a SOP with the same ID already exists
+ */
+export function createSOP(input: any, options: SOPChangeOptions = {}): SOPOperationResult {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { success: false, code: 'invalid', error: 'SOP must be a JSON object' };
+  }
+
+  if (typeof input.id === 'string' && getSOP(input.id)) {
+    return { success: false, code: 'conflict', error: `A SOP with ID "${input.id}" already exists` };
+  }
+
+  const now = new Date().toISOString();
+  const sop = { ...input, createdAt: now, updatedAt: now };
+
+  return lintAndSave(sop, { ...options, changeNote: options.changeNote || 'Initial version' });
+}
+
+/**
+ * Replaces an existing SOP with a new definition
+ * The SOP ID cannot be changed; the original createdAt is kept if not provided
+ */
+export function updateSOP(sopId: string, input: any, options: SOPChangeOptions = {}): SOPOperationResult {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { success: false, code: 'invalid', error: 'SOP must be a JSON object' };
+  }
+
+  const existing = getSOP(sopId);
+  if (!existing) {
+    return { success: false, code: 'not_found', error: `SOP with ID "${sopId}" not found` };
+  }
+
+  if (existing.sourceFile) {
+    return readOnlyError(existing);
+  }
+
+  if (input.id !== undefined && input.id !== sopId) {
+    return {
+      success: false,
+      code: 'invalid',
+      error: `SOP ID cannot be changed (expected "${sopId}", got "${input.id}")`,
+    };
+  }
+
+  const sop = {
+    ...input,
+    id: sopId,
+    createdAt: input.createdAt || existing.createdAt || new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  return lintAndSave(sop, options);
+}
+
+/**
+ * Applies a JSON merge patch (RFC 7386): objects are merged recursively,
+ * null removes a key, and any other value (including arrays) replaces it
+ */
+function applyMergePatch(target: any, patch: any): any {
+  if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, any> =
+    target && typeof target === 'object' && !Array.isArray(target) ? { ...target } : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Partially updates an existing SOP using a JSON merge patch
+ * Arrays such as steps are replaced as a whole
+ */
+export function patchSOP(sopId: string, patch: any, options: SOPChangeOptions = {}): SOPOperationResult {
+  if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+    return { success: false, code: 'invalid', error: 'Patch must be a JSON object' };
+  }
+
+  const existing = getSOP(sopId);
+  if (!existing) {
+    return { success: false, code: 'not_found', error: `SOP with ID "${sopId}" not found` };
+  }
+
+  if (existing.sourceFile) {
+    return readOnlyError(existing);
+  }
+
+  return updateSOP(sopId, applyMergePatch(existing, patch), options);
+}
+
+/**
+ * Deletes a SOP
+ * Built-in SOPs and SOPs that have been run are protected
+ */
+export function removeSOP(sopId: string): SOPOperationResult {
+  if (BUILT_IN_SOPS.includes(sopId)) {
+    return {
+      success: false,
+      code: 'protected',
+      error: `Built-in SOP "${sopId}" cannot be deleted`,
+    };
+  }
+
+  const sop = getSOP(sopId);
+  if (!sop) {
+    return { success: false, code: 'not_found', error: `SOP with ID "${sopId}" not found` };
+  }
+
+  if (sop.sourceFile) {
+    return readOnlyError(sop);
+  }
+
+  // Runs keep a reference to their SOP, so deleting it would orphan their history
+  const runCount = countSOPRuns(sopId);
+  if (runCount > 0) {
+    return {
+      success: false,
+      code: 'in_use',
+      error: `SOP "${sopId}" has ${runCount} run${runCount === 1 ? '' : 's'} and cannot be deleted`,
+    };
+  }
+
+  deleteSOP(sopId);
+  return { success: true, sop, issues: [] };
+}
@@ -7,10 +7,53 @@
 import { z } from 'zod';
 import createInstructor from '@instructor-ai/instructor';
 import OpenAI from 'openai';
-import type { SOP, SOPStep } from '@/lib/types/sop';
+import { CHEAP_MODEL } from '@/lib/openai';
+import type { RunVariable, SOP, SOPStep, StepInputValue, StepResult } from '@/lib/types/sop';
+import { evaluateCondition } from '@/lib/utils/conditions';
+import { getStructuredOutputsByStep, getSubmittedInputsByStep, isStepFormPending } from '@/lib/utils/step-inputs';
+import { DONE_STEP_ID } from '@/lib/utils/sop-graph';
+
+/**
+ * Model step decisions less confident than this are proposed to the user instead of applied
+ * Set STEP_CONFIRMATION_THRESHOLD to 0 to always apply them
+ */
+export const STEP_CONFIRMATION_THRESHOLD = Number(process.env.STEP_CONFIRMATION_THRESHOLD ?? 0.6);
+
+/**
+ * Data that branch rule conditions are evaluated against
+ */
+export interface RuleContext {
+  // Step ID -> field ID -> submitted value, or the step's structured output
+  stepResults: Record<string, Record<string, unknown>>;
+  // Flat view of all collected values and run variables, run variables winning
+  variables: Record<string, StepInputValue>;
+}
+
+/**
+ * Why a step can't be left yet
+ * - approval: the step requires a person's approval
+ * - documents: the first step is waiting for required userDocuments
+ * - output: a structured output step hasn't submitted its output
+ */
+export type StepHold = 'approval' | 'documents' | 'output';
+
+/**
+ * The outcome of a step decision and what produced it
+ */
+export interface StepDecision {
+  stepId: string;
+  source: 'rule' | 'llm' | StepHold;
+  // The condition that matched, when source is 'rule'
+  rule?: string;
+  // Why the step was chosen: the model's reasoning or the matched rule's description
+  rationale?: string;
+  // The model's confidence in its decision, 0-1
+  confidence?: number;
+}
 
 /**
  * Get valid next steps from the current step
+ * A final step (no nextStep) can move to DONE so the run completes
  */
 function getValidNextSteps(step: SOPStep): string[] {
   const validSteps = ['stay_on_current_step'];
@@ -22,25 +65,104 @@ function getValidNextSteps(step: SOPStep): string[] {
       validSteps.push(...step.nextStep);
     }
   }
+
+  if (validSteps.length === 1) {
+    validSteps.push(DONE_STEP_ID);
+  }
   
   return validSteps;
 }
 
+/**
+ * Builds the rule context from a run's stored step results and variables
+ */
+export function buildRuleContext(stepResults: StepResult[], runVariables: RunVariable[] = []): RuleContext {
+  const byStep = getSubmittedInputsByStep(stepResults);
+  const variables: Record<string, StepInputValue> = {};
+  for (const values of Object.values(byStep)) {
+    Object.assign(variables, values);
+  }
+  for (const variable of runVariables) {
+    variables[variable.name] = variable.value;
+  }
+
+  // Structured outputs are checked like form fields, e.g. stepResults.scoring.score
+  const withOutputs: RuleContext['stepResults'] = { ...byStep };
+  for (const [stepId, output] of Object.entries(getStructuredOutputsByStep(stepResults))) {
+    withOutputs[stepId] = { ...(withOutputs[stepId] || {}), ...output };
+  }
+  return { stepResults: withOutputs, variables };
+}
+
+/**
+ * Evaluates the step's branch rules in order
+ * Returns the first matching rule's target, or null if no rule applies
+ */
+export function evaluateBranchRules(
+  currentStep: SOPStep,
+  context: RuleContext
+): { stepId: string; condition: string; description?: string } | null {
+  if (!currentStep.branchRules || currentStep.branchRules.length === 0) {
+    return null;
+  }
+
+  const validNextSteps = getValidNextSteps(currentStep);
+
+  for (const rule of currentStep.branchRules) {
+    if (!validNextSteps.includes(rule.nextStep)) {
+      console.warn(
+        `Branch rule on step "${currentStep.id}" targets "${rule.nextStep}", which is not a valid next step. Skipping.`
+      );
+      continue;
+    }
+    if (evaluateCondition(rule.condition, context as unknown as Record<string, any>)) {
+      return { stepId: rule.nextStep, condition: rule.condition, description: rule.description };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Determines which step to transition to based on the user message
- * Uses Instructor to get a structured decision from the model
+ * A held step never advances. Branch rules are checked next so rule-driven branches are deterministic;
+ * otherwise uses Instructor to get a structured decision from the model
  */
 export async function determineNextStep(
   history: any[],
   currentStep: SOPStep,
-  sop: SOP
-): Promise<{ stepId: string }> {
+  sop: SOP,
+  stepResults: StepResult[] = [],
+  runVariables: RunVariable[] = [],
+  hold?: StepHold
+): Promise<StepDecision> {
+  // A held step stays put until it is approved, its documents are provided or its output is submitted
+  if (hold) {
+    return { stepId: currentStep.id, source: hold };
+  }
+
+  // Rules are only checked once the step's own form (if any) has been submitted,
+  // so conditions never see a half-collected step
+  if (!isStepFormPending(currentStep, stepResults)) {
+    const ruleMatch = evaluateBranchRules(currentStep, buildRuleContext(stepResults, runVariables));
+    if (ruleMatch) {
+      return {
+        stepId: ruleMatch.stepId,
+        source: 'rule',
+        rule: ruleMatch.condition,
+        rationale: ruleMatch.description || `Branch rule matched: ${ruleMatch.condition}`,
+      };
+    }
+  }
+
   try {
     const validNextSteps = getValidNextSteps(currentStep);
 
     // Create schema with enum enforcing valid steps
     const StepDecisionSchema = z.object({
       nextStep: z.enum(validNextSteps as unknown as readonly [string, ...string[]]),
+      rationale: z.string().describe('One or two sentences on why, citing what in the conversation shows the current step is or is not complete'),
+      confidence: z.number().min(0).max(1).describe('How sure you are of this decision, from 0 to 1'),
     });
 
     // Initialize Instructor with OpenAI
@@ -94,9 +216,11 @@ Valid Next Steps: ${validNextSteps.join(', ')}
 
 Analyze the user's message and the current step requirements. Decide whether to:
 1. Stay on the current step (if more work is needed)
-2. Advance to one of the valid next steps (if the current step is complete)`;
+2. Advance to one of the valid next steps (if the current step is complete)${validNextSteps.includes(DONE_STEP_ID) ? `
+
+${DONE_STEP_ID} finishes the SOP. Choose it only when the current step's work is complete and nothing more is being asked of it.` : ''}`;
     const decision = await client.chat.completions.create({
-      model: process.env.CHEAP_MODEL || 'gpt-4.1-mini',
+      model: CHEAP_MODEL,
       messages: [
         {
           role: 'user',
@@ -110,13 +234,14 @@ Analyze the user's message and the current step requirements. Decide whether to:
     });
 
     // Validate the decision
-    const nextStep = (decision as any).nextStep;
+    const { nextStep, rationale, confidence } = decision as z.infer<typeof StepDecisionSchema>;
     if (!validNextSteps.includes(nextStep)) {
       console.warn(
         `Model returned invalid step "${nextStep}". Valid options: ${validNextSteps.join(', ')}. Staying on current step.`
       );
       return {
         stepId: currentStep.id,
+        source: 'llm',
       };
     }
 
@@ -124,19 +249,39 @@ Analyze the user's message and the current step requirements. Decide whether to:
     if (nextStep === 'stay_on_current_step') {
       return {
         stepId: currentStep.id,
+        source: 'llm',
+        rationale,
+        confidence,
       };
     }
 
     // Otherwise return the decided step ID
     return {
       stepId: nextStep,
+      source: 'llm',
+      rationale,
+      confidence,
     };
   } catch (error) {
     console.error('Error determining next step:', error);
     // On error, stay on current step
     return {
       stepId: currentStep.id,
+      source: 'llm',
     };
   }
 }
 
+
+/**
+ * Whether a step decision should be confirmed by the user before it is applied
+ * Only the model's decisions to leave the step are held back; rules and holds are certain
+ */
+export function needsConfirmation(decision: StepDecision, currentStepId: string): boolean {
+  return (
+    decision.source === 'llm' &&
+    decision.stepId !== currentStepId &&
+    decision.confidence !== undefined &&
+    decision.confidence < STEP_CONFIRMATION_THRESHOLD
+  );
+}
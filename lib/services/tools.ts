@@ -3,22 +3,21 @@
  * Handles parsing, validation, and execution of AI-called tools
  */
 
-import { executeTool as executeToolFromOpenAI } from '@/lib/openai';
-import { updateSOPRunStep, saveAIGeneratedDocument, getAllSOPs } from '@/lib/db';
+import { executeTool as executeToolFromOpenAI, SUBMIT_STEP_OUTPUT_TOOL } from '@/lib/openai';
+import { updateSOPRunStep, saveAIGeneratedDocument, getAllSOPs, setRunVariable, saveStructuredStepOutput } from '@/lib/db';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import type { SOP, SOPStep } from '@/lib/types/sop';
 import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import { lintSOP, formatLintIssues, type LintIssue } from '@/lib/services/sopLinter';
+import { validateAgainstSchema } from '@/lib/utils/json-schema';
+import { BUILT_IN_SOPS, createSOP, updateSOP, removeSOP, type SOPOperationResult } from '@/lib/services/sops';
 
 /**
  * Default tools provided to non-SOP chats
  */
 export const DEFAULT_TOOLS: string[] = [];
 
-/**
- * Built-in SOP IDs that cannot be deleted
- * These are the SOPs that are loaded by default and should be protected
- */
-export const BUILT_IN_SOPS = ['pdf-summary', 'content-plan', 'sop-management'];
+export { BUILT_IN_SOPS };
 
 /**
  * Generates descriptions for SOP management tools with actual SOP IDs from the database
@@ -83,13 +82,25 @@ export function generateDynamicToolDescriptions(): {
 
 /**
  * Gets the list of tools available for a given context
- * If a SOP is provided, returns its providedTools, otherwise returns DEFAULT_TOOLS
+ * If a SOP is provided, returns the current step's allowedTools (limited to the SOP's
+ * providedTools), or all providedTools when the step doesn't narrow them.
+ * Structured output steps with a schema also get the submit tool.
+ * Without a SOP, returns DEFAULT_TOOLS
  */
-export function getAvailableTools(sop?: SOP): string[] {
-  if (sop && sop.providedTools) {
-    return sop.providedTools;
+export function getAvailableTools(sop?: SOP, stepId?: string): string[] {
+  if (!sop) {
+    return DEFAULT_TOOLS;
+  }
+
+  const providedTools = sop.providedTools || [];
+  const step = stepId ? findStepById(sop, stepId) : undefined;
+  const tools = step?.allowedTools
+    ? step.allowedTools.filter(tool => providedTools.includes(tool))
+    : providedTools;
+  if (step?.expectedOutput?.type === 'structured' && step.expectedOutput.schema) {
+    return [...tools, SUBMIT_STEP_OUTPUT_TOOL];
   }
-  return DEFAULT_TOOLS;
+  return tools;
 }
 
 /**
@@ -176,56 +187,75 @@ function executeDisplaySOPTool(sopId: string, context?: ToolExecutionContext): {
 }
 
 /**
- * Validates SOP structure and returns validation errors if any
+ * Formats lint warnings to append to a successful save result
  */
-function validateSOPStructure(sop: any): string[] {
-  const errors: string[] = [];
-
-  if (!sop || typeof sop !== 'object') {
-    errors.push('SOP must be a valid JSON object. Ensure you\'re passing the complete SOP from display_sop_to_user, not a string or partial object. Try again immediately with the full SOP object.');
-    return errors;
-  }
-
-  if (!sop.id || typeof sop.id !== 'string') {
-    errors.push('SOP must have a valid id field (string in kebab-case like "my-sop"). Ensure the SOP object includes the id field. Try again immediately with a corrected SOP.');
-  }
-
-  if (!sop.name || typeof sop.name !== 'string') {
-    errors.push('SOP must have a valid name field (string in snake_case like "my_sop"). Ensure the SOP object includes the name field. Try again immediately with a corrected SOP.');
-  }
-
-  if (!sop.displayName || typeof sop.displayName !== 'string') {
-    errors.push('SOP must have a valid displayName field (human-readable string like "My SOP"). Ensure the SOP object includes the displayName field. Try again immediately with a corrected SOP.');
+function formatLintWarnings(issues: LintIssue[]): string {
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+  if (warnings.length === 0) {
+    return '';
   }
+  return `\n\nThe SOP was saved, but the linter reported warnings. Mention these to the user and offer to fix them:\n${formatLintIssues(warnings)}`;
+}
 
-  if (!sop.steps || !Array.isArray(sop.steps) || sop.steps.length === 0) {
-    errors.push('SOP must have a steps array with at least one step. Every SOP needs at least one step with id, stepNumber, assistantFacingTitle, and description. Try again immediately with at least one step defined.');
-  } else {
-    // Validate steps
-    const stepIds = new Set<string>();
-    for (const step of sop.steps) {
-      if (!step.id || typeof step.id !== 'string') {
-        errors.push(`Step is missing a valid id field (should be kebab-case like "step-1"). Ensure every step has a unique id. Try again immediately with corrected step IDs.`);
-      } else if (stepIds.has(step.id)) {
-        errors.push(`Duplicate step id found: "${step.id}". Each step must have a unique id. Try again immediately with unique step IDs.`);
-      } else {
-        stepIds.add(step.id);
-      }
-
-      if (typeof step.stepNumber !== 'number') {
-        errors.push(`Step "${step.id || '?'}" must have a numeric stepNumber field (e.g., 1, 2, 3). Try again immediately with numeric stepNumbers for all steps.`);
+/**
+ * Turns a failed SOP operation into a tool result the model can act on
+ */
+function describeSOPFailure(
+  failure: Extract<SOPOperationResult, { success: false }>,
+  action: 'save' | 'create' | 'delete',
+  sopId?: string
+): { result: string; metadata: Record<string, any> } {
+  switch (failure.code) {
+    case 'invalid':
+      if (failure.issues) {
+        return {
+          result: `Cannot ${action} SOP - validation failed. Issues:\n${formatLintIssues(failure.issues)}\n\nFix every error and try again immediately with a corrected SOP object.`,
+          metadata: {
+            valid: false,
+            errors: failure.issues.filter((issue) => issue.severity === 'error').map((issue) => issue.message),
+            issues: failure.issues,
+          },
+        };
       }
-    }
+      return {
+        result: `Cannot ${action} SOP: ${failure.error}. Try again immediately with a corrected SOP object.`,
+        metadata: { valid: false, errors: [failure.error] },
+      };
+    case 'conflict':
+      return {
+        result: `Error: ${failure.error} in the database. Choose a different, unique ID for this new SOP, or use overwrite_sop if you want to update the existing SOP instead. Try again immediately with a unique ID.`,
+        metadata: {},
+      };
+    case 'not_found':
+      return {
+        result: action === 'save'
+          ? `Error: ${failure.error} in the database. overwrite_sop can only update existing SOPs - use create_sop to create a new one, or call display_sop_to_user to check the ID. Try again immediately.`
+          : `Error: ${failure.error} in the database. Please verify the SOP ID is correct and try again immediately.`,
+        metadata: {},
+      };
+    case 'protected':
+      return {
+        result: `Error: Cannot delete built-in SOP "${sopId}". Built-in SOPs (${BUILT_IN_SOPS.join(', ')}) are protected and cannot be deleted. Only custom user-created SOPs can be deleted.`,
+        metadata: {},
+      };
+    case 'read_only':
+      return {
+        result: `Error: ${failure.error}. Do not retry - tell the user this SOP is file-managed and must be changed in its source file.`,
+        metadata: {},
+      };
+    case 'in_use':
+      return {
+        result: `Error: ${failure.error}, because chats have already run it. Tell the user the SOP is still referenced by existing runs.`,
+        metadata: {},
+      };
   }
-
-  return errors;
 }
 
 /**
  * Executes the overwrite_sop tool
  * Applies approved edits and saves to database
  */
-function executeOverwriteSOPTool(modifiedSOPString: string, context?: ToolExecutionContext): { result: string; metadata: Record<string, any> } {
+function executeOverwriteSOPTool(modifiedSOPString: string, changeNote?: string, context?: ToolExecutionContext): { result: string; metadata: Record<string, any> } {
   try {
     if (!modifiedSOPString) {
       return {
@@ -244,27 +274,24 @@ function executeOverwriteSOPTool(modifiedSOPString: string, context?: ToolExecut
       };
     }
 
-    const validationErrors = validateSOPStructure(modifiedSOP);
-
-    if (validationErrors.length > 0) {
-      return {
-        result: `Cannot save SOP - validation failed. Errors:\n${validationErrors.join('\n')}\n\nReview these errors and try again immediately with a corrected SOP object.`,
-        metadata: {
-          valid: false,
-          errors: validationErrors,
-        },
-      };
+    // Without an ID there's nothing to look up, so report the full lint result instead
+    if (typeof modifiedSOP?.id !== 'string') {
+      return describeSOPFailure({ success: false, code: 'invalid', error: 'SOP is missing an id', issues: lintSOP(modifiedSOP).issues }, 'save');
     }
 
-    const { saveSOP, saveSOPDraft } = require('@/lib/db');
-    
-    // Ensure timestamps are set
-    modifiedSOP.updatedAt = new Date().toISOString();
-    if (!modifiedSOP.createdAt) {
-      modifiedSOP.createdAt = new Date().toISOString();
+    const { saveSOPDraft, getChatOwnerUsername } = require('@/lib/db');
+
+    const saveResult = updateSOP(modifiedSOP.id, modifiedSOP, {
+      author: context?.chatId ? getChatOwnerUsername(context.chatId) : undefined,
+      changeNote,
+    });
+
+    if (!saveResult.success) {
+      return describeSOPFailure(saveResult, 'save');
     }
 
-    saveSOP(modifiedSOP);
+    modifiedSOP = saveResult.sop;
+    const savedVersion = saveResult.version!;
 
     // Save as draft for display
     let draftId: number | undefined;
@@ -278,11 +305,14 @@ function executeOverwriteSOPTool(modifiedSOPString: string, context?: ToolExecut
     }
 
     return {
-      result: `Successfully updated SOP "${modifiedSOP.displayName}" (ID: ${modifiedSOP.id}). The changes have been saved to the database.`,
+      result: `Successfully updated SOP "${modifiedSOP.displayName}" (ID: ${modifiedSOP.id}). The changes have been saved to the database as version ${savedVersion.versionNumber}. Runs already in progress keep following the version they started on.${formatLintWarnings(saveResult.issues)}`,
       metadata: {
         sopId: modifiedSOP.id,
         displayName: modifiedSOP.displayName,
         updatedAt: modifiedSOP.updatedAt,
+        versionId: savedVersion.id,
+        versionNumber: savedVersion.versionNumber,
+        lintIssues: saveResult.issues,
         draftId: draftId,
       },
     };
@@ -317,35 +347,17 @@ function executeCreateSOPTool(newSOPString: string, context?: ToolExecutionConte
       };
     }
 
-    const validationErrors = validateSOPStructure(newSOP);
-
-    if (validationErrors.length > 0) {
-      return {
-        result: `Cannot create SOP - validation failed. Errors:\n${validationErrors.join('\n')}\n\nReview these errors and try again immediately with a corrected SOP object.`,
-        metadata: {
-          valid: false,
-          errors: validationErrors,
-        },
-      };
-    }
+    const { saveSOPDraft, getChatOwnerUsername } = require('@/lib/db');
 
-    const { getSOP, saveSOP, saveSOPDraft } = require('@/lib/db');
+    const saveResult = createSOP(newSOP, {
+      author: context?.chatId ? getChatOwnerUsername(context.chatId) : undefined,
+    });
 
-    // Check if SOP with this ID already exists
-    const existing = getSOP(newSOP.id);
-    if (existing) {
-      return {
-        result: `Error: A SOP with ID "${newSOP.id}" already exists in the database. Choose a different, unique ID (e.g., "${newSOP.id}-v2") for this new SOP, or use overwrite_sop if you want to update the existing SOP instead. Try again immediately with a unique ID.`,
-        metadata: {},
-      };
+    if (!saveResult.success) {
+      return describeSOPFailure(saveResult, 'create');
     }
 
-    // Set timestamps
-    const now = new Date().toISOString();
-    newSOP.createdAt = now;
-    newSOP.updatedAt = now;
-
-    saveSOP(newSOP);
+    newSOP = saveResult.sop;
 
     // Save as draft for display
     let draftId: number | undefined;
@@ -359,12 +371,13 @@ function executeCreateSOPTool(newSOPString: string, context?: ToolExecutionConte
     }
 
     return {
-      result: `Successfully created new SOP "${newSOP.displayName}" (ID: ${newSOP.id}). The new SOP has been saved to the database and is now available for use.`,
+      result: `Successfully created new SOP "${newSOP.displayName}" (ID: ${newSOP.id}). The new SOP has been saved to the database and is now available for use.${formatLintWarnings(saveResult.issues)}`,
       metadata: {
         sopId: newSOP.id,
         displayName: newSOP.displayName,
         createdAt: newSOP.createdAt,
         draftId: draftId,
+        lintIssues: saveResult.issues,
       },
     };
   } catch (error) {
@@ -381,25 +394,13 @@ function executeCreateSOPTool(newSOPString: string, context?: ToolExecutionConte
  */
 function executeDeleteSOPTool(sopId: string): { result: string; metadata: Record<string, any> } {
   try {
-    if (BUILT_IN_SOPS.includes(sopId)) {
-      return {
-        result: `Error: Cannot delete built-in SOP "${sopId}". Built-in SOPs (${BUILT_IN_SOPS.join(', ')}) are protected and cannot be deleted. Only custom user-created SOPs can be deleted.`,
-        metadata: {},
-      };
-    }
-
-    const { getSOP, deleteSOP } = require('@/lib/db');
+    const deleteResult = removeSOP(sopId);
 
-    // Check if SOP exists
-    const sop = getSOP(sopId);
-    if (!sop) {
-      return {
-        result: `Error: SOP with ID "${sopId}" not found in the database. Please verify the SOP ID is correct and try again immediately.`,
-        metadata: {},
-      };
+    if (!deleteResult.success) {
+      return describeSOPFailure(deleteResult, 'delete', sopId);
     }
 
-    deleteSOP(sopId);
+    const sop = deleteResult.sop;
 
     return {
       result: `Successfully deleted SOP "${sop.displayName}" (ID: ${sopId}). This action cannot be undone. The SOP has been permanently removed from the database.`,
@@ -443,7 +444,8 @@ function executeWriteDocumentTool(stepId: string, documentName: string, content:
       context.chatId,
       documentName,
       content,
-      context.sopRunId
+      context.sopRunId,
+      step.id
     );
 
     // Print the document to console
@@ -470,6 +472,99 @@ function executeWriteDocumentTool(stepId: string, documentName: string, content:
   }
 }
 
+/**
+ * Executes the set_variable tool
+ * Stores a run variable so templates and branch rules can use it
+ */
+function executeSetVariableTool(name: string, value: unknown, context?: ToolExecutionContext): { result: string; metadata: Record<string, any> } {
+  if (!context?.sopRunId) {
+    return {
+      result: 'Error: No active SOP run found for this chat',
+      metadata: {},
+    };
+  }
+
+  if (typeof name !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(name)) {
+    return {
+      result: `Error: Invalid variable name "${name}". Use letters, numbers and underscores only (e.g. "client_name"). Try again immediately with a valid name.`,
+      metadata: {},
+    };
+  }
+
+  if (value === undefined || value === null || typeof value === 'object') {
+    return {
+      result: `Error: Variable "${name}" needs a text value. Try again immediately with a value.`,
+      metadata: {},
+    };
+  }
+
+  try {
+    const variable = setRunVariable(context.sopRunId, name, String(value), 'tool', context.currentStepId);
+    return {
+      result: `Variable "${name}" set to "${variable.value}".`,
+      metadata: {
+        variableName: name,
+        variableValue: variable.value,
+      },
+    };
+  } catch (error) {
+    console.error('Error setting run variable:', error);
+    return {
+      result: `Error setting variable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      metadata: {},
+    };
+  }
+}
+
+/**
+ * Executes the submit_step_output tool
+ * Stores the object as the current step's result when it matches the step's schema;
+ * otherwise returns the schema errors so the model can fix them
+ */
+function executeSubmitStepOutputTool(output: unknown, context?: ToolExecutionContext): { result: string; metadata: Record<string, any> } {
+  if (!context?.sop || !context.sopRunId || !context.currentStepId) {
+    return {
+      result: 'Error: No active SOP run found for this chat',
+      metadata: {},
+    };
+  }
+
+  const step = findStepById(context.sop, context.currentStepId);
+  const schema = step?.expectedOutput?.schema;
+  if (!step || !schema) {
+    return {
+      result: `Error: Step "${context.currentStepId}" does not have a structured output schema`,
+      metadata: {},
+    };
+  }
+
+  const errors = validateAgainstSchema(output, schema);
+  if (errors.length > 0) {
+    return {
+      result: `Error: The output does not match the step's schema:\n${errors.map((e) => `- ${e}`).join('\n')}\nFix these problems and call ${SUBMIT_STEP_OUTPUT_TOOL} again immediately.`,
+      metadata: { errors },
+    };
+  }
+
+  try {
+    saveStructuredStepOutput(context.sopRunId, step.id, output as Record<string, unknown>);
+    return {
+      result: `Output for step "${step.id}" saved and shown to the user as a table.`,
+      metadata: {
+        stepId: step.id,
+        title: step.userFacingTitle || step.assistantFacingTitle,
+        output,
+      },
+    };
+  } catch (error) {
+    console.error('Error saving structured output:', error);
+    return {
+      result: `Error saving output: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      metadata: {},
+    };
+  }
+}
+
 /**
  * Executes a single tool call and returns the result with metadata
  */
@@ -484,16 +579,37 @@ export function executeSingleTool(toolCall: ToolCall, context?: ToolExecutionCon
       console.log(`Tool called: ${toolCall.function.name}, args keys:`, Object.keys(args));
     }
 
+    // The model only sees the tools scoped to the current step, but never trust that it complied
+    const availableTools = getAvailableTools(context?.sop, context?.currentStepId);
+    if (!availableTools.includes(toolCall.function.name)) {
+      console.warn(`Blocked call to ${toolCall.function.name}: not available in step ${context?.currentStepId || '(none)'}`);
+      return {
+        toolCall,
+        args,
+        result: `Error: The ${toolCall.function.name} tool is not available ${context?.currentStepId ? `in step "${context.currentStepId}"` : 'in this chat'}. Available tools: ${availableTools.join(', ') || 'none'}.`,
+        metadata: { blocked: true },
+      };
+    }
+
     if (toolCall.function.name === 'write_document') {
       const toolResult = executeWriteDocumentTool(args.stepId, args.documentName, args.content, context);
       result = toolResult.result;
       metadata = toolResult.metadata;
+    } else if (toolCall.function.name === 'set_variable') {
+      const toolResult = executeSetVariableTool(args.name, args.value, context);
+      result = toolResult.result;
+      metadata = toolResult.metadata;
+    } else if (toolCall.function.name === SUBMIT_STEP_OUTPUT_TOOL) {
+      // The arguments are the output object itself
+      const toolResult = executeSubmitStepOutputTool(args, context);
+      result = toolResult.result;
+      metadata = toolResult.metadata;
     } else if (toolCall.function.name === 'display_sop_to_user') {
       const toolResult = executeDisplaySOPTool(args.sopId, context);
       result = toolResult.result;
       metadata = toolResult.metadata;
     } else if (toolCall.function.name === 'overwrite_sop') {
-      const toolResult = executeOverwriteSOPTool(args.modifiedSOP, context);  // args.modifiedSOP is a JSON string
+      const toolResult = executeOverwriteSOPTool(args.modifiedSOP, args.changeNote, context);  // args.modifiedSOP is a JSON string
       result = toolResult.result;
       metadata = toolResult.metadata;
     } else if (toolCall.function.name === 'create_sop') {
@@ -0,0 +1,92 @@
+/**
+ * Variable extraction service
+ * Uses Instructor with a cheap model to pull the SOP's declared variables
+ * out of the conversation once the user mentions them
+ */
+
+import { z } from 'zod';
+import createInstructor from '@instructor-ai/instructor';
+import OpenAI from 'openai';
+import { CHEAP_MODEL } from '@/lib/openai';
+import type { RunVariable, SOP, VariableDefinition } from '@/lib/types/sop';
+
+/**
+ * Declared variables that don't have a value yet
+ */
+export function getMissingVariables(sop: SOP, variables: RunVariable[]): VariableDefinition[] {
+  const known = new Set(variables.map((v) => v.name));
+  return (sop.variables || []).filter((definition) => !known.has(definition.name));
+}
+
+/**
+ * Extracts values for the given variables from recent conversation messages
+ * Only returns variables the conversation actually states; returns {} on failure
+ */
+export async function extractRunVariables(
+  history: Array<{ role: string; content: string | null }>,
+  definitions: VariableDefinition[]
+): Promise<Record<string, string>> {
+  if (definitions.length === 0) {
+    return {};
+  }
+
+  try {
+    const ExtractionSchema = z.object(
+      Object.fromEntries(
+        definitions.map((definition) => [
+          definition.name,
+          z.string().nullable().describe(`${definition.description}. null if the conversation does not state it`),
+        ])
+      )
+    );
+
+    const client = createInstructor({
+      client: new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      }),
+      mode: 'TOOLS',
+    });
+
+    // Only user and assistant text is useful; tool results are mostly documents
+    const recentMessages = history
+      .filter((m) => m.content && (m.role === 'user' || m.role === 'assistant'))
+      .slice(-6);
+    if (recentMessages.length === 0) {
+      return {};
+    }
+
+    const prompt = `Extract the following values from the conversation. Only fill in a value the conversation states explicitly; use null for anything that is not stated. Do not guess.
+
+Values:
+${definitions.map((d) => `- ${d.name}: ${d.description}`).join('\n')}
+
+Conversation:
+${recentMessages.map((m) => `${m.role.toUpperCase()}: ${m.content}`).join('\n')}`;
+
+    const result = await client.chat.completions.create({
+      model: CHEAP_MODEL,
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      response_model: {
+        schema: ExtractionSchema,
+        name: 'RunVariables',
+      },
+    });
+
+    const extracted: Record<string, string> = {};
+    for (const definition of definitions) {
+      const value = (result as Record<string, unknown>)[definition.name];
+      if (typeof value === 'string' && value.trim()) {
+        extracted[definition.name] = value.trim();
+      }
+    }
+    return extracted;
+  } catch (error) {
+    console.error('Error extracting run variables:', error);
+    return {};
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * SOP directory sync
+ * Loads SOP definition files (JSON or YAML bare SOPs or bundles, or Markdown SOPs) from the
+ * directory named by SOP_DIRECTORY and upserts them into the database.
+ * SOPs loaded this way are marked with their source file and are read-only
+ * everywhere else, so the files (e.g. checked into git) stay the source of truth.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getSOP, saveSOP, setSOPSourceFile, getFileManagedSOPIds } from '@/lib/db';
+import { parseSOPDefinitionFile, SOP_FILE_PATTERN } from '@/lib/services/sopBundle';
+import { lintSOP, formatLintIssues } from '@/lib/services/sopLinter';
+import type { SOP } from '@/lib/types/sop';
+
+// Survives module reloads in development so only one watcher is ever running
+const globalForSOPDirectory = globalThis as unknown as {
+  sopDirectoryWatcher?: fs.FSWatcher;
+};
+
+/**
+ * Lists SOP definition files in a directory, including subdirectories
+ */
+function listSOPFiles(directory: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listSOPFiles(fullPath));
+    } else if (SOP_FILE_PATTERN.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Strips fields that change on every save so definitions can be compared
+ */
+function getComparableDefinition(sop: SOP): string {
+  const definition: Partial<SOP> = { ...sop };
+  delete definition.createdAt;
+  delete definition.updatedAt;
+  delete definition.sourceFile;
+  return JSON.stringify(definition);
+}
+
+/**
+ * Validates and upserts a single SOP from a definition file
+ * Invalid definitions are reported and the last good version is kept
+ */
+function syncSOPFromFile(sop: any, relativePath: string): void {
+  const lintResult = lintSOP(sop);
+  if (!lintResult.valid) {
+    console.error(`SOP file ${relativePath} failed validation and was not loaded:\n${formatLintIssues(lintResult.issues)}`);
+    return;
+  }
+  if (lintResult.issues.length > 0) {
+    console.warn(`SOP file ${relativePath} has warnings:\n${formatLintIssues(lintResult.issues)}`);
+  }
+
+  const existing = getSOP(sop.id);
+  if (!existing || getComparableDefinition(existing) !== getComparableDefinition(sop)) {
+    const now = new Date().toISOString();
+    saveSOP(
+      { ...sop, createdAt: sop.createdAt || existing?.createdAt || now, updatedAt: now },
+      { author: 'SOP directory', changeNote: `Loaded from ${relativePath}` }
+    );
+    console.log(`${existing ? 'Updated' : 'Loaded'} SOP ${sop.id} from ${relativePath}`);
+  }
+
+  if (existing?.sourceFile !== relativePath) {
+    setSOPSourceFile(sop.id, relativePath);
+  }
+}
+
+/**
+ * Loads every SOP definition file in the directory into the database
+ * SOPs whose files have been removed become regular, editable SOPs again
+ */
+export function syncSOPDirectory(directory: string): void {
+  const seenIds = new Map<string, string>();
+
+  for (const filePath of listSOPFiles(directory)) {
+    const relativePath = path.relative(directory, filePath);
+
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      console.error(`Error reading SOP file ${relativePath}:`, error);
+      continue;
+    }
+
+    const { entries, error } = parseSOPDefinitionFile(filePath, content);
+    if (error) {
+      console.error(`SOP file ${relativePath} could not be loaded: ${error}`);
+      continue;
+    }
+
+    for (const entry of entries) {
+      const sopId = typeof entry.sop?.id === 'string' ? entry.sop.id : undefined;
+      if (sopId && seenIds.has(sopId)) {
+        console.error(`SOP file ${relativePath} defines "${sopId}", which is already defined in ${seenIds.get(sopId)}. Skipping.`);
+        continue;
+      }
+      if (sopId) {
+        seenIds.set(sopId, relativePath);
+      }
+
+      try {
+        syncSOPFromFile(entry.sop, relativePath);
+      } catch (e) {
+        console.error(`Error loading SOP from ${relativePath}:`, e);
+      }
+    }
+  }
+
+  for (const sopId of getFileManagedSOPIds()) {
+    if (!seenIds.has(sopId)) {
+      console.log(`SOP ${sopId} is no longer defined in ${directory}; it is now editable`);
+      setSOPSourceFile(sopId, null);
+    }
+  }
+}
+
+/**
+ * Reloads the directory whenever a definition file changes
+ * Changes are debounced since editors often write files in several steps
+ */
+function watchSOPDirectory(directory: string): void {
+  if (globalForSOPDirectory.sopDirectoryWatcher) return;
+
+  let reloadTimer: NodeJS.Timeout | undefined;
+  const handleChange = (eventType: string, filename: string | Buffer | null) => {
+    if (filename && !SOP_FILE_PATTERN.test(filename.toString())) return;
+    clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(() => {
+      try {
+        syncSOPDirectory(directory);
+      } catch (error) {
+        console.error('Error reloading SOP directory:', error);
+      }
+    }, 300);
+  };
+
+  try {
+    globalForSOPDirectory.sopDirectoryWatcher = fs.watch(directory, { recursive: true }, handleChange);
+  } catch {
+    // Recursive watching isn't supported on every platform
+    globalForSOPDirectory.sopDirectoryWatcher = fs.watch(directory, handleChange);
+  }
+  console.log(`Watching ${directory} for SOP changes`);
+}
+
+/**
+ * Loads SOPs from SOP_DIRECTORY, if configured, and watches it in development
+ */
+export function initializeSOPDirectory(): void {
+  const configured = process.env.SOP_DIRECTORY;
+  if (!configured) return;
+
+  const directory = path.resolve(process.cwd(), configured);
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    console.error(`SOP_DIRECTORY "${configured}" is not a directory; no SOP files were loaded`);
+    return;
+  }
+
+  syncSOPDirectory(directory);
+
+  if (process.env.NODE_ENV === 'development') {
+    watchSOPDirectory(directory);
+  }
+}
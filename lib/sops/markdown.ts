@@ -0,0 +1,525 @@
+/**
+ * Markdown SOP parser
+ * Turns a SOP written in a small Markdown/plain-text dialect into a SOP object,
+ * so procedures can be authored in a text editor instead of as JSON.
+ * The dialect is documented in the README under "Writing SOPs in Markdown".
+ */
+
+import { lintSOP } from '@/lib/services/sopLinter';
+import type { ExpectedOutput, ModelSettings, SOP, SOPFormat, SOPStep, VariableDefinition } from '@/lib/types/sop';
+import { DONE_STEP_ID } from '@/lib/utils/sop-graph';
+
+/**
+ * A problem found while parsing, with the 1-based line it was found on
+ */
+export interface SOPParseError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of parsing a Markdown SOP
+ * sop is only set when there are no errors
+ */
+export interface SOPParseResult {
+  sop?: SOP;
+  errors: SOPParseError[];
+}
+
+interface SourceLine {
+  text: string;
+  line: number;
+}
+
+interface Section {
+  heading: string;
+  line: number;
+  lines: SourceLine[];
+}
+
+interface Property {
+  value: string;
+  line: number;
+}
+
+const EXPECTED_OUTPUT_TYPES: ExpectedOutput['type'][] = ['text', 'html-document', 'structured', 'conversation'];
+
+// Properties recognised at the top of each kind of section
+const MODEL_PROPERTIES = ['model', 'temperature', 'reasoning'];
+const SOP_PROPERTIES = ['id', 'name', 'version', 'tools', ...MODEL_PROPERTIES];
+const STEP_PROPERTIES = ['id', 'title', 'output', 'format', 'expects', 'schema', 'next', 'documents', 'tools', 'sop', 'approval', ...MODEL_PROPERTIES];
+const FORMAT_PROPERTIES = ['id'];
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/;
+
+/**
+ * Reads the model, temperature and reasoning properties into model settings
+ * Returns undefined when none are set so they inherit from the SOP
+ */
+function readModelSettings(properties: Map<string, Property>, errors: SOPParseError[]): ModelSettings | undefined {
+  const settings: ModelSettings = {};
+
+  const model = properties.get('model');
+  if (model) {
+    settings.model = model.value;
+  }
+
+  const temperature = properties.get('temperature');
+  if (temperature) {
+    const value = Number(temperature.value);
+    if (temperature.value === '' || Number.isNaN(value)) {
+      errors.push({ line: temperature.line, message: `Temperature "${temperature.value}" is not a number` });
+    } else {
+      settings.temperature = value;
+    }
+  }
+
+  const reasoning = properties.get('reasoning');
+  if (reasoning) {
+    settings.reasoningEffort = reasoning.value.toLowerCase() as ModelSettings['reasoningEffort'];
+  }
+
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/**
+ * Converts a title to a kebab-case ID
+ */
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Splits a comma-separated property value
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Joins lines into a block of text, dropping leading and trailing blank lines
+ */
+function joinText(lines: SourceLine[]): string {
+  return lines
+    .map((l) => l.text)
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Reads "key: value" lines (optionally bulleted) from the start of a section
+ * Stops at the first line that isn't a recognised property; the rest is returned as body
+ */
+function readProperties(
+  lines: SourceLine[],
+  allowed: string[],
+  errors: SOPParseError[]
+): { properties: Map<string, Property>; body: SourceLine[] } {
+  const properties = new Map<string, Property>();
+  let index = 0;
+
+  for (; index < lines.length; index++) {
+    const { text, line } = lines[index];
+    if (!text.trim()) continue;
+
+    const match = text.match(/^\s*(?:[-*]\s+)?([A-Za-z]+)\s*:\s*(.*)$/);
+    const key = match?.[1].toLowerCase();
+    if (!match || !key || !allowed.includes(key)) break;
+
+    if (properties.has(key)) {
+      errors.push({ line, message: `"${key}" is already set on line ${properties.get(key)!.line}` });
+    }
+    properties.set(key, { value: match[2].trim(), line });
+  }
+
+  return { properties, body: lines.slice(index) };
+}
+
+/**
+ * Splits the source into the title, the text before the first section, and "##" sections
+ * Headings inside fenced code blocks are left alone
+ */
+function splitSections(source: string, errors: SOPParseError[]): { title?: SourceLine; header: SourceLine[]; sections: Section[] } {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let title: SourceLine | undefined;
+  const header: SourceLine[] = [];
+  const sections: Section[] = [];
+  let openFence: SourceLine | undefined;
+  let reportedMissingTitle = false;
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const current = sections.length > 0 ? sections[sections.length - 1].lines : header;
+
+    if (FENCE_PATTERN.test(text)) {
+      openFence = openFence ? undefined : { text, line };
+      current.push({ text, line });
+      return;
+    }
+    if (openFence) {
+      current.push({ text, line });
+      return;
+    }
+
+    const heading = text.match(/^(#{1,2})\s+(.*?)\s*#*\s*$/);
+    if (heading?.[1] === '#') {
+      if (title) {
+        errors.push({ line, message: `Only one "#" title is allowed (the title is already set on line ${title.line})` });
+      } else {
+        title = { text: heading[2], line };
+      }
+      return;
+    }
+    if (heading?.[1] === '##') {
+      sections.push({ heading: heading[2], line, lines: [] });
+      return;
+    }
+
+    if (!title && text.trim()) {
+      // Reported once; a file without a title would otherwise flag every line
+      if (!reportedMissingTitle) {
+        errors.push({ line, message: 'Expected the SOP title as a "#" heading (e.g. "# Monthly Content Plan") before any other text' });
+        reportedMissingTitle = true;
+      }
+      return;
+    }
+    current.push({ text, line });
+  });
+
+  if (openFence) {
+    errors.push({ line: openFence.line, message: 'Code block is never closed' });
+  }
+
+  return { title, header, sections };
+}
+
+/**
+ * Parses a "## Step" section
+ */
+function parseStep(
+  section: Section,
+  stepNumber: number,
+  errors: SOPParseError[]
+): { step: SOPStep; next?: Property } {
+  const title = section.heading.replace(/^step\s*\d*\s*[:.)\-–—]?\s*/i, '').trim();
+  if (!title) {
+    errors.push({ line: section.line, message: 'Step heading needs a title (e.g. "## Step 1: Gather inputs")' });
+  }
+
+  const { properties, body } = readProperties(section.lines, STEP_PROPERTIES, errors);
+  const output = properties.get('output');
+  const format = properties.get('format');
+  const schema = properties.get('schema');
+
+  let type: ExpectedOutput['type'] = schema ? 'structured' : format ? 'html-document' : 'text';
+  if (output) {
+    if (EXPECTED_OUTPUT_TYPES.includes(output.value as ExpectedOutput['type'])) {
+      type = output.value as ExpectedOutput['type'];
+    } else {
+      errors.push({ line: output.line, message: `Unknown output type "${output.value}". Use one of: ${EXPECTED_OUTPUT_TYPES.join(', ')}` });
+    }
+  }
+
+  const step: SOPStep = {
+    id: properties.get('id')?.value || slugify(title) || `step-${stepNumber}`,
+    stepNumber,
+    assistantFacingTitle: title,
+    description: joinText(body),
+    expectedOutput: {
+      type,
+      ...(format && { format: format.value }),
+      ...(properties.has('expects') && { description: properties.get('expects')!.value }),
+    },
+    // Filled in once every step ID is known
+    nextStep: null,
+  };
+
+  if (schema) {
+    // The schema is written as JSON on one line
+    try {
+      step.expectedOutput.schema = JSON.parse(schema.value);
+    } catch {
+      errors.push({ line: schema.line, message: 'schema must be a JSON Schema object on one line (e.g. schema: {"type": "object", "properties": {...}})' });
+    }
+  }
+  if (properties.has('title')) {
+    step.userFacingTitle = properties.get('title')!.value;
+  }
+  if (properties.has('documents')) {
+    step.referencedDocuments = splitList(properties.get('documents')!.value);
+  }
+  if (properties.has('tools')) {
+    step.allowedTools = splitList(properties.get('tools')!.value);
+  }
+  if (properties.has('sop')) {
+    step.subSOP = properties.get('sop')!.value;
+  }
+  if (properties.has('approval')) {
+    const approval = properties.get('approval')!;
+    if (approval.value === 'required') {
+      step.requiresApproval = true;
+    } else if (approval.value !== 'none') {
+      errors.push({ line: approval.line, message: `Unknown approval "${approval.value}". Use required or none` });
+    }
+  }
+  const modelSettings = readModelSettings(properties, errors);
+  if (modelSettings) {
+    step.modelSettings = modelSettings;
+  }
+
+  return { step, next: properties.get('next') };
+}
+
+/**
+ * Parses the "## Variables" section
+ * Each bullet is "name: description"
+ */
+function parseVariables(section: Section, errors: SOPParseError[]): VariableDefinition[] {
+  const variables: VariableDefinition[] = [];
+
+  for (const { text, line } of section.lines) {
+    if (!text.trim()) continue;
+
+    const bullet = text.match(BULLET_PATTERN);
+    const match = bullet?.[1].match(/^([A-Za-z0-9_.-]+)\s*:\s*(.*)$/);
+    if (!match) {
+      errors.push({ line, message: 'Expected a variable bullet (e.g. "- client_name: The client\'s business name")' });
+      continue;
+    }
+
+    variables.push({ name: match[1], description: match[2].trim() });
+  }
+
+  return variables;
+}
+
+/**
+ * Parses the "## Documents" section
+ * Each bullet is "Name (text|file, required|optional): description"
+ */
+function parseDocuments(section: Section, errors: SOPParseError[]): SOP['userDocuments'] {
+  const documents: SOP['userDocuments'] = [];
+
+  for (const { text, line } of section.lines) {
+    if (!text.trim()) continue;
+
+    const bullet = text.match(BULLET_PATTERN);
+    if (!bullet) {
+      // Indented or wrapped text continues the previous document's description
+      const previous = documents[documents.length - 1];
+      if (previous) {
+        previous.description = [previous.description, text.trim()].filter(Boolean).join(' ');
+      } else {
+        errors.push({ line, message: 'Expected a document bullet (e.g. "- Client onboarding doc (file): Business name, offers, audience")' });
+      }
+      continue;
+    }
+
+    const match = bullet[1].match(/^([^(:]+?)\s*(?:\(([^)]*)\))?\s*(?::\s*(.*))?$/);
+    if (!match) {
+      errors.push({ line, message: `Could not read document "${bullet[1]}"` });
+      continue;
+    }
+
+    const document: SOP['userDocuments'][number] = {
+      id: slugify(match[1]),
+      name: match[1].trim(),
+      description: (match[3] || '').trim(),
+      type: 'text',
+      required: true,
+    };
+
+    for (const option of splitList(match[2] || '')) {
+      const normalized = option.toLowerCase();
+      if (normalized === 'text' || normalized === 'file') {
+        document.type = normalized;
+      } else if (normalized === 'required' || normalized === 'optional') {
+        document.required = normalized === 'required';
+      } else {
+        errors.push({ line, message: `Unknown document option "${option}". Use text or file, and required or optional` });
+      }
+    }
+
+    documents.push(document);
+  }
+
+  return documents;
+}
+
+/**
+ * Parses a "## Format" section
+ * Bullets are requirements and the fenced code block is the template
+ */
+function parseFormat(section: Section, errors: SOPParseError[]): SOPFormat {
+  const name = section.heading.replace(/^format\s*[:\-–—]?\s*/i, '').trim();
+  if (!name) {
+    errors.push({ line: section.line, message: 'Format heading needs a name (e.g. "## Format: Content ratio")' });
+  }
+
+  const { properties, body } = readProperties(section.lines, FORMAT_PROPERTIES, errors);
+  const requirements: string[] = [];
+  let template: string | undefined;
+  let fence: SourceLine[] | undefined;
+
+  for (const source of body) {
+    if (fence) {
+      if (FENCE_PATTERN.test(source.text)) {
+        if (template !== undefined) {
+          errors.push({ line: fence[0].line, message: 'A format can only have one code block' });
+        } else {
+          template = fence.slice(1).map((l) => l.text).join('\n');
+        }
+        fence = undefined;
+      } else {
+        fence.push(source);
+      }
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(source.text)) {
+      fence = [source];
+      continue;
+    }
+
+    const bullet = source.text.match(BULLET_PATTERN);
+    if (bullet) {
+      requirements.push(bullet[1].trim());
+    } else if (source.text.trim()) {
+      errors.push({ line: source.line, message: 'Format sections may only contain requirement bullets and one code block with the template' });
+    }
+  }
+
+  if (template === undefined) {
+    errors.push({ line: section.line, message: `Format "${name}" needs a code block with its template` });
+  }
+
+  return {
+    id: properties.get('id')?.value || slugify(name),
+    name,
+    template: template || '',
+    requirements,
+  };
+}
+
+/**
+ * Parses a Markdown SOP
+ * Runs the SOP linter on the result and reports its errors against the lines they came from
+ */
+export function parseSOPMarkdown(source: string): SOPParseResult {
+  const errors: SOPParseError[] = [];
+  const { title, header, sections } = splitSections(source, errors);
+
+  if (!title) {
+    if (errors.length === 0) {
+      errors.push({ line: 1, message: 'SOP is missing its "#" title' });
+    }
+    return { errors: errors.sort((a, b) => a.line - b.line) };
+  }
+
+  const { properties, body } = readProperties(header, SOP_PROPERTIES, errors);
+  const steps: SOPStep[] = [];
+  const nextProperties = new Map<SOPStep, Property | undefined>();
+  const stepLines = new Map<string, number>();
+  const nextLines = new Map<string, number>();
+  const formats: SOPFormat[] = [];
+  let generalInstructions: string | undefined;
+  let userDocuments: SOP['userDocuments'] = [];
+  let variables: VariableDefinition[] | undefined;
+
+  for (const section of sections) {
+    const kind = section.heading.toLowerCase();
+    if (/^step\b/.test(kind)) {
+      const { step, next } = parseStep(section, steps.length + 1, errors);
+      steps.push(step);
+      nextProperties.set(step, next);
+      if (!stepLines.has(step.id)) {
+        stepLines.set(step.id, section.line);
+        if (next) {
+          nextLines.set(step.id, next.line);
+        }
+      }
+    } else if (/^format\b/.test(kind)) {
+      formats.push(parseFormat(section, errors));
+    } else if (kind === 'instructions' || kind === 'general instructions') {
+      generalInstructions = joinText(section.lines);
+    } else if (kind === 'documents' || kind === 'user documents') {
+      userDocuments = parseDocuments(section, errors);
+    } else if (kind === 'variables') {
+      variables = parseVariables(section, errors);
+    } else {
+      errors.push({
+        line: section.line,
+        message: `Unknown section "${section.heading}". Sections are "Step ...", "Format: ...", "Instructions", "Documents" and "Variables"`,
+      });
+    }
+  }
+
+  // Steps without a next property continue to the following step, and the last one finishes
+  steps.forEach((step, index) => {
+    const next = nextProperties.get(step);
+    if (!next) {
+      step.nextStep = steps[index + 1]?.id || DONE_STEP_ID;
+      return;
+    }
+    const targets = splitList(next.value).map((target) =>
+      /^(done|end|finish)$/i.test(target) ? DONE_STEP_ID : target
+    );
+    step.nextStep = targets.length === 1 ? targets[0] : targets;
+  });
+
+  const modelSettings = readModelSettings(properties, errors);
+  const id = properties.get('id')?.value || slugify(title.text);
+  const now = new Date().toISOString();
+  const sop: SOP = {
+    id,
+    name: properties.get('name')?.value || id.replace(/-/g, '_'),
+    displayName: title.text,
+    description: joinText(body),
+    version: properties.get('version')?.value || '1.0.0',
+    ...(generalInstructions && { generalInstructions }),
+    userDocuments,
+    assistantOutputFormats: formats,
+    steps,
+    providedTools: splitList(properties.get('tools')?.value || ''),
+    ...(modelSettings && { modelSettings }),
+    ...(variables && { variables }),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (errors.length > 0) {
+    return { errors: errors.sort((a, b) => a.line - b.line) };
+  }
+
+  for (const issue of lintSOP(sop).issues) {
+    if (issue.severity !== 'error') continue;
+    let line: number | undefined;
+    if (issue.code === 'unknown-tool') {
+      line = properties.get('tools')?.line;
+    } else if (issue.stepId) {
+      line = (issue.code === 'unknown-next-step' && nextLines.get(issue.stepId)) || stepLines.get(issue.stepId);
+    }
+    errors.push({ line: line || title.line, message: issue.message });
+  }
+
+  if (errors.length > 0) {
+    return { errors: errors.sort((a, b) => a.line - b.line) };
+  }
+  return { sop, errors };
+}
+
+/**
+ * Formats parse errors one per line, e.g. "my-sop.md:12: Unknown output type"
+ */
+export function formatSOPParseErrors(errors: SOPParseError[], filename?: string): string {
+  return errors
+    .map((error) => `${filename ? `${filename}:` : 'line '}${error.line}: ${error.message}`)
+    .join('\n');
+}
@@ -14,7 +14,7 @@ export const SOPManagementSOP: SOP = {
   name: 'sop-management',
   displayName: 'SOP Management',
   description: 'Create ',
-  version: '1.0.0',
+  version: '1.1.0',
 
   generalInstructions: 'You are a helpful assistant that creates and/or edits SOPs for users. Your job is to help the user create and/or edit SOPs for their workflows.',
 
@@ -58,11 +58,34 @@ export const SOPManagementSOP: SOP = {
       "expectedOutput": {
         "type": "text" | "html-document" | "structured" | "conversation",
         "format": "format_id",
-        "description": "What output is expected"
+        "description": "What output is expected",
+        "schema": { "type": "object", "properties": { "field_name": { "type": "string" } }, "required": ["field_name"] }
       },
-      "nextStep": "next_step_id" | ["step_id_1", "step_id_2"] | "DONE"
+      "inputFields": [
+        {
+          "id": "field_id",
+          "label": "Field Label",
+          "type": "text" | "number" | "date" | "select" | "checkbox" | "file",
+          "required": true,
+          "options": ["Only for select fields"],
+          "validation": { "minLength": 1, "maxLength": 200, "pattern": "regex", "min": 0, "max": 100 }
+        }
+      ],
+      "nextStep": "next_step_id" | ["step_id_1", "step_id_2"] | "DONE",
+      "branchRules": [
+        { "condition": "stepResults.step_id.field_id == \"value\"", "nextStep": "step_id_1", "description": "Why this branch" }
+      ],
+      "allowedTools": ["tool_name_1"],
+      "modelSettings": { "model": "gpt-4.1", "temperature": 0.2, "reasoningEffort": "low" | "medium" | "high" },
+      "acceptanceCriteria": ["A checkable requirement the step's document must meet"],
+      "subSOP": "other-sop-id",
+      "requiresApproval": true
     }
   ],
+  "variables": [
+    { "name": "client_name", "description": "What the value is, so it can be picked out of the conversation" }
+  ],
+  "modelSettings": { "model": "gpt-4.1" },
   "providedTools": ["tool_name_1", "tool_name_2"],
   "createdAt": "ISO date string",
   "updatedAt": "ISO date string"
@@ -74,6 +97,17 @@ export const SOPManagementSOP: SOP = {
         'steps must be an array with at least one step',
         'Each step must have a unique id and stepNumber',
         'nextStep can be a single step id, array of step ids for branching, or "DONE"',
+        'branchRules is optional; each condition is checked in order and the first match picks the next step without asking the model. Conditions compare stepResults.<stepId>.<fieldId> or variables.<fieldId> using ==, !=, >, >=, <, <=, contains, and/or/not and parentheses. Each rule nextStep must be listed in nextStep. Conditions should only depend on data collected by the time the step is done (e.g. its own inputFields), because a matching rule advances immediately',
+        'allowedTools is optional; it limits the tools the AI can call during that step and must only list tools from providedTools. Omit it to allow all providedTools',
+        'acceptanceCriteria is optional; documents written with write_document in that step are graded against these criteria plus the requirements of the step\'s output format, and failing documents are sent back for revision. Write each criterion so it can be checked from the document alone',
+        'subSOP is optional; it is the id of another SOP to run as a sub-procedure when the step is reached. The sub-SOP runs through its own steps in the same chat, then its variables are passed back and the step continues to its nextStep. A SOP cannot invoke itself',
+        'userDocuments are the documents the user provides for a run; uploads and pasted text are matched to them by id. A run cannot leave its first step until every required document is provided, so make the first step ask for them',
+        'expectedOutput.schema is only for type "structured"; it is a JSON Schema with type "object" at the top level (supported keywords: type, properties, required, additionalProperties, items, enum, minimum, maximum, minLength, maxLength, pattern, minItems, maxItems). The AI submits an object matching it with submit_step_output, and the step cannot be left until it has. Omit schema for other output types',
+        'referencedDocuments lists the userDocuments ids or earlier step ids (for the document written in that step) a step works from; their contents are given to the AI while the step is current and opened for the user',
+        'requiresApproval is optional; set it to true when a person must sign off on the step (e.g. approve a style guide) before the SOP continues. The user approves or rejects it in the chat, and a rejection reason comes back as revision instructions',
+        'variables is optional; declared variables are extracted from the conversation automatically. Use {{variable_name}} placeholders in the SOP description, step descriptions and format templates to insert run variables, input field values (by field id) or values saved with the set_variable tool',
+        'modelSettings is optional on the SOP and on each step; step settings override the SOP ones, which override the default model. temperature is 0-2 and reasoningEffort is low, medium or high. Only set reasoningEffort for reasoning models, and do not combine it with temperature',
+        'inputFields is optional; use it when a step needs specific facts from the user so they fill in a form instead of typing them in prose',
         'dates must be ISO 8601 format',
         'All HTML templates in assistantOutputFormats MUST use ONLY inline styles. Do NOT use <style> tags. The output formats are converted from HTML to DOCX and while advanced enough to support color, font, and tables, only inline styles (style="...") are supported during this conversion.',
       ],
@@ -94,6 +128,7 @@ export const SOPManagementSOP: SOP = {
         description: 'A request to the user to confirm whether they want to create a new SOP or edit an existing one, and for the name of the SOP to edit/create.',
       },
       nextStep: ['clarify-edits', 'clarify-new'],
+      allowedTools: ['display_sop_to_user', 'delete_sop'],
     },
     {
       id: 'clarify-edits',
@@ -108,6 +143,7 @@ export const SOPManagementSOP: SOP = {
         description: 'A clear question asking the user to specify which SOP component they want to change and how.',
       },
       nextStep: 'apply-edits',
+      allowedTools: ['display_sop_to_user'],
     },
     {
       id: 'apply-edits',
@@ -122,6 +158,7 @@ export const SOPManagementSOP: SOP = {
         description: 'The modified SOP object with a brief message explaining the changes and a confirmation that they have been saved.',
       },
       nextStep: 'DONE',
+      allowedTools: ['display_sop_to_user', 'overwrite_sop'],
     },
     {
       id: 'clarify-new',
@@ -136,6 +173,7 @@ export const SOPManagementSOP: SOP = {
         description: 'A detailed question asking the user to describe their workflow, goals, steps, inputs, and expected outputs.',
       },
       nextStep: 'apply-new',
+      allowedTools: ['display_sop_to_user'],
     },
     {
       id: 'apply-new',
@@ -150,6 +188,7 @@ export const SOPManagementSOP: SOP = {
         description: 'A new SOP JSON object and confirmation message that the new SOP has been created successfully.',
       },
       nextStep: 'DONE',
+      allowedTools: ['create_sop'],
     }
   ],
   createdAt: new Date().toISOString(),
@@ -254,7 +293,7 @@ export const ContentPlanSOP: SOP = {
   name: 'content_plan',
   displayName: 'Content Plan Creator',
   description: 'Create a monthly content plan (12 or 18 videos) for a personal brand',
-  version: '1.0.0',
+  version: '1.1.0',
 
   generalInstructions: 'You are a content strategist working with an employee at a media agency (the user) to build an on-brand video content strategy. Your role is to analyze the given client\'s business, voice, and target audience alongside competitive research to create a content plan that drives engagement and sales. Be strategic but practical—balance variety with consistency, and ensure every recommendation aligns with both the client\'s goals and their audience\'s preferences.',
 
@@ -283,7 +322,7 @@ export const ContentPlanSOP: SOP = {
   <h2 style="color: #333; margin-bottom: 12px;">Key Takeaways</h2>
   <p style="color: #666; margin-bottom: 24px;">[summary]</p>
 
-  <h3 style="color: #333; margin-top: 24px; margin-bottom: 16px;">[CLIENT NAME] - [Package Size]-Video Monthly Content Ratio</h3>
+  <h3 style="color: #333; margin-top: 24px; margin-bottom: 16px;">{{client_name}} - {{package_size}}-Video Monthly Content Ratio</h3>
   <table style="width: 100%; border-collapse: collapse; margin-bottom: 24px;">
     <thead>
       <tr style="background-color: #f0f0f0;">
@@ -385,7 +424,7 @@ export const ContentPlanSOP: SOP = {
           <span style="color: #666;">Additional notes and context for the action</span>
         </td>
         <td style="border: 1px solid #ddd; padding: 12px; vertical-align: top;">
-          <span style="color: #000;"><strong>[YOUR NAME]:</strong> This is your dialogue. You will say these lines on camera.</span>
+          <span style="color: #000;"><strong>{{client_name}}:</strong> This is your dialogue. You will say these lines on camera.</span>
           <br />
           <br />
           <span style="color: #22863a;"><strong>[Add your personal detail/example here]</strong></span>
@@ -431,7 +470,12 @@ export const ContentPlanSOP: SOP = {
     }
   ],
 
-  providedTools: ['write_document'],
+  providedTools: ['write_document', 'set_variable'],
+
+  variables: [
+    { name: 'client_name', description: 'The name of the client or personal brand the content plan is for' },
+    { name: 'package_size', description: 'The monthly package size: 12 or 18 videos' },
+  ],
 
   steps: [
     {
@@ -10,6 +10,90 @@ export interface ExpectedOutput {
   type: 'text' | 'html-document' | 'structured' | 'conversation';
   format?: string;
   description?: string;
+  // For structured output, the JSON Schema the submitted object must match
+  schema?: JSONSchema;
+}
+
+/**
+ * The subset of JSON Schema supported for structured step output
+ */
+export interface JSONSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  title?: string;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: Array<string | number | boolean | null>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Completion settings for a SOP or a single step
+ * Step settings override the SOP's, which override the app defaults
+ */
+export interface ModelSettings {
+  model?: string;
+  // Sampling temperature (0-2); most reasoning models only accept the default
+  temperature?: number;
+  // Only supported by reasoning models
+  reasoningEffort?: 'low' | 'medium' | 'high';
+}
+
+/**
+ * A single field in a step's structured input form
+ */
+export interface InputField {
+  id: string;
+  label: string;
+  type: 'text' | 'number' | 'date' | 'select' | 'checkbox' | 'file';
+  description?: string;
+  placeholder?: string;
+  required?: boolean;
+
+  // Choices for select fields
+  options?: string[];
+
+  // Validation rules; which ones apply depends on the field type
+  validation?: {
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    patternMessage?: string;
+    // Numeric bounds for number fields, ISO dates (YYYY-MM-DD) for date fields
+    min?: number | string;
+    max?: number | string;
+    // Accepted file extensions/MIME types for file fields (e.g. ".pdf,.docx")
+    accept?: string;
+  };
+}
+
+/**
+ * A normalized value submitted through a step input form
+ * File fields store the uploaded file name; the file itself is attached to the message
+ */
+export type StepInputValue = string | number | boolean;
+
+/**
+ * A deterministic branch condition on a step's next step
+ * Rules are checked in order; the first matching rule decides the transition
+ */
+export interface BranchRule {
+  // Expression evaluated against the run's data,
+  // e.g. stepResults.intake.policyType == "commercial"
+  condition: string;
+
+  // Step to go to when the condition holds (must be one of the step's nextStep IDs)
+  nextStep: string;
+
+  description?: string;
 }
 
 /**
@@ -28,9 +112,32 @@ export interface SOPStep {
   // What to expect as output from this step
   expectedOutput: ExpectedOutput;
 
+  // Structured form shown to the user while this step is active
+  inputFields?: InputField[];
+
   // Next step ID, or null if this is the last step
   // Can also be an array of possible next steps for branching logic
   nextStep: string | string[] | null;
+
+  // Conditions that pick the next step deterministically, checked before the model decides
+  branchRules?: BranchRule[];
+
+  // Tools the model can call during this step (a subset of the SOP's providedTools)
+  // When omitted, the step gets all of the SOP's providedTools
+  allowedTools?: string[];
+
+  // Overrides the SOP's model settings while this step is active
+  modelSettings?: ModelSettings;
+
+  // Checks a document written in this step must pass, graded alongside its format's requirements
+  acceptanceCriteria?: string[];
+
+  // ID of another SOP to run as a child run when this step is reached
+  // The child's steps run in the same chat, then this step's nextStep continues the parent
+  subSOP?: string;
+
+  // A person must approve the step in the UI before the run can move past it
+  requiresApproval?: boolean;
 }
 
 /**
@@ -43,6 +150,14 @@ export interface SOPFormat {
   requirements: string[];
 }
 
+/**
+ * A run variable the SOP expects, filled from the conversation when it comes up
+ */
+export interface VariableDefinition {
+  name: string;
+  description: string;
+}
+
 /**
  * Represents a complete SOP template
  */
@@ -56,6 +171,9 @@ export interface SOP {
   // Custom instructions for the AI about the context of this SOP
   generalInstructions?: string;
 
+  // Default model settings for every step of this SOP
+  modelSettings?: ModelSettings;
+
   // Required documents that must be uploaded once per run
   userDocuments: {
     id: string;
@@ -71,12 +189,41 @@ export interface SOP {
   // The steps in the SOP
   steps: SOPStep[];
 
-  // Tools available to the AI during this SOP
+  // Tools available to the AI during this SOP; steps can narrow this with allowedTools
   providedTools: string[];
 
+  // Variables to pull out of the conversation, usable as {{name}} in step descriptions and format templates
+  variables?: VariableDefinition[];
+
   // Metadata
   createdAt: string;
   updatedAt: string;
+
+  // Set when the SOP is loaded from a definition file in SOP_DIRECTORY;
+  // such SOPs are read-only and can only be changed by editing the file
+  sourceFile?: string;
+}
+
+/**
+ * A saved revision of a SOP, without the definition itself
+ */
+export interface SOPVersionSummary {
+  id: number;
+  sopId: string;
+  // Sequential per SOP, starting at 1
+  versionNumber: number;
+  // The SOP's own version string at the time of saving
+  version: string;
+  author?: string;
+  changeNote?: string;
+  createdAt: string;
+}
+
+/**
+ * A saved revision of a SOP, including the definition as it was saved
+ */
+export interface SOPVersion extends SOPVersionSummary {
+  sop: SOP;
 }
 
 /**
@@ -86,10 +233,47 @@ export interface SOPRun {
   id: number;
   chatId: number;
   sopId: string;
+  // The SOP version this run started on; undefined for runs that predate versioning
+  sopVersionId?: number;
   currentStepId: string;
-  status: 'in_progress' | 'completed' | 'paused';
+  // Every step the run has been on, in order, ending with currentStepId
+  stepHistory: string[];
+  // Set on child runs started by a sub-SOP step of the parent run
+  parentRunId?: number;
+  status: 'in_progress' | 'completed' | 'paused' | 'cancelled';
+  // Why the run was last paused, resumed or cancelled
+  statusReason?: string;
   startedAt: string;
   completedAt?: string;
+  // Step change made with the step controls that the model hasn't been told about yet
+  manualTransition?: ManualTransition;
+  // Step change the model wasn't sure enough about, waiting for the user to confirm it
+  transitionProposal?: StepTransitionProposal;
+  // Generated document summarizing a completed top-level run
+  summaryDocumentId?: number;
+}
+
+/**
+ * A step change the user made with the step controls instead of through the conversation
+ */
+export interface ManualTransition {
+  action: 'jump' | 'back' | 'complete';
+  fromStepId: string;
+  toStepId: string;
+  // The SOP of the run that was moved, which may be a sub-SOP
+  sopId: string;
+}
+
+/**
+ * A low-confidence step decision held back until the user confirms or declines it
+ */
+export interface StepTransitionProposal {
+  fromStepId: string;
+  toStepId: string;
+  rationale?: string;
+  confidence?: number;
+  // User message the decision was made on
+  messageId?: number;
 }
 
 /**
@@ -100,23 +284,102 @@ export interface StepResult {
   runId: number;
   stepId: string;
   userInputs: {
-    [fieldId: string]: string | boolean | File;
+    [fieldId: string]: StepInputValue;
   };
   aiOutput: string;
   validationStatus: 'pending' | 'valid' | 'invalid';
   validationErrors?: string[];
+  // Judge's grading of a document written in this step
+  verdict?: OutputVerdict;
+  documentId?: number;
+  // Object submitted for a structured output step, also stored as JSON in aiOutput
+  structuredOutput?: Record<string, unknown>;
+  // Set when the result records a submission of the step's input form, even one with every field left blank
+  formSubmission?: boolean;
+  createdAt: string;
+}
+
+/**
+ * A named value collected during a run
+ * Filled by form inputs, set_variable calls or extraction from the conversation
+ */
+export interface RunVariable {
+  runId: number;
+  name: string;
+  value: StepInputValue;
+  source: 'form' | 'tool' | 'extraction' | 'sub_sop';
+  // Step that was active when the value was set
+  stepId?: string;
+  updatedAt: string;
+}
+
+/**
+ * A person's approve/reject decision on a step that requires approval
+ */
+export interface StepApproval {
+  id: number;
+  runId: number;
+  stepId: string;
+  decision: 'approved' | 'rejected';
+  approver: string;
+  // Why the step was rejected, passed to the model as revision instructions
+  reason?: string;
+  // Index in the run's stepHistory of the visit to the step this decision applies to
+  historyIndex: number;
+  createdAt: string;
+}
+
+/**
+ * A recorded change of a run's step, for auditing runs after the fact
+ */
+export interface StepTransition {
+  id: number;
+  runId: number;
+  // SOP of the run, which may be a sub-SOP
+  sopId: string;
+  fromStepId: string;
+  toStepId: string;
+  // sub_sop: the step advanced on its own once its sub-SOP finished, with no branch rule involved
+  trigger: 'llm' | 'rule' | 'manual' | 'sub_sop';
+  // The model's reasoning, the matched rule, or the manual action taken
+  rationale?: string;
+  // The model's confidence in its decision, 0-1
+  confidence?: number;
+  // User message that triggered the transition; absent for manual ones
+  messageId?: number;
   createdAt: string;
 }
 
 /**
- * Stores documents for a SOP run
+ * Grade for a single acceptance criterion
+ */
+export interface CriterionResult {
+  criterion: string;
+  passed: boolean;
+  feedback: string;
+}
+
+/**
+ * Judge's grading of a step output against its acceptance criteria
+ */
+export interface OutputVerdict {
+  passed: boolean;
+  criteria: CriterionResult[];
+  summary: string;
+}
+
+/**
+ * Stores documents for a SOP run, one per userDocuments slot
  */
 export interface SOPDocument {
   id: number;
   runId: number;
   documentId: string;
   content: string;
+  // 'text' for extracted or pasted text, 'openai-file' when content is an uploaded PDF's file ID
   contentType: string;
+  // Name of the uploaded file, if the document came from an upload
+  filename?: string;
   createdAt: string;
 }
 
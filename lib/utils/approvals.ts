@@ -0,0 +1,20 @@
+import type { SOPRun, SOPStep, StepApproval } from '@/lib/types/sop';
+
+/**
+ * Gets the latest decision on the run's current visit to its current step
+ * Decisions from earlier visits (e.g. before looping back to the step) don't count
+ */
+export function getCurrentApproval(run: SOPRun, approvals: StepApproval[]): StepApproval | undefined {
+  const historyIndex = run.stepHistory.length - 1;
+  return [...approvals]
+    .reverse()
+    .find((approval) => approval.stepId === run.currentStepId && approval.historyIndex === historyIndex);
+}
+
+/**
+ * Whether the step still needs a person to approve it before the run can move on
+ */
+export function isApprovalPending(step: SOPStep | undefined, run: SOPRun, approvals: StepApproval[]): boolean {
+  if (!step?.requiresApproval) return false;
+  return getCurrentApproval(run, approvals)?.decision !== 'approved';
+}
@@ -0,0 +1,318 @@
+/**
+ * Branch condition expressions
+ * A small, side-effect free expression language used by SOP branch rules, e.g.
+ *   stepResults.intake.policyType == "commercial" && variables.premium > 5000
+ *
+ * Supported syntax:
+ * - Paths: dotted identifiers (hyphens allowed, so step IDs work as segments)
+ * - Literals: "strings", 'strings', numbers, true, false, null
+ * - Comparisons: ==, !=, >, >=, <, <=, contains
+ * - Logic: &&/and, ||/or, !/not, parentheses
+ * A bare path is truthy when its value is set and not false/empty.
+ */
+
+type Token =
+  | { kind: 'path'; value: string[]; pos: number }
+  | { kind: 'literal'; value: string | number | boolean | null; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'paren'; value: '(' | ')'; pos: number };
+
+type Node =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'path'; segments: string[] }
+  | { type: 'not'; operand: Node }
+  | { type: 'logical'; operator: 'and' | 'or'; left: Node; right: Node }
+  | { type: 'compare'; operator: string; left: Node; right: Node };
+
+const COMPARISON_OPERATORS = ['==', '!=', '>=', '<=', '>', '<', 'contains'];
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!', contains: 'contains' };
+
+/**
+ * Splits an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: 'paren', value: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new Error(`Unterminated string starting at position ${start + 1}`);
+      }
+      i++;
+      tokens.push({ kind: 'literal', value, pos: start });
+      continue;
+    }
+
+    const twoChar = source.slice(i, i + 2);
+    if (['==', '!=', '>=', '<=', '&&', '||'].includes(twoChar)) {
+      tokens.push({ kind: 'op', value: twoChar, pos: i });
+      i += 2;
+      continue;
+    }
+    if (ch === '>' || ch === '<' || ch === '!') {
+      tokens.push({ kind: 'op', value: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+    if (numberMatch) {
+      tokens.push({ kind: 'literal', value: Number(numberMatch[0]), pos: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const wordMatch = /^[A-Za-z_][A-Za-z0-9_-]*(\.[A-Za-z0-9_-]+)*/.exec(source.slice(i));
+    if (wordMatch) {
+      const word = wordMatch[0];
+      if (word === 'true' || word === 'false') {
+        tokens.push({ kind: 'literal', value: word === 'true', pos: i });
+      } else if (word === 'null') {
+        tokens.push({ kind: 'literal', value: null, pos: i });
+      } else if (KEYWORD_OPERATORS[word]) {
+        tokens.push({ kind: 'op', value: KEYWORD_OPERATORS[word], pos: i });
+      } else {
+        tokens.push({ kind: 'path', value: word.split('.'), pos: i });
+      }
+      i += word.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${ch}" at position ${i + 1}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser producing an expression tree
+ */
+function parse(source: string): Node {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOp = (value: string) => peek()?.kind === 'op' && peek()!.value === value;
+
+  const parsePrimary = (): Node => {
+    const token = peek();
+    if (!token) {
+      throw new Error('Unexpected end of expression');
+    }
+    if (token.kind === 'paren' && token.value === '(') {
+      index++;
+      const inner = parseOr();
+      const closing = peek();
+      if (!closing || closing.kind !== 'paren' || closing.value !== ')') {
+        throw new Error(`Missing closing parenthesis for "(" at position ${token.pos + 1}`);
+      }
+      index++;
+      return inner;
+    }
+    if (token.kind === 'literal') {
+      index++;
+      return { type: 'literal', value: token.value };
+    }
+    if (token.kind === 'path') {
+      index++;
+      return { type: 'path', segments: token.value };
+    }
+    throw new Error(`Unexpected "${token.value}" at position ${token.pos + 1}`);
+  };
+
+  const parseComparison = (): Node => {
+    const left = parsePrimary();
+    const token = peek();
+    if (token?.kind === 'op' && COMPARISON_OPERATORS.includes(token.value)) {
+      index++;
+      const right = parsePrimary();
+      return { type: 'compare', operator: token.value, left, right };
+    }
+    return left;
+  };
+
+  const parseNot = (): Node => {
+    if (isOp('!')) {
+      index++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): Node => {
+    let left = parseNot();
+    while (isOp('&&')) {
+      index++;
+      left = { type: 'logical', operator: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseOr = (): Node => {
+    let left = parseAnd();
+    while (isOp('||')) {
+      index++;
+      left = { type: 'logical', operator: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('Condition is empty');
+  }
+
+  const tree = parseOr();
+  if (index < tokens.length) {
+    const extra = tokens[index];
+    throw new Error(`Unexpected "${extra.value}" at position ${extra.pos + 1}`);
+  }
+  return tree;
+}
+
+/**
+ * Resolves a dotted path against the evaluation context
+ * Only own properties are read, so paths like `__proto__.constructor` resolve to undefined
+ */
+function resolvePath(segments: string[], context: Record<string, any>): unknown {
+  let current: any = context;
+  for (const segment of segments) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '' && value !== 'false';
+  return Boolean(value);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+function looselyEquals(left: unknown, right: unknown): boolean {
+  if (left === undefined || right === undefined) {
+    return left === right;
+  }
+  if (left === null || right === null) {
+    return left === right;
+  }
+  const leftNum = toNumber(left);
+  const rightNum = toNumber(right);
+  if ((typeof left === 'number' || typeof right === 'number') && leftNum !== null && rightNum !== null) {
+    return leftNum === rightNum;
+  }
+  return String(left) === String(right);
+}
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '==':
+      return looselyEquals(left, right);
+    case '!=':
+      return !looselyEquals(left, right);
+    case 'contains':
+      if (Array.isArray(left)) return left.some((item) => looselyEquals(item, right));
+      if (typeof left === 'string' && right !== null && right !== undefined) {
+        return left.toLowerCase().includes(String(right).toLowerCase());
+      }
+      return false;
+    default: {
+      // Ordering: numeric when both sides are numeric, otherwise string (works for ISO dates)
+      let a: number | string;
+      let b: number | string;
+      const leftNum = toNumber(left);
+      const rightNum = toNumber(right);
+      if (leftNum !== null && rightNum !== null) {
+        a = leftNum;
+        b = rightNum;
+      } else if (typeof left === 'string' && typeof right === 'string') {
+        a = left;
+        b = right;
+      } else {
+        return false;
+      }
+      if (operator === '>') return a > b;
+      if (operator === '>=') return a >= b;
+      if (operator === '<') return a < b;
+      return a <= b;
+    }
+  }
+}
+
+function evaluateNode(node: Node, context: Record<string, any>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return resolvePath(node.segments, context);
+    case 'not':
+      return !isTruthy(evaluateNode(node.operand, context));
+    case 'logical': {
+      const left = isTruthy(evaluateNode(node.left, context));
+      if (node.operator === 'and') return left && isTruthy(evaluateNode(node.right, context));
+      return left || isTruthy(evaluateNode(node.right, context));
+    }
+    case 'compare':
+      return compare(node.operator, evaluateNode(node.left, context), evaluateNode(node.right, context));
+  }
+}
+
+/**
+ * Checks a condition for syntax errors
+ * Returns an error message, or null if the condition is valid
+ */
+export function validateCondition(condition: string): string | null {
+  try {
+    parse(condition);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid condition';
+  }
+}
+
+/**
+ * Evaluates a condition against a context object
+ * Invalid conditions never match
+ */
+export function evaluateCondition(condition: string, context: Record<string, any>): boolean {
+  try {
+    return isTruthy(evaluateNode(parse(condition), context));
+  } catch (error) {
+    console.error(`Error evaluating condition "${condition}":`, error);
+    return false;
+  }
+}
@@ -0,0 +1,142 @@
+import type { JSONSchema } from '@/lib/types/sop';
+
+const SCHEMA_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+const SUPPORTED_KEYWORDS = new Set([
+  'type', 'title', 'description', 'properties', 'required', 'additionalProperties', 'items', 'enum',
+  'minimum', 'maximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems',
+]);
+
+/**
+ * Describes the JSON type of a value the way schemas name it
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Checks a schema definition for unsupported types and keywords
+ * Returns a list of problems, empty when the schema can be used
+ */
+export function checkSchemaDefinition(schema: unknown, path = '$'): string[] {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return [`${path} must be a schema object`];
+  }
+
+  const definition = schema as Record<string, unknown>;
+  const problems: string[] = [];
+
+  for (const keyword of Object.keys(definition)) {
+    if (!SUPPORTED_KEYWORDS.has(keyword)) {
+      problems.push(`${path} uses unsupported keyword "${keyword}"`);
+    }
+  }
+  if (definition.type !== undefined && !SCHEMA_TYPES.includes(definition.type as string)) {
+    problems.push(`${path} has unknown type "${String(definition.type)}"`);
+  }
+  if (definition.required !== undefined && !Array.isArray(definition.required)) {
+    problems.push(`${path}.required must be a list of property names`);
+  }
+  if (definition.enum !== undefined && !Array.isArray(definition.enum)) {
+    problems.push(`${path}.enum must be a list of values`);
+  }
+  if (typeof definition.pattern === 'string') {
+    try {
+      new RegExp(definition.pattern);
+    } catch {
+      problems.push(`${path}.pattern is not a valid regular expression`);
+    }
+  }
+
+  if (definition.properties !== undefined) {
+    if (!definition.properties || typeof definition.properties !== 'object' || Array.isArray(definition.properties)) {
+      problems.push(`${path}.properties must be an object`);
+    } else {
+      for (const [name, property] of Object.entries(definition.properties)) {
+        problems.push(...checkSchemaDefinition(property, `${path}.${name}`));
+      }
+    }
+  }
+  if (definition.items !== undefined) {
+    problems.push(...checkSchemaDefinition(definition.items, `${path}[]`));
+  }
+
+  return problems;
+}
+
+/**
+ * Validates a value against a schema
+ * Returns error messages with the path of each offending value, empty when it matches
+ */
+export function validateAgainstSchema(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    // Integers are numbers too
+    const matches = schema.type === actual || (schema.type === 'number' && actual === 'integer');
+    if (!matches) {
+      return [`${path} must be of type ${schema.type}, got ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    return [`${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} must match the pattern ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (actual === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const name of schema.required || []) {
+      if (object[name] === undefined) {
+        errors.push(`${path}.${name} is required`);
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(object)) {
+      const property = schema.properties?.[name];
+      if (property) {
+        errors.push(...validateAgainstSchema(propertyValue, property, `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name} is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -20,6 +20,14 @@ export function getThread(leafId: number, messages: Message[]): Message[] {
   return thread;
 }
 
+/**
+ * Keeps the messages of a thread that belong to a run
+ * Untagged messages predate per-run tagging and are counted as the chat's first run's
+ */
+export function getRunThread(thread: Message[], runId: number | undefined, firstRunId: number | undefined): Message[] {
+  return thread.filter((m) => (m.run_id ?? firstRunId) === runId);
+}
+
 /**
  * Gets the latest leaf message ID for the default/latest branch
  * If multiple branches exist, it follows the most recently created path
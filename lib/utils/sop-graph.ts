@@ -0,0 +1,134 @@
+import type { SOP, SOPStep } from '@/lib/types/sop';
+
+/**
+ * Marker used in nextStep to end the SOP
+ */
+export const DONE_STEP_ID = 'DONE';
+
+/**
+ * Gets the step IDs a step can transition to, excluding the DONE marker
+ */
+export function getNextStepIds(step: SOPStep): string[] {
+  if (!step.nextStep) return [];
+  const targets = Array.isArray(step.nextStep) ? step.nextStep : [step.nextStep];
+  return targets.filter((id) => id !== DONE_STEP_ID);
+}
+
+/**
+ * Whether the SOP can finish from this step
+ */
+export function isTerminalStep(step: SOPStep): boolean {
+  if (!step.nextStep) return true;
+  const targets = Array.isArray(step.nextStep) ? step.nextStep : [step.nextStep];
+  return targets.length === 0 || targets.includes(DONE_STEP_ID);
+}
+
+/**
+ * Gets the IDs of all steps reachable from the first step (including it)
+ */
+export function getReachableStepIds(sop: SOP): Set<string> {
+  const reachable = new Set<string>();
+  const first = sop.steps[0];
+  if (!first) return reachable;
+
+  const stepsById = new Map(sop.steps.map((s) => [s.id, s]));
+  const queue = [first.id];
+  while (queue.length > 0) {
+    const stepId = queue.shift()!;
+    if (reachable.has(stepId)) continue;
+    const step = stepsById.get(stepId);
+    if (!step) continue;
+    reachable.add(stepId);
+    queue.push(...getNextStepIds(step));
+  }
+  return reachable;
+}
+
+/**
+ * Gets the IDs of all steps from which the SOP can still reach a terminal step
+ */
+export function getStepIdsThatCanFinish(sop: SOP): Set<string> {
+  const canFinish = new Set<string>(sop.steps.filter(isTerminalStep).map((s) => s.id));
+
+  // Walk backwards until no more steps can be added
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const step of sop.steps) {
+      if (canFinish.has(step.id)) continue;
+      if (getNextStepIds(step).some((id) => canFinish.has(id))) {
+        canFinish.add(step.id);
+        changed = true;
+      }
+    }
+  }
+  return canFinish;
+}
+
+/**
+ * Finds cycles of steps that can never reach a terminal step
+ * Each cycle is returned as its step IDs in traversal order
+ */
+export function findCyclesWithoutExit(sop: SOP): string[][] {
+  const canFinish = getStepIdsThatCanFinish(sop);
+  const trapped = sop.steps.filter((s) => !canFinish.has(s.id));
+  const trappedIds = new Set(trapped.map((s) => s.id));
+  const stepsById = new Map(sop.steps.map((s) => [s.id, s]));
+
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  for (const start of trapped) {
+    if (seen.has(start.id)) continue;
+
+    // Follow trapped edges depth-first; revisiting a step on the current path closes a cycle
+    const path: string[] = [];
+    const onPath = new Set<string>();
+    const visit = (stepId: string) => {
+      if (onPath.has(stepId)) {
+        cycles.push(path.slice(path.indexOf(stepId)));
+        return;
+      }
+      if (seen.has(stepId)) return;
+      path.push(stepId);
+      onPath.add(stepId);
+      const step = stepsById.get(stepId);
+      for (const id of step ? getNextStepIds(step) : []) {
+        if (trappedIds.has(id)) visit(id);
+      }
+      path.pop();
+      onPath.delete(stepId);
+      seen.add(stepId);
+    };
+    visit(start.id);
+  }
+
+  return cycles;
+}
+
+/**
+ * A step the SOP can get stuck on
+ * missingTargets are next step IDs that don't exist; canFinish is false when
+ * no path from the step reaches the end of the SOP
+ */
+export interface DeadEnd {
+  stepId: string;
+  missingTargets: string[];
+  canFinish: boolean;
+}
+
+/**
+ * Finds steps with broken next step links or no route to the end of the SOP
+ */
+export function findDeadEnds(sop: SOP): DeadEnd[] {
+  const stepIds = new Set(sop.steps.map((s) => s.id));
+  const canFinish = getStepIdsThatCanFinish(sop);
+
+  return sop.steps
+    .map((step) => ({
+      stepId: step.id,
+      missingTargets: getNextStepIds(step).filter((id) => !stepIds.has(id)),
+      canFinish: canFinish.has(step.id),
+    }))
+    .filter((deadEnd) => deadEnd.missingTargets.length > 0 || !deadEnd.canFinish);
+}
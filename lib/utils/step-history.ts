@@ -0,0 +1,38 @@
+import type { ManualTransition, SOPRun, StepTransition } from '@/lib/types/sop';
+
+/**
+ * Rationale recorded for each step control move
+ * The back rationale also marks the transitions that going back has undone
+ */
+export const MANUAL_TRANSITION_RATIONALES: Record<ManualTransition['action'], string> = {
+  jump: 'Jumped with the step controls',
+  back: 'Went back with the step controls',
+  complete: 'Completed with the step controls',
+};
+
+function isBackMove(transition: StepTransition): boolean {
+  return transition.trigger === 'manual' && transition.rationale === MANUAL_TRANSITION_RATIONALES.back;
+}
+
+/**
+ * Finds the step a run goes back to with the step controls
+ * Replays the run's recorded transitions as a path: each back move undoes the move before it,
+ * so going back repeatedly keeps walking back, while loops in the SOP count as real moves.
+ * Runs whose moves weren't all recorded fall back to the previous entry in stepHistory
+ */
+export function getPreviousStepId(run: SOPRun, transitions: StepTransition[]): string | undefined {
+  const own = transitions.filter((t) => t.runId === run.id);
+  const path = [own[0]?.fromStepId ?? run.stepHistory[0]];
+  for (const transition of own) {
+    if (isBackMove(transition)) {
+      path.pop();
+    } else {
+      path.push(transition.toStepId);
+    }
+  }
+
+  if (path[path.length - 1] !== run.currentStepId) {
+    return run.stepHistory[run.stepHistory.length - 2];
+  }
+  return path[path.length - 2];
+}
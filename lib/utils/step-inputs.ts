@@ -0,0 +1,232 @@
+import type { InputField, SOP, SOPStep, StepInputValue, StepResult } from '@/lib/types/sop';
+
+/**
+ * Result of validating a step input form submission
+ */
+export interface StepInputValidationResult {
+  valid: boolean;
+  // Field ID -> error message
+  errors: Record<string, string>;
+  // Normalized values (numbers parsed, checkboxes as booleans, text trimmed)
+  values: Record<string, StepInputValue>;
+}
+
+/**
+ * Checks whether a submitted value counts as empty for required-field purposes
+ */
+function isEmptyValue(field: InputField, value: unknown): boolean {
+  if (field.type === 'checkbox') {
+    return value !== true && value !== 'true';
+  }
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+/**
+ * Validates a single non-empty value against the field's type and rules
+ * Returns the normalized value or an error message
+ */
+function validateFieldValue(field: InputField, raw: unknown): { value?: StepInputValue; error?: string } {
+  const rules = field.validation || {};
+
+  switch (field.type) {
+    case 'checkbox':
+      return { value: raw === true || raw === 'true' };
+
+    case 'number': {
+      const num = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(num)) {
+        return { error: `${field.label} must be a number` };
+      }
+      if (typeof rules.min === 'number' && num < rules.min) {
+        return { error: `${field.label} must be at least ${rules.min}` };
+      }
+      if (typeof rules.max === 'number' && num > rules.max) {
+        return { error: `${field.label} must be at most ${rules.max}` };
+      }
+      return { value: num };
+    }
+
+    case 'date': {
+      const date = String(raw).trim();
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+        return { error: `${field.label} must be a valid date (YYYY-MM-DD)` };
+      }
+      // ISO dates compare correctly as strings
+      if (typeof rules.min === 'string' && date < rules.min) {
+        return { error: `${field.label} must be on or after ${rules.min}` };
+      }
+      if (typeof rules.max === 'string' && date > rules.max) {
+        return { error: `${field.label} must be on or before ${rules.max}` };
+      }
+      return { value: date };
+    }
+
+    case 'select': {
+      const choice = String(raw);
+      if (field.options && !field.options.includes(choice)) {
+        return { error: `${field.label} must be one of: ${field.options.join(', ')}` };
+      }
+      return { value: choice };
+    }
+
+    case 'file':
+      return { value: String(raw) };
+
+    case 'text':
+    default: {
+      const text = String(raw).trim();
+      if (typeof rules.minLength === 'number' && text.length < rules.minLength) {
+        return { error: `${field.label} must be at least ${rules.minLength} characters` };
+      }
+      if (typeof rules.maxLength === 'number' && text.length > rules.maxLength) {
+        return { error: `${field.label} must be at most ${rules.maxLength} characters` };
+      }
+      if (rules.pattern) {
+        try {
+          if (!new RegExp(rules.pattern).test(text)) {
+            return { error: rules.patternMessage || `${field.label} is not in the expected format` };
+          }
+        } catch (e) {
+          console.error(`Invalid pattern for field ${field.id}:`, e);
+        }
+      }
+      return { value: text };
+    }
+  }
+}
+
+/**
+ * Validates and normalizes a form submission against a step's input fields
+ * Shared by the client (inline errors) and the server (authoritative check)
+ */
+export function validateStepInputs(
+  fields: InputField[],
+  values: Record<string, unknown>
+): StepInputValidationResult {
+  const errors: Record<string, string> = {};
+  const normalized: Record<string, StepInputValue> = {};
+
+  for (const field of fields) {
+    const raw = values[field.id];
+
+    if (isEmptyValue(field, raw)) {
+      if (field.required) {
+        errors[field.id] = field.type === 'checkbox'
+          ? `${field.label} must be checked`
+          : `${field.label} is required`;
+      } else if (field.type === 'checkbox') {
+        normalized[field.id] = false;
+      }
+      continue;
+    }
+
+    const result = validateFieldValue(field, raw);
+    if (result.error) {
+      errors[field.id] = result.error;
+    } else if (result.value !== undefined) {
+      normalized[field.id] = result.value;
+    }
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+    values: normalized,
+  };
+}
+
+/**
+ * Formats a single value for display to the user or the model
+ */
+function formatValue(field: InputField | undefined, value: StepInputValue): string {
+  if (field?.type === 'checkbox' || typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (field?.type === 'file') {
+    return `${value} (attached)`;
+  }
+  return String(value);
+}
+
+/**
+ * Shown in place of the values list for a form submitted with every field left blank
+ */
+export const NO_VALUES_SUBMITTED = '- (no values entered)';
+
+/**
+ * Formats submitted values as a "- Label: value" list, in field order
+ */
+export function formatStepInputs(fields: InputField[], values: Record<string, StepInputValue>): string {
+  const lines: string[] = [];
+  for (const field of fields) {
+    if (values[field.id] === undefined) continue;
+    lines.push(`- ${field.label}: ${formatValue(field, values[field.id])}`);
+  }
+  // Include any values that no longer have a matching field (e.g. the SOP was edited)
+  for (const [fieldId, value] of Object.entries(values)) {
+    if (!fields.some((f) => f.id === fieldId)) {
+      lines.push(`- ${fieldId}: ${formatValue(undefined, value)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Builds the chat message text sent when the user submits a step form
+ */
+export function formatStepInputsMessage(step: SOPStep, values: Record<string, StepInputValue>): string {
+  const title = step.userFacingTitle || step.assistantFacingTitle;
+  return `Submitted "${title}" form:\n${formatStepInputs(step.inputFields || [], values) || NO_VALUES_SUBMITTED}`;
+}
+
+/**
+ * Collects the latest submitted form values per step from a run's step results
+ * Returns a map of step ID -> field ID -> value; a form submitted with no values maps to an empty object
+ */
+export function getSubmittedInputsByStep(results: StepResult[]): Record<string, Record<string, StepInputValue>> {
+  const byStep: Record<string, Record<string, StepInputValue>> = {};
+  for (const result of results) {
+    const hasValues = !!result.userInputs && Object.keys(result.userInputs).length > 0;
+    if (!result.formSubmission && !hasValues) continue;
+    // Results are ordered oldest first, so later submissions override earlier ones
+    byStep[result.stepId] = { ...(byStep[result.stepId] || {}), ...result.userInputs };
+  }
+  return byStep;
+}
+
+/**
+ * Whether the step's form still needs to be filled in for this run
+ * Any submission counts, including one that left every optional field blank
+ */
+export function isStepFormPending(step: SOPStep | undefined, results: StepResult[]): boolean {
+  if (!step?.inputFields || step.inputFields.length === 0) return false;
+  return !getSubmittedInputsByStep(results)[step.id];
+}
+
+/**
+ * Latest structured output submitted for each step, by step ID
+ */
+export function getStructuredOutputsByStep(results: StepResult[]): Record<string, Record<string, unknown>> {
+  const byStep: Record<string, Record<string, unknown>> = {};
+  for (const result of results) {
+    if (result.structuredOutput) {
+      byStep[result.stepId] = result.structuredOutput;
+    }
+  }
+  return byStep;
+}
+
+/**
+ * Whether a structured output step is still waiting for its output to be submitted
+ */
+export function isStructuredOutputPending(step: SOPStep | undefined, results: StepResult[]): boolean {
+  if (step?.expectedOutput?.type !== 'structured' || !step.expectedOutput.schema) return false;
+  return !getStructuredOutputsByStep(results)[step.id];
+}
+
+/**
+ * Finds the input field definitions for a step, if any
+ */
+export function getStepInputFields(sop: SOP, stepId: string): InputField[] {
+  return sop.steps.find((s) => s.id === stepId)?.inputFields || [];
+}
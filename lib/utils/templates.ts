@@ -0,0 +1,68 @@
+import type { SOP, StepInputValue } from '@/lib/types/sop';
+
+// Matches {{name}} placeholders, allowing spaces inside the braces
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+/**
+ * Formats a variable value for substitution into text
+ */
+export function formatVariableValue(value: StepInputValue): string {
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  return String(value);
+}
+
+/**
+ * Lists the variable names used as placeholders in a piece of text
+ */
+export function getPlaceholderNames(text: string): string[] {
+  const names = Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Substitutes {{name}} placeholders with variable values
+ * Placeholders without a value are left as-is so the model can see what is still missing
+ */
+export function renderTemplate(text: string, variables: Record<string, StepInputValue>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    variables[name] === undefined ? placeholder : formatVariableValue(variables[name])
+  );
+}
+
+/**
+ * Returns a copy of the SOP with variables substituted into its description,
+ * step descriptions and output format templates
+ */
+export function renderSOPTemplates(sop: SOP, variables: Record<string, StepInputValue>): SOP {
+  if (Object.keys(variables).length === 0) {
+    return sop;
+  }
+
+  return {
+    ...sop,
+    description: renderTemplate(sop.description, variables),
+    steps: sop.steps.map((step) => ({
+      ...step,
+      description: renderTemplate(step.description, variables),
+    })),
+    assistantOutputFormats: sop.assistantOutputFormats?.map((format) => ({
+      ...format,
+      template: renderTemplate(format.template, variables),
+    })),
+  };
+}
+
+/**
+ * Collects every placeholder used in the SOP's description, step descriptions and format templates
+ * Tolerates malformed SOPs, since the linter calls it on untrusted input
+ */
+export function getSOPPlaceholderNames(sop: SOP): string[] {
+  const texts = [
+    sop.description,
+    ...sop.steps.map((step) => step.description),
+    ...(Array.isArray(sop.assistantOutputFormats) ? sop.assistantOutputFormats : []).map((format) => format?.template),
+  ].filter((text): text is string => typeof text === 'string');
+  return Array.from(new Set(texts.flatMap(getPlaceholderNames)));
+}
@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+/**
+ * Test script for the branch condition language
+ * Run with: npx tsx scripts/test-conditions.ts
+ */
+
+import { evaluateCondition, validateCondition } from '../lib/utils/conditions';
+
+const context = {
+  stepResults: {
+    intake: { policyType: 'commercial', tags: ['urgent', 'renewal'], notes: 'Needs a Broker review' },
+    scoring: { score: 72, approved: false },
+  },
+  variables: { premium: '6000', region: 'EU', startDate: '2024-03-01', empty: '' },
+};
+
+let failures = 0;
+
+function check(label: string, actual: unknown, expected: unknown) {
+  if (actual === expected) {
+    console.log(`   ✓ ${label}`);
+  } else {
+    failures++;
+    console.log(`   ✗ ${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+function expectResult(condition: string, expected: boolean) {
+  check(condition, evaluateCondition(condition, context), expected);
+}
+
+function expectInvalid(condition: string, message: string) {
+  check(`${JSON.stringify(condition)} is rejected`, validateCondition(condition), message);
+}
+
+console.log('\n' + '='.repeat(80));
+console.log('TESTING BRANCH CONDITIONS');
+console.log('='.repeat(80) + '\n');
+
+console.log('1. Comparisons and paths...');
+expectResult('stepResults.intake.policyType == "commercial"', true);
+expectResult("stepResults.intake.policyType != 'commercial'", false);
+expectResult('variables.premium > 5000', true);
+expectResult('variables.premium >= 6000 and variables.premium <= 6000', true);
+expectResult('variables.startDate < "2024-06-01"', true);
+expectResult('stepResults.intake.tags contains "urgent"', true);
+expectResult('stepResults.intake.notes contains "broker"', true);
+expectResult('stepResults.scoring.approved', false);
+expectResult('variables.empty', false);
+expectResult('variables.missing == null', false);
+expectResult('stepResults.unknown-step.field', false);
+console.log();
+
+console.log('2. Operator precedence...');
+// && binds tighter than ||, so this is true || (false && false)
+expectResult('variables.region == "EU" || stepResults.scoring.approved && variables.empty', true);
+expectResult('(variables.region == "EU" || stepResults.scoring.approved) && variables.empty', false);
+// ! binds tighter than &&
+expectResult('!stepResults.scoring.approved && variables.premium > 5000', true);
+expectResult('not (stepResults.scoring.approved or variables.premium > 5000)', false);
+// Comparisons bind tighter than ! and the logical operators
+expectResult('!variables.region == "US"', true);
+expectResult('stepResults.scoring.score > 50 and stepResults.scoring.score < 80 or false', true);
+console.log();
+
+console.log('3. Only own properties are read...');
+expectResult('stepResults.__proto__.constructor', false);
+expectResult('variables.constructor', false);
+expectResult('stepResults.intake.tags.length', true);
+console.log();
+
+console.log('4. Invalid expressions...');
+expectInvalid('', 'Condition is empty');
+expectInvalid('variables.premium >', 'Unexpected end of expression');
+expectInvalid('(variables.premium > 5000', 'Missing closing parenthesis for "(" at position 1');
+expectInvalid('variables.premium > 5000)', 'Unexpected ")" at position 25');
+expectInvalid('variables.region == "EU', 'Unterminated string starting at position 21');
+expectInvalid('variables.premium = 5000', 'Unexpected character "=" at position 19');
+expectInvalid('&& variables.region', 'Unexpected "&&" at position 1');
+check('invalid conditions never match', evaluateCondition('variables.region ==', context), false);
+console.log();
+
+console.log('='.repeat(80));
+if (failures > 0) {
+  console.log(`✗ ${failures} CHECK(S) FAILED`);
+  console.log('='.repeat(80) + '\n');
+  process.exit(1);
+}
+console.log('✓ ALL TESTS PASSED');
+console.log('='.repeat(80) + '\n');
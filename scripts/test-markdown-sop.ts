@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+/**
+ * Test script for the Markdown SOP parser
+ * Run with: npx tsx scripts/test-markdown-sop.ts
+ *
+ * Parses the dialect example from the README, then checks that mistakes are reported on the right lines
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { SOPParseError, SOPParseResult } from '../lib/sops/markdown';
+import { DONE_STEP_ID } from '../lib/utils/sop-graph';
+
+// The parser runs the SOP linter, which needs an API key to load, so it is imported once the key is set
+if (!process.env.OPENAI_API_KEY) {
+  process.env.OPENAI_API_KEY = 'test-key-for-testing';
+}
+let parseSOPMarkdown: (source: string) => SOPParseResult;
+
+let failures = 0;
+
+function check(label: string, actual: unknown, expected: unknown) {
+  if (JSON.stringify(actual) === JSON.stringify(expected)) {
+    console.log(`   ✓ ${label}`);
+  } else {
+    failures++;
+    console.log(`   ✗ ${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+function expectErrors(label: string, source: string, expected: SOPParseError[]) {
+  const result = parseSOPMarkdown(source);
+  check(`${label} has no SOP`, result.sop, undefined);
+  check(label, result.errors, expected);
+}
+
+async function main() {
+  parseSOPMarkdown = (await import('../lib/sops/markdown')).parseSOPMarkdown;
+
+  console.log('\n' + '='.repeat(80));
+  console.log('TESTING MARKDOWN SOP PARSER');
+  console.log('='.repeat(80) + '\n');
+
+  console.log('1. Parsing the README example...');
+  const readme = fs.readFileSync(path.join(__dirname, '..', 'README.md'), 'utf-8');
+  const example = /````markdown\n([\s\S]*?)\n````/.exec(readme)?.[1];
+  if (!example) {
+    console.error('   ✗ Could not find the Markdown SOP example in the README');
+    process.exit(1);
+  }
+
+  const { sop, errors } = parseSOPMarkdown(example);
+  check('no errors', errors, []);
+  if (sop) {
+    check('id', sop.id, 'monthly-content-plan');
+    check('display name', sop.displayName, 'Monthly Content Plan');
+    check('name defaults from the id', sop.name, 'monthly_content_plan');
+    check('tools', sop.providedTools, ['write_document']);
+    check('description', sop.description, 'Create a monthly content plan for a client from their onboarding doc.');
+    check('general instructions', sop.generalInstructions, 'Always cross reference the onboarding doc with the comps list.');
+    check('documents', sop.userDocuments.map((doc) => [doc.id, doc.type, doc.required]), [
+      ['onboarding-doc', 'file', true],
+      ['comps-list', 'text', false],
+    ]);
+    check('step ids', sop.steps.map((step) => step.id), ['gather-inputs', 'ratio']);
+    check('step without next continues to the following step', sop.steps[0].nextStep, 'ratio');
+    check('step documents', sop.steps[0].referencedDocuments, ['onboarding-doc', 'comps-list']);
+    check('next with done', sop.steps[1].nextStep, ['gather-inputs', DONE_STEP_ID]);
+    check('step format', sop.steps[1].expectedOutput, { type: 'html-document', format: 'content-ratio' });
+    check('format', (sop.assistantOutputFormats || []).map((format) => [format.id, format.requirements.length]), [['content-ratio', 2]]);
+  }
+  console.log();
+
+  console.log('2. Line-numbered errors...');
+  expectErrors('missing title', 'Some text\n\n## Step 1: Start\n', [
+    { line: 1, message: 'Expected the SOP title as a "#" heading (e.g. "# Monthly Content Plan") before any other text' },
+  ]);
+  expectErrors('second title', '# One\n\n## Step 1: Start\n\n# Two\n', [
+    { line: 5, message: 'Only one "#" title is allowed (the title is already set on line 1)' },
+  ]);
+  expectErrors('unknown output type', '# Plan\n\n## Step 1: Start\n- output: video\n\nDo it.\n', [
+    { line: 4, message: 'Unknown output type "video". Use one of: text, html-document, structured, conversation' },
+  ]);
+  expectErrors('repeated property', '# Plan\nid: plan\nid: other\n\n## Step 1: Start\n', [
+    { line: 3, message: '"id" is already set on line 2' },
+  ]);
+  expectErrors('unknown section', '# Plan\n\n## Step 1: Start\n\n## Appendix\n', [
+    { line: 5, message: 'Unknown section "Appendix". Sections are "Step ...", "Format: ...", "Instructions", "Documents" and "Variables"' },
+  ]);
+  expectErrors('unclosed code block', '# Plan\n\n## Format: Table\n\n```html\n<table></table>\n', [
+    { line: 3, message: 'Format "Table" needs a code block with its template' },
+    { line: 5, message: 'Code block is never closed' },
+  ]);
+  const linted = parseSOPMarkdown('# Plan\n\n## Step 1: Start\n- next: missing-step\n\nDo it.\n');
+  check('linter errors point at the next property', linted.errors.map((error) => error.line), [4]);
+  console.log();
+
+  console.log('='.repeat(80));
+  if (failures > 0) {
+    console.log(`✗ ${failures} CHECK(S) FAILED`);
+    console.log('='.repeat(80) + '\n');
+    process.exit(1);
+  }
+  console.log('✓ ALL TESTS PASSED');
+  console.log('='.repeat(80) + '\n');
+}
+
+main();